@@ -0,0 +1,53 @@
+import ApolloClient from 'apollo-client';
+
+import { GET_API_FIELDS } from './queries';
+
+export type ApiFeature =
+  | 'snapshots'
+  | 'accounts'
+  | 'argumentPresets'
+  | 'accountProfiles';
+
+// Fields each feature needs on the API side
+const FEATURE_FIELDS: { [feature in ApiFeature]: string[] } = {
+  snapshots: [
+    'projectSnapshots',
+    'createProjectSnapshot',
+    'deleteProjectSnapshot',
+  ],
+  accounts: ['createAccount', 'deleteAccount'],
+  argumentPresets: ['argumentPresets', 'updateArgumentPresets'],
+  accountProfiles: ['accountProfiles', 'updateAccountProfiles'],
+};
+
+type SchemaType = { fields: { name: string }[] } | null;
+
+let apiFields: Promise<Set<string>> | null = null;
+
+// The schema is only asked for once. When it can't be read, features
+// are treated as unsupported rather than failing later on
+const loadApiFields = (client: ApolloClient<object>): Promise<Set<string>> =>
+  client
+    .query({ query: GET_API_FIELDS })
+    .then(({ data }) => {
+      const types: SchemaType[] = [data.query, data.mutation];
+      const names = types
+        .filter(Boolean)
+        .map((type) => type.fields.map((field) => field.name));
+      return new Set<string>([].concat(...names));
+    })
+    .catch((e) => {
+      console.error(e);
+      return new Set<string>();
+    });
+
+export async function isApiFeatureSupported(
+  client: ApolloClient<object>,
+  feature: ApiFeature,
+): Promise<boolean> {
+  if (!apiFields) {
+    apiFields = loadApiFields(client);
+  }
+  const fields = await apiFields;
+  return FEATURE_FIELDS[feature].every((field) => fields.has(field));
+}
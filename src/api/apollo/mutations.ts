@@ -29,6 +29,14 @@ export const CREATE_PROJECT = gql`
         deployedCode
         state
       }
+      transactionTemplates {
+        id
+        index
+      }
+      scriptTemplates {
+        id
+        index
+      }
     }
   }
 `;
@@ -42,6 +50,57 @@ export const PERSIST_PROJECT = gql`
   }
 `;
 
+export const CREATE_PROJECT_SNAPSHOT = gql`
+  mutation CreateProjectSnapshot(
+    $projectId: UUID!
+    $title: String!
+    $accounts: [String!]!
+    $transactionTemplates: [NewProjectTransactionTemplate!]!
+    $scriptTemplates: [NewProjectScriptTemplate!]!
+  ) {
+    snapshot: createProjectSnapshot(
+      input: {
+        projectId: $projectId
+        title: $title
+        accounts: $accounts
+        transactionTemplates: $transactionTemplates
+        scriptTemplates: $scriptTemplates
+      }
+    ) {
+      id
+      title
+      createdAt
+      accounts
+      transactionTemplates {
+        title
+        script
+      }
+      scriptTemplates {
+        title
+        script
+      }
+    }
+  }
+`;
+
+export const DELETE_PROJECT_SNAPSHOT = gql`
+  mutation DeleteProjectSnapshot($projectId: UUID!, $snapshotId: UUID!) {
+    deleteProjectSnapshot(id: $snapshotId, projectId: $projectId)
+  }
+`;
+
+export const UPDATE_ARGUMENT_PRESETS = gql`
+  mutation UpdateArgumentPresets($projectId: UUID!, $presets: String!) {
+    updateArgumentPresets(projectId: $projectId, presets: $presets)
+  }
+`;
+
+export const UPDATE_ACCOUNT_PROFILES = gql`
+  mutation UpdateAccountProfiles($projectId: UUID!, $profiles: String!) {
+    updateAccountProfiles(projectId: $projectId, profiles: $profiles)
+  }
+`;
+
 export const SET_ACTIVE_PROJECT = gql`
   mutation SetActiveProject($id: Int!) {
     setActiveProjectId(id: $id) @client
@@ -83,6 +142,25 @@ export const UPDATE_ACCOUNT_DEPLOYED_CODE = gql`
   }
 `;
 
+export const CREATE_ACCOUNT = gql`
+  mutation CreateAccount($projectId: UUID!, $draftCode: String!) {
+    createAccount(input: { projectId: $projectId, draftCode: $draftCode }) {
+      id
+      address
+      draftCode
+      deployedCode
+      deployedContracts
+      state
+    }
+  }
+`;
+
+export const DELETE_ACCOUNT = gql`
+  mutation DeleteAccount($projectId: UUID!, $accountId: UUID!) {
+    deleteAccount(id: $accountId, projectId: $projectId)
+  }
+`;
+
 export const UPDATE_TRANSACTION_TEMPLATE = gql`
   mutation UpdateTransactionTemplate(
     $projectId: UUID!
@@ -106,6 +184,21 @@ export const UPDATE_TRANSACTION_TEMPLATE = gql`
   }
 `;
 
+export const UPDATE_TRANSACTION_TEMPLATE_INDEX = gql`
+  mutation UpdateTransactionTemplateIndex(
+    $projectId: UUID!
+    $templateId: UUID!
+    $index: Int!
+  ) {
+    updateTransactionTemplate(
+      input: { projectId: $projectId, id: $templateId, index: $index }
+    ) {
+      id
+      index
+    }
+  }
+`;
+
 export const CREATE_TRANSACTION_TEMPLATE = gql`
   mutation CreateTransactionTemplate(
     $projectId: UUID!
@@ -190,6 +283,21 @@ export const UPDATE_SCRIPT_TEMPLATE = gql`
   }
 `;
 
+export const UPDATE_SCRIPT_TEMPLATE_INDEX = gql`
+  mutation UpdateScriptTemplateIndex(
+    $projectId: UUID!
+    $templateId: UUID!
+    $index: Int!
+  ) {
+    updateScriptTemplate(
+      input: { projectId: $projectId, id: $templateId, index: $index }
+    ) {
+      id
+      index
+    }
+  }
+`;
+
 export const CREATE_SCRIPT_TEMPLATE = gql`
   mutation CreateScriptTemplate(
     $projectId: UUID!
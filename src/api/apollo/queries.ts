@@ -62,6 +62,56 @@ export const GET_LOCAL_PROJECT = gql`
   }
 `;
 
+export const GET_PROJECT_SNAPSHOTS = gql`
+  query GetProjectSnapshots($projectId: UUID!) {
+    snapshots: projectSnapshots(projectId: $projectId) {
+      id
+      title
+      createdAt
+      accounts
+      transactionTemplates {
+        title
+        script
+      }
+      scriptTemplates {
+        title
+        script
+      }
+    }
+  }
+`;
+
+// Presets are stored as JSON, keyed by the ids of the templates
+export const GET_ARGUMENT_PRESETS = gql`
+  query GetArgumentPresets($projectId: UUID!) {
+    argumentPresets(projectId: $projectId)
+  }
+`;
+
+// Profiles are stored as JSON, keyed by the short addresses of the accounts
+export const GET_ACCOUNT_PROFILES = gql`
+  query GetAccountProfiles($projectId: UUID!) {
+    accountProfiles(projectId: $projectId)
+  }
+`;
+
+// Fields of the schema, as operations added to the client may not be
+// served by every deployment of the API
+export const GET_API_FIELDS = gql`
+  query GetApiFields {
+    query: __type(name: "Query") {
+      fields {
+        name
+      }
+    }
+    mutation: __type(name: "Mutation") {
+      fields {
+        name
+      }
+    }
+  }
+`;
+
 export const GET_ACTIVE_PROJECT = gql`
   query GetActiveProject {
     activeProjectId @client
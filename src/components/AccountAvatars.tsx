@@ -3,6 +3,7 @@ import { useThemeUI, Flex, Box, Badge } from "theme-ui";
 import { motion } from "framer-motion";
 import { Account, Project } from "src/api/apollo/generated/graphql";
 import Avatar from "components/Avatar";
+import { useProject } from "providers/Project/projectHooks";
 
 export const AccountAvatar: React.FC<{
   onClick: (e: any, i: number) => void;
@@ -34,6 +35,7 @@ export const AvatarList: React.FC = ({ children }) => {
     <Flex
       sx={{
         flex: "1 1 auto",
+        flexWrap: "wrap",
         alignItems: "center"
       }}
     >
@@ -52,12 +54,13 @@ const AccountAvatars: React.FC<{
   accounts: Account[];
   maxSelection?: number;
 }> = (props) => {
-  const { multi, selectedAccounts, accounts, project, onChange, maxSelection = 4 } = props;
+  const { multi, selectedAccounts, accounts, project, onChange, maxSelection = accounts.length } = props;
   if (!multi) {
     throw new Error("Must include multi prop.");
   }
 
   const { theme } = useThemeUI();
+  const { getAccountLabel } = useProject();
 
   const selectionLimitReached = selectedAccounts.length >= maxSelection;
   return (
@@ -65,6 +68,7 @@ const AccountAvatars: React.FC<{
       {accounts.map((account: Account, i: number) => {
         const isSelected =
           selectedAccounts.includes(i) || selectionLimitReached
+        const label = getAccountLabel(account.address);
         return (
           <motion.div key={account.address}>
             <AccountAvatar
@@ -101,13 +105,18 @@ const AccountAvatars: React.FC<{
                   px={"5px"}
                   sx={{
                     fontSize: 3,
-                    backgroundColor: isSelected? theme.colors.greyBorder : theme.colors.primary,
+                    backgroundColor: isSelected? theme.colors.greyBorder : label.color,
                     position: "absolute",
                     left: "-2px",
-                    bottom: "-1px"
+                    bottom: "-1px",
+                    maxWidth: "80px",
+                    overflow: "hidden",
+                    textOverflow: "ellipsis",
+                    whiteSpace: "nowrap"
                   }}
+                  title={label.address}
                 >
-                  0x{account.address.slice(-2)}
+                  {label.title}
                 </Badge>
               </motion.div>
             </AccountAvatar>
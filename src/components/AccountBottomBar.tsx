@@ -9,6 +9,7 @@ import { SidebarItemInsert } from 'layout/SidebarItemInsert';
 import styled from '@emotion/styled';
 import theme from '../theme';
 import { ResizeHeading } from 'layout/Heading';
+import { AccountLabel } from '../util/accounts';
 
 import { RenderResponse } from 'components/RenderResponse';
 import { ClearResults } from './TransactionBottomBar';
@@ -60,7 +61,17 @@ const StorageListContainer = styled.div`
   border-right: var(--gap) solid var(--key);
 `;
 
+const AccountColor = styled.span<{ color: string }>`
+  display: inline-block;
+  width: 8px;
+  height: 8px;
+  margin: 0 6px 0 10px;
+  border-radius: 50%;
+  background: ${(p) => p.color};
+`;
+
 interface TypeListProps {
+  label: AccountLabel;
   identifiers: string[];
   selected: string;
   onSelect: (type: string) => void;
@@ -69,6 +80,7 @@ interface TypeListProps {
 }
 // @ts-ignore
 const IdentifierList: React.FC<TypeListProps> = ({
+  label,
   identifiers,
   selected,
   onSelect,
@@ -76,7 +88,14 @@ const IdentifierList: React.FC<TypeListProps> = ({
   resize,
 }) => (
   <StorageListContainer>
-    <ResizeHeading onMouseDown={resize}>Storage {controls()}</ResizeHeading>
+    <ResizeHeading onMouseDown={resize}>
+      <span>
+        Storage
+        <AccountColor color={label.color} />
+        {label.title}
+      </span>
+      {controls()}
+    </ResizeHeading>
 
     <div
       style={{
@@ -118,8 +137,9 @@ const StateContainer: React.FC<{ value: any }> = ({ value }) => (
 
 const AccountState: React.FC<{
   state: any;
+  label: AccountLabel;
   renderDeployButton: () => JSX.Element;
-}> = ({ state }) => {
+}> = ({ state, label }) => {
   if (!state) {
     state = '{}';
   }
@@ -199,6 +219,7 @@ const AccountState: React.FC<{
       {identifiers.length ? (
         <AccountStateContainer height={storageHeight + resultHeight}>
           <IdentifierList
+            label={label}
             identifiers={identifiers}
             selected={selected}
             onSelect={setSelected}
@@ -248,7 +269,7 @@ const AccountState: React.FC<{
 };
 
 const AccountBottomBar: React.FC = () => {
-  const { project, active, isLoading } = useProject();
+  const { project, active, isLoading, getAccountLabel } = useProject();
 
   return (
     <FeedbackRoot>
@@ -258,6 +279,7 @@ const AccountBottomBar: React.FC = () => {
         <>
           <AccountState
             state={project.accounts[active.index].state}
+            label={getAccountLabel(project.accounts[active.index].address)}
             renderDeployButton={() => {
               return <FeedbackActions />;
             }}
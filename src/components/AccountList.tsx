@@ -1,24 +1,33 @@
-import React from "react";
+import React, {useEffect, useState} from "react";
 import {navigate, useLocation} from "@reach/router"
+import {IoMdAddCircleOutline} from "react-icons/io";
+import {FaPen, FaTimes} from "react-icons/fa";
 import {Account} from "api/apollo/generated/graphql";
 import {EntityType} from "providers/Project";
 import {SidebarSection as Root} from "layout/SidebarSection";
 import {SidebarHeader as Header} from "layout/SidebarHeader";
 import {SidebarItems as Items} from "layout/SidebarItems";
 import {SidebarItem as Item} from "layout/SidebarItem";
+import {SidebarItemInsert} from "layout/SidebarItemInsert";
+import {SidebarItemDelete} from "layout/SidebarItemDelete";
+import {SidebarItemEdit} from "layout/SidebarItemEdit";
+import {SidebarItemInput} from "layout/SidebarItemInput";
 import {Stack} from "layout/Stack";
 import {useProject} from "providers/Project/projectHooks";
 import Avatar from "components/Avatar";
+import ProblemsBadge from "components/ProblemsBadge";
 import styled from "@emotion/styled";
 import {ExportButton} from "components/ExportButton";
 import {getParams, isUUUID} from "../util/url";
+import {
+  getAccountName,
+  getDeployedContracts,
+  hasUndeployedChanges,
+  MAX_ACCOUNTS
+} from "../util/accounts";
+import useKeyPress from "../hooks/useKeyPress";
 
-function getDeployedContracts(account: Account): string {
-  const contracts = account.deployedContracts.map(
-    contract => contract.split(".").slice(-1)[0]
-  );
-  return contracts.join(", ");
-}
+const ALIAS_MAX_CHARS = 30;
 
 export const AccountCard = styled.div`
   display: flex;
@@ -28,29 +37,118 @@ export const AccountCard = styled.div`
   width: 100%;
 `;
 
+const AccountColor = styled.span<{ color: string }>`
+  display: inline-block;
+  width: 8px;
+  height: 8px;
+  margin-right: 6px;
+  border-radius: 50%;
+  background: ${p => p.color};
+`;
+
+// Shown when redeploying would change the contract
+const DirtyMark = styled.span`
+  display: inline-block;
+  width: 6px;
+  height: 6px;
+  margin-left: 6px;
+  border-radius: 50%;
+  background: #eea91e;
+  vertical-align: middle;
+`;
+
+const ColorInput = styled.input`
+  flex-shrink: 0;
+  width: 24px;
+  height: 24px;
+  margin-right: 0.5rem;
+  padding: 0;
+  border: none;
+  background: none;
+  cursor: pointer;
+`;
+
 const AccountList: React.FC = () => {
   const {
     project,
     active,
+    mutator,
+    getAccountLabel,
+    updateAccountProfile,
   } = useProject();
   const accountSelected = active.type === EntityType.Account
+  const [editing, setEditing] = useState<string | null>(null);
+  const enterPressed = useKeyPress("Enter");
+  const escapePressed = useKeyPress("Escape");
+
+  useEffect(() => {
+    setEditing(null);
+  }, [active.type, active.index, enterPressed, escapePressed]);
 
   const location = useLocation();
   const params = getParams(location.search)
   const projectPath = isUUUID(project.id) ? project.id : "local"
 
+  // Hidden until the API is known to support adding and removing accounts
+  const [canChangeAccounts, setCanChangeAccounts] = useState(false)
+
+  useEffect(() => {
+    let isCurrent = true
+    mutator.canChangeAccounts().then((canChange) => {
+      if (isCurrent) {
+        setCanChangeAccounts(canChange)
+      }
+    })
+    return () => {
+      isCurrent = false
+    }
+  }, [project.id])
+
+  const canAddAccount = canChangeAccounts && project.accounts.length < MAX_ACCOUNTS
+
+  const addAccount = async () => {
+    try {
+      const res = await mutator.createAccount()
+      const id = res.data?.createAccount?.id
+      navigate(`/${projectPath}?type=account&id=${id}`)
+    } catch (e) {
+      console.error(e)
+    }
+  }
+
+  const removeLastAccount = async () => {
+    try {
+      await mutator.removeLastAccount()
+      navigate(`/${projectPath}?type=account`)
+    } catch (e) {
+      console.error(e)
+    }
+  }
+
   return (
     <Root>
-      <Header>Accounts</Header>
+      <Header>
+        Accounts
+        {canAddAccount && (
+          <SidebarItemInsert onClick={addAccount} title="Add account">
+            <IoMdAddCircleOutline size="20px" />
+          </SidebarItemInsert>
+        )}
+      </Header>
       <Items>
         {project.accounts.map((account: Account, i: number) => {
           const { id } = account
           const isActive = accountSelected && params.id === id
-          const accountAddress = `0x${account.address.slice(-2)}`
+          const isLast = i === project.accounts.length - 1
+          const isEditing = editing === id
+          const label = getAccountLabel(account.address)
           const contractName = getDeployedContracts(account)
           const title = contractName
             ? `${contractName} is deployed to this account`
-            : `This account don't have any contracts`
+            : `${label.alias || getAccountName(i)} doesn't have any contracts`
+          const details = label.alias
+            ? `${label.address} · ${contractName || '--'}`
+            : contractName || '--'
           const typeName = account.__typename
           return (
             <Item
@@ -61,12 +159,68 @@ const AccountList: React.FC = () => {
             >
               <AccountCard>
                 <Avatar seed={project.seed} index={i} />
-                <Stack>
-                  <strong>{accountAddress}</strong>
-                  <small>{contractName || '--'}</small>
-                </Stack>
+                {isEditing ? (
+                  <>
+                    <SidebarItemInput
+                      ref={(element: HTMLInputElement) => element?.focus()}
+                      type="text"
+                      placeholder={label.address}
+                      defaultValue={label.alias}
+                      maxLength={ALIAS_MAX_CHARS}
+                      onClick={(e: any) => e.stopPropagation()}
+                      onChange={(e: any) =>
+                        updateAccountProfile(account.address, {
+                          alias: e.target.value,
+                        })
+                      }
+                    />
+                    <ColorInput
+                      type="color"
+                      title="Account color"
+                      value={label.color}
+                      onClick={(e: any) => e.stopPropagation()}
+                      onChange={(e: any) =>
+                        updateAccountProfile(account.address, {
+                          color: e.target.value,
+                        })
+                      }
+                    />
+                  </>
+                ) : (
+                  <Stack>
+                    <strong>
+                      <AccountColor color={label.color} />
+                      {label.title}
+                      {hasUndeployedChanges(account) && (
+                        <DirtyMark title="The draft differs from the deployed contract" />
+                      )}
+                    </strong>
+                    <small>{details}</small>
+                  </Stack>
+                )}
+                <ProblemsBadge id={id} />
 
+                {isActive && (
+                  <SidebarItemEdit
+                    title="Edit alias and color"
+                    onClick={(e: any) => {
+                      e.stopPropagation();
+                      setEditing(isEditing ? null : id);
+                    }}>
+                    <FaPen />
+                  </SidebarItemEdit>
+                )}
                 {isActive && <ExportButton id={account.id} typeName={typeName}/>}
+                {isActive && isLast && i > 0 && canChangeAccounts && !isEditing && (
+                  <SidebarItemDelete
+                    title="Remove account"
+                    onClick={(e: any) => {
+                      e.stopPropagation();
+                      removeLastAccount();
+                    }}>
+                    <FaTimes />
+                  </SidebarItemDelete>
+                )}
               </AccountCard>
             </Item>
           );
@@ -10,6 +10,8 @@ type AccountPickerProps = {
   selected: number[];
   onChange: (selected: number[]) => void;
   maxSelection?: number;
+  // Shown under the slots of signers, e.g. names of parameters
+  slotLabels?: string[];
 };
 
 const AccountPicker: React.FC<AccountPickerProps> = ({
@@ -17,7 +19,8 @@ const AccountPicker: React.FC<AccountPickerProps> = ({
   accounts,
   selected,
   onChange,
-  maxSelection = 4,
+  maxSelection = accounts.length,
+  slotLabels,
   children
 }) => {
   const { theme } = useThemeUI();
@@ -79,6 +82,7 @@ const AccountPicker: React.FC<AccountPickerProps> = ({
           selectedAccounts={selected.slice(0, maxSelection)}
           onChange={handleOnChange}
           maxSelection={maxSelection}
+          slotLabels={slotLabels}
         />
         <Flex
           px={"0.5rem"}
@@ -3,6 +3,7 @@ import { useThemeUI, Flex, Badge, Text } from "theme-ui";
 import { motion } from "framer-motion";
 import { Account, Project } from "src/api/apollo/generated/graphql";
 import Avatar from "components/Avatar";
+import { useProject } from "providers/Project/projectHooks";
 import { AccountAvatar, AvatarList } from "components/AccountAvatars";
 
 export const Outline: React.FC = ({ children }) => {
@@ -34,18 +35,53 @@ const AccountSigners: React.FC<{
   project: Project;
   accounts: Account[];
   maxSelection?: number
+  slotLabels?: string[]
 }> = (props) => {
-  const { multi, selectedAccounts, accounts, project, onChange, maxSelection} = props;
+  const { multi, selectedAccounts, accounts, project, onChange, maxSelection, slotLabels } = props;
   if (!multi) {
     throw new Error("Must include multi prop.");
   }
 
   const { theme } = useThemeUI();
+  const { getAccountLabel } = useProject();
   const amount = maxSelection || project.accounts.length
+
+  // Labels are shown under the slots, when there are any
+  const renderSlot = (index: number, key: string, slot: JSX.Element) => {
+    if (!slotLabels || !slotLabels[index]) {
+      return slot;
+    }
+    return (
+      <Flex
+        key={key}
+        sx={{
+          flexDirection: "column",
+          alignItems: "center"
+        }}
+      >
+        {slot}
+        <Text
+          mt={1}
+          title={slotLabels[index]}
+          sx={{
+            fontSize: 2,
+            color: theme.colors.muted,
+            maxWidth: "90px",
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+            whiteSpace: "nowrap"
+          }}
+        >
+          {slotLabels[index]}
+        </Text>
+      </Flex>
+    );
+  };
+
   const renderOutlines = () => {
     const outlines = [];
     for (let i = selectedAccounts.length; i < amount; i++) {
-      outlines.push(
+      outlines.push(renderSlot(i, `outline-${i}`,
         <Outline key={i + 1}>
           <Text
             sx={{
@@ -56,16 +92,17 @@ const AccountSigners: React.FC<{
             {i + 1}
           </Text>
         </Outline>
-      );
+      ));
     }
     return outlines;
   };
 
   return (
     <AvatarList>
-      {selectedAccounts.map((i: number) => {
+      {selectedAccounts.map((i: number, slot: number) => {
         const account = accounts[i];
-        return (
+        const label = getAccountLabel(account.address);
+        return renderSlot(slot, account.address,
           <motion.div key={account.address}>
             <AccountAvatar
               key={account.id}
@@ -95,13 +132,18 @@ const AccountSigners: React.FC<{
                   px={"5px"}
                   sx={{
                     fontSize: 3,
-                    backgroundColor: theme.colors.primary,
+                    backgroundColor: label.color,
                     position: "absolute",
                     left: "-2px",
-                    bottom: "-1px"
+                    bottom: "-1px",
+                    maxWidth: "80px",
+                    overflow: "hidden",
+                    textOverflow: "ellipsis",
+                    whiteSpace: "nowrap"
                   }}
+                  title={label.address}
                 >
-                  0x{account.address.slice(-2)}
+                  {label.title}
                 </Badge>
               </motion.div>
             </AccountAvatar>
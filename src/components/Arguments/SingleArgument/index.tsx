@@ -1,14 +1,290 @@
-import React from "react";
+import React, { useState } from "react";
+import { FaTimes } from "react-icons/fa";
 import { Argument } from "components/Arguments/types";
-import { InputBlock, Input, Label, Type, Error } from "./styles";
+import { useProject } from "providers/Project/projectHooks";
+import { findAccountIndex, getDeployedContracts } from "../../../util/accounts";
+import {
+  ArgumentValue,
+  CadenceType,
+  CompositeTypes,
+  DictionaryEntry,
+  getDefaultValue,
+  parseCadenceType,
+  validateSimpleValue,
+} from "../../../util/cadence-values";
+import {
+  InputBlock,
+  Input,
+  Label,
+  Type,
+  Error,
+  Nested,
+  Row,
+  RowLabel,
+  RowButton,
+  AddButton,
+  NilToggle,
+  AddressField,
+  Suggestions,
+  Suggestion,
+  Warning,
+} from "./styles";
+
+type ValueEditorProps = {
+  name: string,
+  type: CadenceType,
+  value: ArgumentValue,
+  composites: CompositeTypes,
+  onChange: (value: ArgumentValue) => void
+}
+
+const replaceAt = <T extends any>(items: T[], index: number, item: T) =>
+  items.map((current, i) => (i === index ? item : current))
+
+const removeAt = <T extends any>(items: T[], index: number) =>
+  items.filter((_, i) => i !== index)
+
+type AddressInputProps = {
+  name: string,
+  value: string,
+  onChange: (value: string) => void
+}
+
+// Address typed in or picked from the accounts of the project,
+// which are found by their addresses, aliases and deployed contracts
+const AddressInput: React.FC<AddressInputProps> = ({ name, value, onChange }) => {
+  const { project, getAccountLabel } = useProject()
+  const [open, setOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+
+  const options = project.accounts.map((account) => {
+    const label = getAccountLabel(account.address)
+    return {
+      address: label.address,
+      details: [label.alias, getDeployedContracts(account)].filter(Boolean).join(" · "),
+    }
+  })
+  const search = value.trim().toLowerCase()
+  const matches = options.filter(
+    (option) =>
+      !search ||
+      option.address.includes(search) ||
+      option.details.toLowerCase().includes(search)
+  )
+
+  const pick = (address: string) => {
+    onChange(address)
+    setOpen(false)
+  }
+
+  const isUnknown =
+    !validateSimpleValue(value, "Address") &&
+    findAccountIndex(value, project.accounts.length) === null
+
+  return (
+    <AddressField>
+      <Input
+        name={name}
+        value={value}
+        autoComplete="off"
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onChange={(event) => {
+          onChange(event.target.value)
+          setOpen(true)
+          setHighlighted(0)
+        }}
+        onKeyDown={(event) => {
+          if (!open || matches.length === 0) {
+            return
+          }
+          if (event.key === "ArrowDown") {
+            event.preventDefault()
+            setHighlighted((highlighted + 1) % matches.length)
+          } else if (event.key === "ArrowUp") {
+            event.preventDefault()
+            setHighlighted((highlighted + matches.length - 1) % matches.length)
+          } else if (event.key === "Enter") {
+            pick(matches[Math.min(highlighted, matches.length - 1)].address)
+          } else if (event.key === "Escape") {
+            setOpen(false)
+          }
+        }}
+      />
+      {open && matches.length > 0 && (
+        <Suggestions>
+          {matches.map((option, index) => (
+            <Suggestion
+              key={option.address}
+              highlighted={index === highlighted}
+              onMouseEnter={() => setHighlighted(index)}
+              // Picked before the input loses focus and closes the list
+              onMouseDown={(event) => {
+                event.preventDefault()
+                pick(option.address)
+              }}
+            >
+              <b>{option.address}</b>
+              <span>{option.details}</span>
+            </Suggestion>
+          ))}
+        </Suggestions>
+      )}
+      {isUnknown && <Warning>Not an account of this project</Warning>}
+    </AddressField>
+  )
+}
+
+// Form of a value, nested for optionals, collections and structs.
+// Other values are typed in, as Cadence code for types without forms
+const ValueEditor: React.FC<ValueEditorProps> = ({ name, type, value, composites, onChange }) => {
+  switch (type.kind) {
+    case "optional": {
+      const isNil = value === null
+      return (
+        <Nested>
+          <NilToggle>
+            <input
+              type="checkbox"
+              checked={isNil}
+              onChange={() => onChange(isNil ? getDefaultValue(type.type, composites) : null)}
+            />
+            nil
+          </NilToggle>
+          {!isNil && (
+            <ValueEditor name={name} type={type.type} value={value} composites={composites} onChange={onChange}/>
+          )}
+        </Nested>
+      )
+    }
+
+    case "array": {
+      const items = value as ArgumentValue[]
+      // Constant sized arrays can't get or lose items
+      const isResizable = type.size === undefined
+      return (
+        <Nested>
+          {items.map((item, index) => (
+            <Row key={index}>
+              <RowLabel>{index}</RowLabel>
+              <ValueEditor
+                name={`${name}[${index}]`}
+                type={type.type}
+                value={item}
+                composites={composites}
+                onChange={(itemValue) => onChange(replaceAt(items, index, itemValue))}
+              />
+              {isResizable && (
+                <RowButton title="Remove item" onClick={() => onChange(removeAt(items, index))}>
+                  <FaTimes size="10px"/>
+                </RowButton>
+              )}
+            </Row>
+          ))}
+          {isResizable && (
+            <AddButton onClick={() => onChange([...items, getDefaultValue(type.type, composites)])}>
+              + Add item
+            </AddButton>
+          )}
+        </Nested>
+      )
+    }
+
+    case "dictionary": {
+      const entries = value as DictionaryEntry[]
+      const update = (index: number, entry: DictionaryEntry) =>
+        onChange(replaceAt(entries, index, entry))
+      return (
+        <Nested>
+          {entries.map((entry, index) => (
+            <Row key={index}>
+              <ValueEditor
+                name={`${name}{${index}}`}
+                type={type.key}
+                value={entry.key}
+                composites={composites}
+                onChange={(key) => update(index, { ...entry, key })}
+              />
+              <RowLabel>:</RowLabel>
+              <ValueEditor
+                name={`${name}{${index}}`}
+                type={type.value}
+                value={entry.value}
+                composites={composites}
+                onChange={(entryValue) => update(index, { ...entry, value: entryValue })}
+              />
+              <RowButton title="Remove entry" onClick={() => onChange(removeAt(entries, index))}>
+                <FaTimes size="10px"/>
+              </RowButton>
+            </Row>
+          ))}
+          <AddButton
+            onClick={() =>
+              onChange([
+                ...entries,
+                {
+                  key: getDefaultValue(type.key, composites),
+                  value: getDefaultValue(type.value, composites),
+                },
+              ])
+            }
+          >
+            + Add entry
+          </AddButton>
+        </Nested>
+      )
+    }
+
+    case "composite": {
+      const composite = composites[type.name]
+      if (!composite) {
+        break
+      }
+      const fields = value as { [field: string]: ArgumentValue }
+      return (
+        <Nested>
+          {composite.fields.map((field) => (
+            <React.Fragment key={field.name}>
+              <Label>
+                {field.name}
+                <Type>{field.type.replace(/\bA\.[0-9a-f]+\./g, "")}</Type>
+              </Label>
+              <ValueEditor
+                name={`${name}.${field.name}`}
+                type={parseCadenceType(field.type)}
+                value={fields[field.name]}
+                composites={composites}
+                onChange={(fieldValue) => onChange({ ...fields, [field.name]: fieldValue })}
+              />
+            </React.Fragment>
+          ))}
+        </Nested>
+      )
+    }
+  }
+
+  if (type.kind === "simple" && type.name === "Address") {
+    return <AddressInput name={name} value={value as string} onChange={onChange}/>
+  }
+
+  return (
+    <Input
+      name={name}
+      value={value as string}
+      onChange={(event) => onChange(event.target.value)}
+    />
+  )
+}
 
 type SingleArgumentProps = {
   argument: Argument,
+  value: ArgumentValue,
+  composites: CompositeTypes,
   error: String,
-  onChange: (name: String, value:any) => void
+  onChange: (name: string, value: ArgumentValue) => void
 }
 
-const SingleArgument: React.FC<SingleArgumentProps> = ({ argument, error, onChange }) => {
+const SingleArgument: React.FC<SingleArgumentProps> = ({ argument, value, composites, error, onChange }) => {
   const {name, type} = argument
   return (
     <InputBlock>
@@ -16,12 +292,13 @@ const SingleArgument: React.FC<SingleArgumentProps> = ({ argument, error, onChan
         {name}
         <Type>{type}</Type>
       </Label>
-      <Input
+      <ValueEditor
         name={`${name}-${type}`}
-        onChange={(event)=>{
-        const {value} = event.target
-        onChange(name,value)
-      }}/>
+        type={parseCadenceType(type)}
+        value={value}
+        composites={composites}
+        onChange={(newValue) => onChange(name, newValue)}
+      />
       {error && <Error>{error}</Error>}
     </InputBlock>
   )
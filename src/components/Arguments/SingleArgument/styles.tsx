@@ -44,6 +44,114 @@ export const Input = styled.input`
   }
 `;
 
+// Items of arrays and dictionaries, fields of structs
+export const Nested = styled.div`
+  display: flex;
+  flex-direction: column;
+  padding-left: 8px;
+  border-left: 2px solid #E1E1E1;
+  margin-bottom: 5px;
+`
+
+export const Row = styled.div`
+  display: flex;
+  align-items: flex-start;
+  & > div, & > input {
+    flex: 1;
+    min-width: 0;
+  }
+`
+
+export const RowLabel = styled.span`
+  flex-shrink: 0;
+  min-width: 24px;
+  padding: 8px 6px 0 0;
+  font-size: 12px;
+  color: #888;
+`
+
+export const RowButton = styled.button`
+  flex-shrink: 0;
+  margin-left: 4px;
+  padding: 8px 4px;
+  border: none;
+  background: none;
+  color: #888;
+  cursor: pointer;
+  &:hover{
+    color: #333;
+  }
+`
+
+export const AddButton = styled.button`
+  align-self: flex-start;
+  margin-bottom: 5px;
+  padding: 2px 0;
+  border: none;
+  background: none;
+  color: #3E98EB;
+  font-size: 12px;
+  cursor: pointer;
+`
+
+export const NilToggle = styled.label`
+  display: flex;
+  align-items: center;
+  margin-bottom: 5px;
+  font-size: 12px;
+  color: #888;
+  cursor: pointer;
+  input {
+    margin-right: 4px;
+  }
+`
+
+export const AddressField = styled.div`
+  position: relative;
+  flex: 1;
+  min-width: 0;
+`
+
+// Accounts of the project matching the typed address
+export const Suggestions = styled.ul`
+  position: absolute;
+  top: 100%;
+  left: 0;
+  right: 0;
+  z-index: 2;
+  max-height: 180px;
+  margin: -5px 0 0;
+  padding: 0;
+  overflow-y: auto;
+  list-style: none;
+  border: 1px solid #C4C4C4;
+  background: #fff;
+  box-shadow: 0 4px 8px rgba(0, 0, 0, 0.1);
+`
+
+export const Suggestion = styled.li<{ highlighted: boolean }>`
+  display: flex;
+  align-items: baseline;
+  padding: 6px 8px;
+  font-size: 13px;
+  background: ${({ highlighted }) => (highlighted ? "#F0F6FD" : "#fff")};
+  cursor: pointer;
+  b {
+    margin-right: 6px;
+  }
+  span {
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+    color: #888;
+  }
+`
+
+export const Warning = styled.p`
+  font-size: 12px;
+  color: #D68A00;
+`
+
 export const Error = styled.p`
   font-size: 12px;
   color: red;
@@ -1,5 +1,9 @@
 import React, { useState } from 'react';
-import { FaArrowCircleRight, FaExclamationTriangle } from 'react-icons/fa';
+import {
+  FaArrowCircleRight,
+  FaExclamationTriangle,
+  FaTrash,
+} from 'react-icons/fa';
 import { EntityType } from 'providers/Project';
 import Button from 'components/Button';
 import { useProject } from 'providers/Project/projectHooks';
@@ -16,6 +20,8 @@ import {
   SingleError,
   ErrorIndex,
   ErrorMessage,
+  PresetsContainer,
+  PresetButton,
 } from './styles';
 import {
   ArgumentsListProps,
@@ -27,6 +33,8 @@ import theme from '../../theme';
 import { Stack } from 'layout/Stack';
 import { CadenceProblem } from '../../util/language-syntax-errors';
 import { ErrorListProps, HintsProps } from './types';
+import { ArgumentPreset } from 'providers/Project/argumentPresets';
+import { SignerParameter } from '../../util/cadence-signers';
 
 export const ArgumentsTitle: React.FC<ArgumentsTitleProps> = (props) => {
   const { type, errors, expanded, setExpanded } = props;
@@ -58,6 +66,8 @@ export const ArgumentsTitle: React.FC<ArgumentsTitleProps> = (props) => {
 
 export const ArgumentsList: React.FC<ArgumentsListProps> = ({
   list,
+  values,
+  composites,
   errors,
   onChange,
   hidden,
@@ -71,6 +81,8 @@ export const ArgumentsList: React.FC<ArgumentsListProps> = ({
           <SingleArgument
             key={name}
             argument={argument}
+            value={values[name]}
+            composites={composites}
             onChange={onChange}
             error={error}
           />
@@ -92,7 +104,7 @@ const getSpanClass = (message: string): string => {
   return '';
 };
 
-const renderMessage = (message: string) => {
+export const renderMessage = (message: string) => {
   let spanClass = getSpanClass(message);
 
   const { items } = message.split(' ').reduce(
@@ -251,7 +263,8 @@ export const ActionButton: React.FC<InteractionButtonProps> = ({
 };
 
 type SignersProps = {
-  maxSelection?: number;
+  // Parameters of `prepare`, one for each signer
+  parameters: SignerParameter[];
   selected: number[];
   updateSelectedAccounts: (selection: number[]) => void;
 };
@@ -259,7 +272,8 @@ type SignersProps = {
 export const Signers: React.FC<SignersProps> = (props) => {
   const { project } = useProject();
   const { accounts } = project;
-  const { maxSelection, selected, updateSelectedAccounts } = props;
+  const { parameters, selected, updateSelectedAccounts } = props;
+  const maxSelection = parameters.length;
 
   const enoughSigners = selected.length < maxSelection;
   const lineColor = enoughSigners ? theme.colors.error : null;
@@ -273,6 +287,9 @@ export const Signers: React.FC<SignersProps> = (props) => {
         selected={selected}
         onChange={updateSelectedAccounts}
         maxSelection={maxSelection}
+        slotLabels={parameters.map(({ name, type }) =>
+          type ? `${name}: ${type}` : name,
+        )}
       />
       {enoughSigners && (
         <SignersError>
@@ -283,3 +300,94 @@ export const Signers: React.FC<SignersProps> = (props) => {
     </SignersContainer>
   );
 };
+
+type PresetsProps = {
+  presets: ArgumentPreset[];
+  onApply: (preset: ArgumentPreset) => void;
+  onSave: (name: string) => void;
+  onDelete: (name: string) => void;
+};
+
+// Picks saved arguments and signers of the template,
+// or saves the current ones under a name
+export const Presets: React.FC<PresetsProps> = ({
+  presets,
+  onApply,
+  onSave,
+  onDelete,
+}) => {
+  const [selected, setSelected] = useState('');
+  // Name of the preset being saved, while it's typed
+  const [name, setName] = useState<string | null>(null);
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (trimmed) {
+      onSave(trimmed);
+      setSelected(trimmed);
+    }
+    setName(null);
+  };
+
+  if (name !== null) {
+    return (
+      <PresetsContainer>
+        <input
+          autoFocus
+          placeholder="Preset name"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              save();
+            } else if (event.key === 'Escape') {
+              setName(null);
+            }
+          }}
+        />
+        <PresetButton disabled={!name.trim()} onClick={save}>
+          Save
+        </PresetButton>
+        <PresetButton onClick={() => setName(null)}>Cancel</PresetButton>
+      </PresetsContainer>
+    );
+  }
+
+  return (
+    <PresetsContainer>
+      <select
+        value={selected}
+        onChange={(event) => {
+          const preset = presets.find(
+            (item) => item.name === event.target.value,
+          );
+          setSelected(event.target.value);
+          if (preset) {
+            onApply(preset);
+          }
+        }}
+      >
+        <option value="">
+          {presets.length > 0 ? 'Choose a preset...' : 'No saved presets'}
+        </option>
+        {presets.map((preset) => (
+          <option key={preset.name} value={preset.name}>
+            {preset.name}
+          </option>
+        ))}
+      </select>
+      <PresetButton onClick={() => setName(selected)}>Save as...</PresetButton>
+      {selected && (
+        <PresetButton
+          title="Delete preset"
+          onClick={() => {
+            onDelete(selected);
+            setSelected('');
+          }}
+        >
+          <FaTrash />
+        </PresetButton>
+      )}
+    </PresetsContainer>
+  );
+};
@@ -9,8 +9,19 @@ import {
   useSetExecutionResultsMutation,
 } from 'api/apollo/generated/graphql';
 
-import { ArgumentsProps } from 'components/Arguments/types';
+import { Argument, ArgumentsProps } from 'components/Arguments/types';
+import RedeployPopup from 'components/RedeployPopup';
+import { ArgumentPreset } from 'providers/Project/argumentPresets';
 import { ExecuteCommandRequest } from 'monaco-languageclient';
+import {
+  ArgumentValue,
+  getDefaultValue,
+  isParsedByServer,
+  parseCadenceType,
+  toCadenceLiteral,
+  toJsonCadence,
+  validateValue,
+} from '../../util/cadence-values';
 
 import { ControlContainer, HoverPanel, StatusMessage } from './styles';
 
@@ -20,95 +31,10 @@ import {
   ArgumentsTitle,
   ErrorsList,
   Hints,
+  Presets,
   Signers,
 } from './components';
 
-const isDictionaary = (type:string) => type.includes("{")
-const isArray = (type:string) => type.includes("[")
-const isImportedType = (type:string) => type.includes(".")
-const isComplexType = (type:string)=> isDictionaary(type)
-  || isArray(type)
-  || isImportedType(type)
-
-const startsWith = (value : string, prefix: string) => {
-  return value.startsWith(prefix) || value.startsWith("U"+prefix)
-}
-
-const checkJSON = (value: any, type: string) => {
-  try{
-    JSON.parse(value)
-    return null
-  } catch (e){
-    return `Not a valid argument of type ${type}`
-  }
-}
-
-const validateByType = (
-  value: any,
-  type: string,
-) => {
-  if (value.length === 0) {
-    return "Value can't be empty";
-  }
-
-  switch (true) {
-    // Strings
-    case type === 'String': {
-      return null; // no need to validate String for now
-    }
-
-    // Integers
-    case startsWith(type,'Int'): {
-      if (isNaN(value) || value === '') {
-        return 'Should be a valid Integer number';
-      }
-      return null;
-    }
-
-    // Words
-    case startsWith(type,'Word'): {
-      if (isNaN(value) || value === '') {
-        return 'Should be a valid Word number';
-      }
-      return null;
-    }
-
-    // Fixed Point
-    case startsWith(type, 'Fix'): {
-      if (isNaN(value) || value === '') {
-        return 'Should be a valid fixed point number';
-      }
-      return null;
-    }
-
-    case isComplexType(type): {
-      // This case it to catch complex arguments like Dictionaries
-      return checkJSON(value, type);
-    }
-
-    // Address
-    case type === 'Address': {
-      if (!value.match(/(^0x[\w\d]{16})|(^0x[\w\d]{1,4})/)) {
-        return 'Not a valid Address';
-      }
-      return null;
-    }
-
-    // Booleans
-    case type === 'Bool': {
-      if (value !== 'true' && value !== 'false') {
-        return 'Boolean values can be either true or false';
-      }
-      return null;
-    }
-
-    default: {
-      return null;
-    }
-  }
-};
-
-
 const getLabel = (
   resultType: ResultType,
   project: any,
@@ -153,52 +79,68 @@ const useTemplateType = (): ProcessingArgs => {
   };
 };
 interface IValue {
-  [key: string]: string;
+  [key: string]: ArgumentValue;
 }
 
+// Values are kept while the argument keeps its type and form,
+// values typed before the fields of a struct were known are dropped
+const getValueKey = (arg: Argument, parsedByServer: boolean) =>
+  `${arg.name}: ${arg.type}${parsedByServer ? ' (code)' : ''}`;
+
 const Arguments: React.FC<ArgumentsProps> = (props) => {
-  const { type, list, signers } = props;
+  const { type, list, composites, signers } = props;
   const { goTo, hover, hideDecorations, problems } = props;
   const validCode = problems.error.length === 0;
 
-  const needSigners = type == EntityType.TransactionTemplate && signers > 0;
+  const needSigners =
+    type == EntityType.TransactionTemplate && signers.length > 0;
   const [selected, updateSelectedAccounts] = useState([]);
   const [errors, setErrors] = useState({})
   const [expanded, setExpanded] = useState(true);
-  const [values, setValue] = useState<IValue>({});
+  const [editedValues, setValue] = useState<IValue>({});
   const constraintsRef = useRef();
 
   // const errors = validate(list, values);
   const numberOfErrors = Object.keys(errors).length;
-  const notEnoughSigners = needSigners && selected.length < signers;
+  const notEnoughSigners = needSigners && selected.length < signers.length;
   const haveErrors = numberOfErrors > 0 || notEnoughSigners;
 
-  const validate = (list: any, values: any) => {
-    const errors = list.reduce((acc: any, item: any) => {
-      const { name, type } = item;
-      const value = values[name];
-      if (value) {
-        const error = validateByType(value, type);
-        if (error) {
-          acc[name] = error;
-        }
-      } else {
-        if (type !== 'String') {
-          acc[name] = "Value can't be empty";
-        }
+  const types = list.map((arg) => parseCadenceType(arg.type));
+  const parsedByServer = types.map((argType) =>
+    isParsedByServer(argType, composites),
+  );
+  const valueKeys = list.map((arg, index) =>
+    getValueKey(arg, parsedByServer[index]),
+  );
+  const values: IValue = list.reduce((acc: IValue, arg, index) => {
+    const key = valueKeys[index];
+    acc[arg.name] =
+      key in editedValues
+        ? editedValues[key]
+        : getDefaultValue(types[index], composites);
+    return acc;
+  }, {});
+
+  const validate = () => {
+    const errors = list.reduce((acc: any, item, index) => {
+      const { name } = item;
+      const error = validateValue(types[index], values[name], composites);
+      if (error) {
+        acc[name] = error;
       }
       return acc;
     }, {});
 
-    console.log({errors});
     setErrors(errors);
   };
 
-  useEffect(()=>{
-    validate(list, values)
-  }, [list, values]);
+  useEffect(validate, [list, composites, editedValues]);
 
   const [processingStatus, setProcessingStatus] = useState(false);
+  // Resolves the confirmation of a redeploy, while it's asked for
+  const [confirmRedeploy, setConfirmRedeploy] = useState<
+    ((confirmed: boolean) => void) | null
+  >(null);
 
   const [setResult] = useSetExecutionResultsMutation();
   const {
@@ -206,9 +148,43 @@ const Arguments: React.FC<ArgumentsProps> = (props) => {
     transactionFactory,
     contractDeployment,
   } = useTemplateType();
-  const { project, active, isSavingCode } = useProject();
+  const {
+    project,
+    active,
+    isSavingCode,
+    argumentPresets,
+    saveArgumentPreset,
+    deleteArgumentPreset,
+  } = useProject();
   const { accounts } = project;
 
+  // Presets are saved for transactions and scripts, not for contracts
+  const template =
+    type === EntityType.TransactionTemplate
+      ? project.transactionTemplates[active.index]
+      : type === EntityType.ScriptTemplate
+      ? project.scriptTemplates[active.index]
+      : null;
+
+  const applyPreset = (preset: ArgumentPreset) => {
+    setValue({ ...editedValues, ...preset.values });
+    updateSelectedAccounts(
+      preset.signers.filter((index) => index < accounts.length),
+    );
+  };
+
+  const savePreset = (name: string) => {
+    const presetValues = list.reduce((acc: IValue, arg, index) => {
+      acc[valueKeys[index]] = values[arg.name];
+      return acc;
+    }, {});
+    saveArgumentPreset(template.id, {
+      name,
+      values: presetValues,
+      signers: needSigners ? selected : [],
+    });
+  };
+
   const signersAccounts = selected.map((i) => accounts[i]);
 
   const send = async () => {
@@ -216,44 +192,32 @@ const Arguments: React.FC<ArgumentsProps> = (props) => {
       setProcessingStatus(true);
     }
 
-    // TODO: implement algorithm for drilling down dictionaries
-
-    const fixed = list.map((arg) => {
-      const { name, type } = arg;
-      let value = values[name];
-
-      // We probably better fix this on server side...
-      if (type === 'UFix64') {
-        if (value.indexOf('.') < 0) {
-          value = `${value}.0`;
-        }
-      }
-      return value;
-    });
-
-    const formatted = await props.languageClient.sendRequest(
-      ExecuteCommandRequest.type,
-      {
-        command: 'cadence.server.parseEntryPointArguments',
-        arguments: [
-          props.editor.getModel().uri.toString(),
-          fixed
-        ],
-      },
-    );
+    // Values without forms are written as Cadence code, which is
+    // parsed by the language server. It parses all arguments at once
+    let parsed: any[] = [];
+    if (parsedByServer.includes(true)) {
+      parsed = await props.languageClient.sendRequest(
+        ExecuteCommandRequest.type,
+        {
+          command: 'cadence.server.parseEntryPointArguments',
+          arguments: [
+            props.editor.getModel().uri.toString(),
+            list.map((arg, index) =>
+              toCadenceLiteral(types[index], values[arg.name]),
+            ),
+          ],
+        },
+      );
+    }
 
     // Map values to strings that will be passed to backend
-    const args:any = list.map((arg, index) => {
-      const { type } = arg;
-      const value = fixed[index]
-
-      // If we have a complex type - return value formatted by language server
-      if ( isComplexType(type)){
-        return JSON.stringify(formatted[index])
-      }
-
-      return JSON.stringify({ value, type });
-    });
+    const args: any = list.map((arg, index) =>
+      JSON.stringify(
+        parsedByServer[index]
+          ? parsed[index]
+          : toJsonCadence(types[index], values[arg.name], composites),
+      ),
+    );
 
     let rawResult, resultType;
     try {
@@ -273,9 +237,11 @@ const Arguments: React.FC<ArgumentsProps> = (props) => {
         case EntityType.Account: {
           // Ask if user wants to redeploy the contract
           if (accounts[active.index] && accounts[active.index].deployedCode) {
-            const choiceMessage =
-              'Redeploying will clear the state of all accounts. Proceed?';
-            if (!confirm(choiceMessage)) {
+            const confirmed = await new Promise<boolean>((resolve) =>
+              setConfirmRedeploy(() => resolve),
+            );
+            setConfirmRedeploy(null);
+            if (!confirmed) {
               setProcessingStatus(false);
               return;
             }
@@ -319,6 +285,13 @@ const Arguments: React.FC<ArgumentsProps> = (props) => {
 
   return (
     <>
+      {confirmRedeploy && (
+        <RedeployPopup
+          draftCode={accounts[active.index].draftCode}
+          deployedCode={accounts[active.index].deployedCode}
+          onConfirm={confirmRedeploy}
+        />
+      )}
       <div ref={constraintsRef} className="constraints" />
       <motion.div
         className="drag-box"
@@ -329,6 +302,15 @@ const Arguments: React.FC<ArgumentsProps> = (props) => {
         <HoverPanel>
           {validCode && (
             <>
+              {template && (list.length > 0 || needSigners) && (
+                <Presets
+                  key={template.id}
+                  presets={argumentPresets[template.id] || []}
+                  onApply={applyPreset}
+                  onSave={savePreset}
+                  onDelete={(name) => deleteArgumentPreset(template.id, name)}
+                />
+              )}
               {list.length > 0 && (
                 <>
                   <ArgumentsTitle
@@ -339,19 +321,20 @@ const Arguments: React.FC<ArgumentsProps> = (props) => {
                   />
                   <ArgumentsList
                     list={list}
+                    values={values}
+                    composites={composites}
                     errors={errors}
                     hidden={!expanded}
                     onChange={(name, value) => {
-                      let key = name.toString();
-                      let newValue = { ...values, [key]: value };
-                      setValue(newValue);
+                      const index = list.findIndex((arg) => arg.name === name);
+                      setValue({ ...editedValues, [valueKeys[index]]: value });
                     }}
                   />
                 </>
               )}
               {needSigners && (
                 <Signers
-                  maxSelection={signers}
+                  parameters={signers}
                   selected={selected}
                   updateSelectedAccounts={updateSelectedAccounts}
                 />
@@ -77,6 +77,9 @@ export const Badge = styled.div`
     background-color: ${theme.colors.primary};
     color: #222;
   }
+  &.warning {
+    background-color: #eea91e;
+  }
 `;
 
 interface ListProps {
@@ -216,3 +219,36 @@ export const SignersError = styled.p`
     margin-right: 0.5em;
   }
 `;
+
+export const PresetsContainer = styled.div`
+  display: flex;
+  align-items: center;
+  margin-bottom: 16px;
+  font-size: 13px;
+  select, input {
+    flex: 1;
+    min-width: 0;
+    padding: 4px;
+    border: 1px solid #C4C4C4;
+    font-size: 13px;
+  }
+`;
+
+export const PresetButton = styled.button`
+  flex-shrink: 0;
+  margin-left: 6px;
+  padding: 4px 6px;
+  border: none;
+  border-radius: 3px;
+  background: none;
+  color: ${theme.colors.muted};
+  font-size: 12px;
+  cursor: pointer;
+  &:hover {
+    background: ${theme.colors.border};
+  }
+  &:disabled {
+    cursor: default;
+    opacity: 0.5;
+  }
+`;
@@ -6,6 +6,8 @@ import {
   ProblemsList,
 } from '../../util/language-syntax-errors';
 import { MonacoLanguageClient } from 'monaco-languageclient';
+import { ArgumentValue, CompositeTypes } from '../../util/cadence-values';
+import { SignerParameter } from '../../util/cadence-signers';
 
 export type InteractionButtonProps = {
   onClick: () => void;
@@ -21,7 +23,8 @@ export type Argument = {
 export type ArgumentsProps = {
   type: EntityType;
   list: Argument[];
-  signers: number;
+  composites: CompositeTypes;
+  signers: SignerParameter[];
   problems: ProblemsList;
   goTo: (position: monaco.IPosition) => void;
   hover: (highlight: Highlight) => void;
@@ -39,8 +42,10 @@ export type ArgumentsTitleProps = {
 
 export type ArgumentsListProps = {
   list: Argument[];
+  values: { [name: string]: ArgumentValue };
+  composites: CompositeTypes;
   hidden: boolean;
-  onChange: (name: String, value: any) => void;
+  onChange: (name: string, value: ArgumentValue) => void;
   errors: any;
 };
 
@@ -0,0 +1,78 @@
+import React from 'react';
+import styled from '@emotion/styled';
+import { FaChevronRight } from 'react-icons/fa';
+import useDocumentOutline from '../hooks/useDocumentOutline';
+import theme from '../theme';
+
+import {
+  findSymbolPath,
+  OUTLINE_KIND_LABELS,
+  OutlineRange,
+  OutlineSymbol,
+} from '../util/cadence-outline';
+
+const Root = styled.div`
+  display: flex;
+  align-items: center;
+  min-height: 24px;
+  padding: 0 1rem 4px 1rem;
+  overflow: hidden;
+  font-size: 12px;
+  color: ${theme.colors.heading};
+  white-space: nowrap;
+  svg {
+    flex-shrink: 0;
+    margin: 0 4px;
+  }
+`;
+
+const Crumb = styled.button`
+  padding: 1px 4px;
+  border: none;
+  border-radius: 3px;
+  background: none;
+  color: ${theme.colors.text};
+  font-family: ${theme.fonts.monospace};
+  font-size: 12px;
+  cursor: pointer;
+  &:hover {
+    background: ${theme.colors.border};
+  }
+  small {
+    margin-right: 4px;
+    color: ${theme.colors.heading};
+    font-family: ${theme.fonts.body};
+  }
+`;
+
+// Declarations around the cursor, from the outermost one
+const Breadcrumbs: React.FC<{
+  id: string | null;
+  code: string;
+  position: { lineNumber: number; column: number } | null;
+  onSelect: (range: OutlineRange) => void;
+}> = ({ id, code, position, onSelect }) => {
+  const symbols = useDocumentOutline(id, code);
+  const path: OutlineSymbol[] = position
+    ? findSymbolPath(symbols, position)
+    : [];
+
+  return (
+    <Root>
+      {path.map((symbol, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && <FaChevronRight size="8px" />}
+          <Crumb
+            title={`Line ${symbol.selectionRange.startLineNumber}`}
+            onClick={() => onSelect(symbol.selectionRange)}
+          >
+            <small>{OUTLINE_KIND_LABELS[symbol.kind]}</small>
+            {symbol.name}
+          </Crumb>
+        </React.Fragment>
+      ))}
+    </Root>
+  );
+};
+
+export default Breadcrumbs;
@@ -1,20 +1,15 @@
 import React from 'react';
 import styled from '@emotion/styled';
 import { keyframes } from '@emotion/core';
-import configureCadence, { CADENCE_LANGUAGE_ID } from '../util/cadence';
-import {
-  CadenceCheckCompleted,
-  CadenceLanguageServer,
-  Callbacks,
-} from '../util/language-server';
-import { createCadenceLanguageClient } from '../util/language-client';
+import { CADENCE_LANGUAGE_ID } from '../util/cadence';
+import CadenceLanguageSession from '../util/language-session';
+import { CadenceCheckCompleted } from '../util/language-server';
 import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
-import { EntityType } from 'providers/Project';
+import { EditorReveal, EntityType } from 'providers/Project';
 import Arguments from 'components/Arguments';
 import { Argument } from 'components/Arguments/types';
 import {
-  CadenceProblem,
-  formatMarker,
+  getProblemsList,
   goTo,
   Highlight,
   ProblemsList,
@@ -22,9 +17,13 @@ import {
 import {
   MonacoLanguageClient,
   ExecuteCommandRequest,
+  RenameRequest,
 } from 'monaco-languageclient';
-
-const { MonacoServices } = require('monaco-languageclient/lib/monaco-services');
+import { findSymbolMatches, onOpenDocument } from '../util/language-navigation';
+import { RenameRange, SymbolRename } from '../util/project-rename';
+import { CompositeTypes } from '../util/cadence-values';
+import { findSigners, SignerParameter } from '../util/cadence-signers';
+import { getEditorSync } from '../util/editor-sync';
 
 const blink = keyframes`
   50% {
@@ -105,21 +104,35 @@ type EditorState = {
   viewState: any;
 };
 
-let monacoServicesInstalled = false;
-
-type CodeGetter = (index: number) => string | undefined;
-
 type CadenceEditorProps = {
   code: string;
   mount: string;
   onChange: any;
   activeId: string;
   type: EntityType;
-  getCode: CodeGetter;
+  languageSession: CadenceLanguageSession;
+  reveal?: EditorReveal | null;
+  onReveal?: () => void;
+  // Called to open another document, e.g. when going to a definition
+  onNavigate?: (id: string, range: monaco.IRange) => void;
+  // Called with the uses of the symbol to rename in all documents
+  onRenameSymbol?: (symbol: SymbolRename) => void;
+  // Saves the code right away, resolves to the saved code
+  onSave?: (code: string) => Promise<string>;
+  // Called when the cursor moves, also when another document is shown
+  onCursorChange?: (position: monaco.IPosition | null) => void;
+  // Called with the edits of the document which are not stored yet,
+  // when its code was changed elsewhere in the meantime
+  onConflict?: (id: string, mine: string) => void;
+  // Arguments act on the active entity, editors of other ones hide them
+  hideArguments?: boolean;
 };
 
 type CadenceEditorState = {
   args: { [key: string]: Argument[] };
+  // Structs used by the arguments, to edit their fields
+  composites: { [key: string]: CompositeTypes };
+  signers: { [key: string]: SignerParameter[] };
   problems: { [key: string]: ProblemsList };
 };
 
@@ -128,32 +141,38 @@ class CadenceEditor extends React.Component<
   CadenceEditorState
 > {
   editor: monaco.editor.ICodeEditor;
-  languageClient?: MonacoLanguageClient;
   _subscription: any;
+  _cursorSubscription: any;
   editorStates: { [key: string]: EditorState };
-  private callbacks: Callbacks;
-
-  constructor(props: {
-    code: string;
-    mount: string;
-    onChange: any;
-    activeId: string;
-    type: EntityType;
-    getCode: CodeGetter;
-  }) {
+  // Values sent through `onChange`, which are not yet reflected in props
+  pendingCode: { [key: string]: string[] };
+  isSyncing: boolean;
+  private unsubscribeChecks?: () => void;
+  private unsubscribeStatus?: () => void;
+  private navigation?: monaco.IDisposable;
+
+  constructor(props: CadenceEditorProps) {
     super(props);
 
     this.editorStates = {};
+    this.pendingCode = {};
+    this.isSyncing = false;
     this.handleResize = this.handleResize.bind(this);
     window.addEventListener('resize', this.handleResize);
-    configureCadence();
 
     this.state = {
       args: {},
+      composites: {},
+      signers: {},
       problems: {},
     };
   }
 
+  // The client changes when the language server is restarted
+  get languageClient(): MonacoLanguageClient | null {
+    return this.props.languageSession.languageClient;
+  }
+
   handleResize() {
     this.editor && this.editor.layout();
   }
@@ -167,86 +186,90 @@ class CadenceEditor extends React.Component<
         minimap: {
           enabled: false,
         },
+        // The editor is resized when the view is split
+        automaticLayout: true,
       },
     );
     this.editor = editor;
+    this.handleNavigation();
+    editor.addAction({
+      id: 'cadence.renameSymbol',
+      label: 'Rename Symbol',
+      keybindings: [monaco.KeyCode.F2],
+      contextMenuGroupId: '1_modification',
+      run: () => this.renameSymbol(),
+    });
+    editor.addAction({
+      id: 'cadence.save',
+      label: 'Save',
+      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KEY_S],
+      run: () => this.save(),
+    });
 
     this._subscription = this.editor.onDidChangeModelContent((event: any) => {
-      this.props.onChange(this.editor.getValue(), event);
+      if (this.isSyncing) {
+        return;
+      }
+      const value = this.editor.getValue();
+      const { activeId } = this.props;
+      const pending = this.pendingCode[activeId] || [];
+      this.pendingCode[activeId] = [...pending, value];
+      this.props.onChange(value, event);
     });
-
-    const state = this.getOrCreateEditorState(
-      this.props.activeId,
-      this.props.code,
+    this._cursorSubscription = editor.onDidChangeCursorPosition(() =>
+      this.handleCursorChange(),
     );
-    this.editor.setModel(state.model);
-    this.editor.focus();
 
-    if (this.props.activeId && !this.callbacks) {
-      const getCode = (index: number) =>
-        this.props.getCode(index)
-      await this.loadLanguageServer(getCode);
+    const { activeId, code, languageSession } = this.props;
+    if (activeId) {
+      const state = this.getOrCreateEditorState(activeId, code);
+      languageSession.setEditedDocument(this.props.mount, activeId);
+      this.editor.setModel(state.model);
     }
-  }
-
-  private async loadLanguageServer(
-    getCode: CodeGetter,
-  ) {
-    this.callbacks = {
-      // The actual callback will be set as soon as the language server is initialized
-      toServer: null,
-
-      // The actual callback will be set as soon as the language server is initialized
-      onClientClose: null,
+    this.editor.focus();
+    this.revealRange();
 
-      // The actual callback will be set as soon as the language client is initialized
-      onServerClose: null,
+    if (!this.unsubscribeChecks) {
+      this.unsubscribeChecks = languageSession.onCheckCompleted((result) =>
+        this.handleCheck(result),
+      );
+      this.unsubscribeStatus = languageSession.onStatusChange(() =>
+        this.forceUpdate(),
+      );
+      await languageSession.start();
+    }
 
-      // The actual callback will be set as soon as the language client is initialized
-      toClient: null,
+    await this.showLastCheck();
+  }
 
-      getAddressCode(address: string): string | undefined {
-        const number = parseInt(address, 16);
-        if (!number) {
-          return;
-        }
-        return getCode(number - 1);
-      },
-    };
+  // Documents are checked when they are opened,
+  // which might have happened before they were shown
+  private async showLastCheck() {
+    const model = this.editor.getModel();
+    const result =
+      model && this.props.languageSession.getCheckResult(model.uri);
+    if (result) {
+      await this.handleCheck(result);
+    }
+  }
 
-    // The Monaco Language Client services have to be installed globally, once.
-    // An editor must be passed, which is only used for commands.
-    // As the Cadence language server is not providing any commands this is OK
-
-    if (!monacoServicesInstalled) {
-      monacoServicesInstalled = true;
-      MonacoServices.install(monaco);
-    }
-
-    // Start one language server per editor.
-    // Even though one language server can handle multiple documents,
-    // this demonstrates this is possible and is more resilient:
-    // if the server for one editor crashes, it does not break the other editors
-
-    await CadenceLanguageServer.create(this.callbacks);
-
-    this.languageClient = createCadenceLanguageClient(this.callbacks);
-    this.languageClient.start();
-    this.languageClient.onReady().then(() => {
-      this.languageClient.onNotification(
-        CadenceCheckCompleted.methodName,
-        async (result: CadenceCheckCompleted.Params) => {
-          if (result.valid) {
-            const params = await this.getParameters();
-            this.setExecutionArguments(params);
-          }
-          this.processMarkers();
-        },
-      );
-    });
+  private async handleCheck(result: CadenceCheckCompleted.Params) {
+    const model = this.editor && this.editor.getModel();
+    if (!model || model.uri.toString() !== result.uri) {
+      return;
+    }
+    if (result.valid) {
+      const params = await this.getParameters();
+      await this.setExecutionArguments(params);
+      await this.updateSigners();
+    }
+    this.processMarkers();
   }
 
   private async getParameters() {
+    if (!this.languageClient) {
+      return [];
+    }
     await this.languageClient.onReady();
 
     try {
@@ -265,19 +288,8 @@ class CadenceEditor extends React.Component<
 
   processMarkers() {
     const model = this.editor.getModel();
-    const modelMarkers = monaco.editor.getModelMarkers({ resource: model.uri });
-    const errors = modelMarkers.reduce(
-      (acc: { [key: string]: CadenceProblem[] }, marker) => {
-        const mappedMarker: CadenceProblem = formatMarker(marker);
-        acc[mappedMarker.type].push(mappedMarker);
-        return acc;
-      },
-      {
-        error: [],
-        warning: [],
-        info: [],
-        hint: [],
-      },
+    const errors = getProblemsList(
+      monaco.editor.getModelMarkers({ resource: model.uri }),
     );
 
     const { activeId } = this.props;
@@ -289,23 +301,45 @@ class CadenceEditor extends React.Component<
     });
   }
 
-  setExecutionArguments(args: Argument[]) {
-    const { activeId } = this.props;
+  async setExecutionArguments(args: Argument[]) {
+    const { activeId, languageSession } = this.props;
+    const composites = await languageSession.getCompositeTypes(
+      activeId,
+      args.map((arg) => arg.type),
+    );
+    if (activeId !== this.props.activeId) {
+      return;
+    }
     this.setState({
       args: {
         [activeId]: args,
       },
+      composites: {
+        [activeId]: composites,
+      },
     });
   }
 
+  private async updateSigners() {
+    const { activeId, type, languageSession } = this.props;
+    if (type !== EntityType.TransactionTemplate) {
+      return;
+    }
+    const signers = await languageSession.getSigners(activeId);
+    if (activeId === this.props.activeId) {
+      this.setState({ signers: { [activeId]: signers } });
+    }
+  }
+
   getOrCreateEditorState(id: string, code: string): EditorState {
     const existingState = this.editorStates[id];
 
-    if (existingState !== undefined) {
+    // Documents of removed files are closed by the session
+    if (existingState !== undefined && !existingState.model.isDisposed()) {
       return existingState;
     }
 
-    const model = monaco.editor.createModel(code, CADENCE_LANGUAGE_ID);
+    const model = this.props.languageSession.openDocument(id, code);
 
     const state: EditorState = {
       model,
@@ -317,69 +351,249 @@ class CadenceEditor extends React.Component<
     return state;
   }
 
+  // Applies code changed outside of the editor (restored snapshots, history, etc.)
+  // to the model, unless it's just an echo of a value the editor sent itself
+  syncEditorState(id: string, code: string) {
+    const state = this.editorStates[id];
+    if (!state || state.model.isDisposed()) {
+      return;
+    }
+
+    const { model } = state;
+    const sync = getEditorSync(
+      model.getValue(),
+      this.pendingCode[id] || [],
+      code,
+    );
+    if (sync.action === 'keep') {
+      this.pendingCode[id] = sync.pending;
+      return;
+    }
+
+    // Edits which are not stored yet, e.g. while typing is debounced, are
+    // kept in the model, the user picks which version of the code stays
+    if (sync.action === 'conflict') {
+      if (this.props.onConflict) {
+        this.props.onConflict(id, sync.mine);
+      }
+      return;
+    }
+
+    this.isSyncing = true;
+    model.pushEditOperations(
+      [],
+      [{ range: model.getFullModelRange(), text: code }],
+      (): null => null,
+    );
+    this.isSyncing = false;
+    delete this.pendingCode[id];
+  }
+
   saveEditorState(id: string, viewState: any) {
-    this.editorStates[id].viewState = viewState;
+    if (this.editorStates[id]) {
+      this.editorStates[id].viewState = viewState;
+    }
   }
 
   switchEditor(prevId: string, newId: string) {
     const newState = this.getOrCreateEditorState(newId, this.props.code);
+    this.syncEditorState(newId, this.props.code);
 
     const currentViewState = this.editor.saveViewState();
 
     this.saveEditorState(prevId, currentViewState);
 
+    this.props.languageSession.setEditedDocument(this.props.mount, newId);
     this.editor.setModel(newState.model);
     this.editor.restoreViewState(newState.viewState);
     this.editor.focus();
+    this.handleCursorChange();
+  }
+
+  handleCursorChange() {
+    if (this.props.onCursorChange) {
+      this.props.onCursorChange(this.editor.getPosition());
+    }
   }
 
   componentWillUnmount() {
     this.destroyMonaco();
     window.removeEventListener('resize', this.handleResize);
-    if (this.callbacks && this.callbacks.onClientClose) {
-      this.callbacks.onClientClose();
+    if (this.unsubscribeChecks) {
+      this.unsubscribeChecks();
+    }
+    if (this.unsubscribeStatus) {
+      this.unsubscribeStatus();
     }
+    this.props.languageSession.setEditedDocument(this.props.mount, null);
   }
 
   async componentDidUpdate(prevProps: any) {
     if (this.props.activeId !== prevProps.activeId) {
       this.switchEditor(prevProps.activeId, this.props.activeId);
-      this.destroyMonaco();
-      await this.componentDidMount();
+      this.revealRange();
+      await this.showLastCheck();
+    } else {
+      if (this.props.code !== prevProps.code) {
+        this.syncEditorState(this.props.activeId, this.props.code);
+      }
+      if (this.props.reveal !== prevProps.reveal) {
+        this.revealRange();
+      }
     }
   }
 
-  destroyMonaco() {
-    if (this.editor) {
-      this.editor.dispose();
-      const model = this.editor.getModel();
-      if (model) {
-        model.dispose();
+  // The standalone editor can't open other models by itself,
+  // so opening a definition or reference in another document
+  // is passed up to switch to the account or template
+  handleNavigation() {
+    this.navigation = onOpenDocument(this.editor, (resource, selection) => {
+      const id = this.props.languageSession.getDocumentId(resource);
+      if (!id || !this.props.onNavigate) {
+        return;
       }
+      const start = selection || { startLineNumber: 1, startColumn: 1 };
+      this.props.onNavigate(id, {
+        startLineNumber: start.startLineNumber,
+        startColumn: start.startColumn,
+        endLineNumber: start.endLineNumber || start.startLineNumber,
+        endColumn: start.endColumn || start.startColumn,
+      });
+    });
+  }
+
+  // Code might be formatted when it's saved. The formatted code is applied
+  // as an edit, so it can be undone and is the last change sent to the project
+  async save() {
+    if (!this.props.onSave) {
+      return;
     }
-    if (this._subscription) {
-      this._subscription.dispose();
+    const model = this.editor.getModel();
+    const code = model.getValue();
+    const saved = await this.props.onSave(code);
+    // Typing while saving keeps the code as it is
+    if (saved !== code && model.getValue() === code) {
+      this.editor.pushUndoStop();
+      this.editor.executeEdits('save', [
+        { range: model.getFullModelRange(), text: saved },
+      ]);
+      this.editor.pushUndoStop();
     }
   }
 
-  extract(code: string, keyWord: string): string[] {
-    // TODO: add different processors for contract, scripts and transactions
+  // Symbols declared by account contracts are renamed in all documents
+  // using them, the language server knows the local ones
+  async renameSymbol() {
+    const model = this.editor.getModel();
+    const position = this.editor.getPosition();
+    const word = model && position && model.getWordAtPosition(position);
+    if (!word || !this.props.onRenameSymbol) {
+      return;
+    }
+
+    const documents = this.props.languageSession.getDocuments();
+    const document = documents.find((item) => item.model === model);
+    if (!document) {
+      return;
+    }
 
-    const target = code
-      .split(/\r\n|\n|\r/)
-      .find((line) => line.includes(keyWord));
+    const renames = findSymbolMatches(documents, document, position).map(
+      (item) => ({
+        file: { ...item.document.file, code: item.document.model.getValue() },
+        ranges: item.matches as RenameRange[],
+      }),
+    );
 
-    if (target) {
-      const match = target.match(/(?:\()(.*)(?:\))/);
-      if (match) {
-        return match[1].split(',').map((item) => item.replace(/\s*/g, ''));
+    const serverRanges = await this.getRenameRanges(position, word.word);
+    if (serverRanges.length > 0) {
+      const rename = {
+        file: { ...document.file, code: model.getValue() },
+        ranges: serverRanges,
+      };
+      const index = renames.findIndex(
+        (item) => item.file.id === document.file.id,
+      );
+      if (index >= 0) {
+        renames[index] = rename;
+      } else {
+        renames.push(rename);
       }
     }
-    return [];
+
+    if (renames.length > 0) {
+      this.props.onRenameSymbol({ name: word.word, renames });
+    }
   }
 
-  extractSigners(code: string): number {
-    return this.extract(code, 'prepare').filter((item) => !!item).length;
+  // Ranges of the symbol in the edited document, as known by the language server
+  private async getRenameRanges(
+    position: monaco.IPosition,
+    name: string,
+  ): Promise<RenameRange[]> {
+    if (!this.languageClient) {
+      return [];
+    }
+
+    const uri = this.editor.getModel().uri.toString();
+    try {
+      const edit = await this.languageClient.sendRequest(RenameRequest.type, {
+        textDocument: { uri },
+        position: {
+          line: position.lineNumber - 1,
+          character: position.column - 1,
+        },
+        newName: name,
+      });
+      const edits = (edit && edit.changes && edit.changes[uri]) || [];
+      return edits
+        .filter(({ range }) => range.start.line === range.end.line)
+        .map(({ range }) => ({
+          lineNumber: range.start.line + 1,
+          startColumn: range.start.character + 1,
+          endColumn: range.end.character + 1,
+        }));
+    } catch (error) {
+      // Not every version of the language server supports renaming
+      return [];
+    }
+  }
+
+  // Selects the range requested from outside of the editor,
+  // e.g. by search results, as soon as its file is open
+  revealRange() {
+    const { reveal, activeId } = this.props;
+    if (!this.editor || !reveal || reveal.id !== activeId) {
+      return;
+    }
+
+    const { range } = reveal;
+    goTo(this.editor, {
+      lineNumber: range.startLineNumber,
+      column: range.startColumn,
+    });
+    this.editor.setSelection(range);
+    if (reveal.highlight) {
+      this.hideDecorations();
+      this.hover(reveal.highlight);
+      window.setTimeout(() => this.hideDecorations(), 1500);
+    }
+    this.props.onReveal && this.props.onReveal();
+  }
+
+  destroyMonaco() {
+    if (this.navigation) {
+      this.navigation.dispose();
+    }
+    if (this.editor) {
+      // Models are owned by the language session
+      this.editor.dispose();
+    }
+    if (this._subscription) {
+      this._subscription.dispose();
+    }
+    if (this._cursorSubscription) {
+      this._cursorSubscription.dispose();
+    }
   }
 
   hover(highlight: Highlight): void {
@@ -427,6 +641,9 @@ class CadenceEditor extends React.Component<
 
   hideDecorations(): void {
     const model = this.editor.getModel();
+    if (!model) {
+      return;
+    }
     let current = model
       .getAllDecorations()
       .filter((item) => {
@@ -439,15 +656,18 @@ class CadenceEditor extends React.Component<
   }
 
   render() {
-    const { type, code } = this.props;
+    const { type, code, hideArguments } = this.props;
 
     /// Get a list of args from language server
     const { activeId } = this.props;
-    const { args, problems } = this.state;
+    const { args, composites, problems } = this.state;
     const list = args[activeId] || [];
 
-    /// Extract number of signers from code
-    const signers = this.extractSigners(code);
+    // Signers of the last checked code, found in the code until it's checked
+    const signers =
+      type === EntityType.TransactionTemplate
+        ? this.state.signers[activeId] || findSigners(code)
+        : [];
     const problemsList: ProblemsList = problems[activeId] || {
       error: [],
       warning: [],
@@ -456,17 +676,20 @@ class CadenceEditor extends React.Component<
     };
     return (
       <EditorContainer id={this.props.mount}>
-        <Arguments
-          type={type}
-          list={list}
-          signers={signers}
-          problems={problemsList}
-          hover={(highlight) => this.hover(highlight)}
-          hideDecorations={() => this.hideDecorations()}
-          goTo={(position: monaco.IPosition) => goTo(this.editor, position)}
-          editor={this.editor}
-          languageClient={this.languageClient}
-        />
+        {!hideArguments && (
+          <Arguments
+            type={type}
+            list={list}
+            composites={composites[activeId] || {}}
+            signers={signers}
+            problems={problemsList}
+            hover={(highlight) => this.hover(highlight)}
+            hideDecorations={() => this.hideDecorations()}
+            goTo={(position: monaco.IPosition) => goTo(this.editor, position)}
+            editor={this.editor}
+            languageClient={this.languageClient}
+          />
+        )}
       </EditorContainer>
     );
   }
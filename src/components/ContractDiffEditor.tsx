@@ -0,0 +1,100 @@
+import React, { useEffect, useRef } from 'react';
+import styled from '@emotion/styled';
+import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+import CadenceLanguageSession from '../util/language-session';
+import { CADENCE_LANGUAGE_ID } from '../util/cadence';
+import theme from '../theme';
+
+const Root = styled.div`
+  position: absolute;
+  top: 0;
+  right: 0;
+  bottom: 0;
+  left: 0;
+  z-index: 13;
+  display: flex;
+  flex-direction: column;
+  background: ${theme.colors.background};
+`;
+
+const Legend = styled.div`
+  display: flex;
+  justify-content: space-between;
+  padding: 4px 1rem;
+  font-size: 12px;
+  color: ${theme.colors.heading};
+`;
+
+const Container = styled.div`
+  flex: 1;
+  min-height: 0;
+`;
+
+// Deployed code is not a document of the project,
+// its scheme keeps the language client from checking it
+const getDeployedUri = (id: string) =>
+  monaco.Uri.from({ scheme: 'deployed', path: `/${id}.cdc` });
+
+type ContractDiffEditorProps = {
+  id: string;
+  draftCode: string;
+  deployedCode: string;
+  languageSession: CadenceLanguageSession;
+};
+
+// Shows what redeploying the account would change: the deployed code
+// next to the draft, which is the document edited in the editor
+const ContractDiffEditor: React.FC<ContractDiffEditorProps> = ({
+  id,
+  draftCode,
+  deployedCode,
+  languageSession,
+}) => {
+  const container = useRef<HTMLDivElement>(null);
+  const original = useRef<monaco.editor.ITextModel | null>(null);
+
+  useEffect(() => {
+    const diffEditor = monaco.editor.createDiffEditor(container.current, {
+      theme: 'vs-light',
+      readOnly: true,
+      automaticLayout: true,
+      minimap: {
+        enabled: false,
+      },
+    });
+    const model = monaco.editor.createModel(
+      deployedCode,
+      CADENCE_LANGUAGE_ID,
+      getDeployedUri(id),
+    );
+    original.current = model;
+    diffEditor.setModel({
+      original: model,
+      modified: languageSession.openDocument(id, draftCode),
+    });
+
+    return () => {
+      diffEditor.dispose();
+      model.dispose();
+      original.current = null;
+    };
+  }, [id, languageSession]);
+
+  useEffect(() => {
+    if (original.current && original.current.getValue() !== deployedCode) {
+      original.current.setValue(deployedCode);
+    }
+  }, [deployedCode]);
+
+  return (
+    <Root>
+      <Legend>
+        <span>Deployed</span>
+        <span>Draft</span>
+      </Legend>
+      <Container ref={container} />
+    </Root>
+  );
+};
+
+export default ContractDiffEditor;
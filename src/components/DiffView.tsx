@@ -0,0 +1,101 @@
+import React from 'react';
+import styled from '@emotion/styled';
+import theme from '../theme';
+import { DiffLine, DiffType } from '../util/diff';
+
+const Root = styled.div`
+  font-family: ${theme.fonts.monospace};
+  font-size: 12px;
+  line-height: 1.5;
+  overflow: auto;
+  max-height: 400px;
+  border: 1px solid ${theme.colors.borderDark};
+  border-radius: 4px;
+`;
+
+const Row = styled.div<{ type: DiffType }>`
+  display: flex;
+  white-space: pre;
+  background: ${({ type }) => {
+    switch (type) {
+      case DiffType.Added:
+        return 'rgba(0, 255, 118, 0.15)';
+      case DiffType.Removed:
+        return 'rgba(244, 67, 54, 0.15)';
+      default:
+        return 'transparent';
+    }
+  }};
+`;
+
+const Gutter = styled.span`
+  display: inline-block;
+  flex: 0 0 auto;
+  width: 3em;
+  padding-right: 0.5em;
+  text-align: right;
+  color: ${theme.colors.heading};
+  user-select: none;
+`;
+
+const Skipped = styled.div`
+  padding: 2px 0 2px 7em;
+  color: ${theme.colors.heading};
+  background: ${theme.colors.border};
+`;
+
+const getSign = (type: DiffType) => {
+  switch (type) {
+    case DiffType.Added:
+      return '+';
+    case DiffType.Removed:
+      return '-';
+    default:
+      return ' ';
+  }
+};
+
+type DiffViewProps = {
+  lines: DiffLine[];
+  // Amount of unchanged lines to show around each change
+  context?: number;
+};
+
+const DiffView: React.FC<DiffViewProps> = ({ lines, context = 3 }) => {
+  const visible = lines.map((line, i) => {
+    if (line.type !== DiffType.Equal) {
+      return true;
+    }
+    const from = Math.max(0, i - context);
+    const to = Math.min(lines.length - 1, i + context);
+    for (let j = from; j <= to; j++) {
+      if (lines[j].type !== DiffType.Equal) {
+        return true;
+      }
+    }
+    return false;
+  });
+
+  const rows: JSX.Element[] = [];
+  lines.forEach((line, i) => {
+    if (!visible[i]) {
+      if (i === 0 || visible[i - 1]) {
+        rows.push(<Skipped key={`skip-${i}`}>...</Skipped>);
+      }
+      return;
+    }
+    rows.push(
+      <Row key={i} type={line.type}>
+        <Gutter>{line.oldLine || ''}</Gutter>
+        <Gutter>{line.newLine || ''}</Gutter>
+        <span>
+          {getSign(line.type)} {line.value}
+        </span>
+      </Row>,
+    );
+  });
+
+  return <Root>{rows}</Root>;
+};
+
+export default DiffView;
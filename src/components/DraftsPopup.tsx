@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import styled from '@emotion/styled';
+import { useProject } from 'providers/Project/projectHooks';
+import { default as FlowButton } from 'components/Button';
+import { findExample } from 'components/Examples';
+import theme from '../theme';
+
+import {
+  FullScreenContainer,
+  PopupContainer,
+  PopupHeader,
+  WhiteOverlay,
+  SpaceBetween,
+} from 'components/Common';
+
+import {
+  deleteDraft,
+  getActiveDraftId,
+  listDrafts,
+  LocalDraft,
+} from 'providers/Project/projectDrafts';
+
+const DraftList = styled.ul`
+  list-style: none;
+  margin: 0 0 20px 0;
+  padding: 0;
+  max-height: 400px;
+  overflow-y: auto;
+`;
+
+const DraftItem = styled.li`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 8px;
+  border-radius: 4px;
+  font-size: 14px;
+  &:hover {
+    background: ${theme.colors.border};
+  }
+  small {
+    display: block;
+    color: ${theme.colors.heading};
+  }
+`;
+
+const DraftActions = styled.div`
+  display: flex;
+  button {
+    border: none;
+    border-radius: 4px;
+    padding: 2px 8px;
+    margin-left: 4px;
+    font-size: 12px;
+    cursor: pointer;
+    background-color: #ededed;
+    color: #696969;
+  }
+  button.open {
+    background-color: #bdc4f4;
+    color: #575e89;
+  }
+`;
+
+const Hint = styled.p`
+  color: ${theme.colors.heading};
+  font-size: 14px;
+`;
+
+const getDraftTitle = (draft: LocalDraft) => {
+  if (draft.parentId) {
+    const example = findExample(draft.parentId);
+    return `Fork of ${
+      example ? example.title.trim() : draft.parentId.slice(0, 8)
+    }`;
+  }
+
+  for (const code of draft.accounts) {
+    const match = code.match(/contract\s+(?:interface\s+)?(\w+)/);
+    if (match) {
+      return match[1];
+    }
+  }
+  return 'Untitled draft';
+};
+
+const DraftsPopup: React.FC<{
+  visible: boolean;
+  triggerClose?: (e: React.SyntheticEvent) => any;
+}> = ({ visible, triggerClose }) => {
+  const { mutator } = useProject();
+  const [drafts, setDrafts] = useState<LocalDraft[]>([]);
+  const [unavailable, setUnavailable] = useState(false);
+
+  const loadDrafts = async () => {
+    try {
+      setDrafts(await listDrafts());
+    } catch (e) {
+      console.error(e);
+      setUnavailable(true);
+    }
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadDrafts();
+    }
+  }, [visible]);
+
+  const activeDraftId = getActiveDraftId();
+
+  const containerFrames = {
+    visible: {
+      display: 'flex',
+      opacity: 1,
+      transition: {
+        staggerChildren: 0.1,
+      },
+      zIndex: 20,
+    },
+    hidden: {
+      opacity: 0,
+      transition: {
+        when: 'afterChildren',
+        staggerChildren: 0,
+        staggerDirection: -1,
+      },
+      zIndex: -1,
+    },
+  };
+
+  const spring = {
+    type: 'spring',
+    damping: 11,
+    stiffness: 120,
+  };
+
+  const popupFrames = {
+    visible: {
+      opacity: 1,
+      y: 0,
+      transition: spring,
+    },
+    hidden: {
+      opacity: 0,
+      y: -200,
+      transition: {
+        ease: [1, 0.5, 0, 0],
+      },
+    },
+  };
+
+  return (
+    <FullScreenContainer
+      elevation={15}
+      initial="hidden"
+      animate={visible ? 'visible' : 'hidden'}
+      variants={containerFrames}
+    >
+      <PopupContainer width="450px" variants={popupFrames}>
+        <PopupHeader mb="20px" color="#575E89" lineColor="#B4BEFC">
+          Recent Drafts
+        </PopupHeader>
+        {unavailable ? (
+          <Hint>Drafts can't be stored in this browser</Hint>
+        ) : drafts.length === 0 ? (
+          <Hint>Unsaved local projects will show up here</Hint>
+        ) : (
+          <DraftList>
+            {drafts.map((draft) => (
+              <DraftItem key={draft.id}>
+                <span>
+                  {getDraftTitle(draft)}
+                  <small>
+                    {draft.id === activeDraftId
+                      ? 'Opened in this tab'
+                      : new Date(draft.updatedAt).toLocaleString()}
+                  </small>
+                </span>
+                {draft.id !== activeDraftId && (
+                  <DraftActions>
+                    <button
+                      onClick={async () => {
+                        try {
+                          await deleteDraft(draft.id);
+                        } catch (e) {
+                          console.error(e);
+                        }
+                        await loadDrafts();
+                      }}
+                    >
+                      Delete
+                    </button>
+                    <button
+                      className="open"
+                      onClick={async () => {
+                        try {
+                          await mutator.openDraft(draft);
+                          triggerClose(null);
+                        } catch (e) {
+                          console.error(e);
+                        }
+                      }}
+                    >
+                      Open
+                    </button>
+                  </DraftActions>
+                )}
+              </DraftItem>
+            ))}
+          </DraftList>
+        )}
+        <SpaceBetween>
+          <FlowButton className="grey modal" onClick={triggerClose}>
+            Close
+          </FlowButton>
+        </SpaceBetween>
+      </PopupContainer>
+      <WhiteOverlay onClick={triggerClose} />
+    </FullScreenContainer>
+  );
+};
+
+export default DraftsPopup;
@@ -0,0 +1,174 @@
+import React from 'react';
+import styled from '@emotion/styled';
+import { FaColumns, FaExchangeAlt, FaTimes } from 'react-icons/fa';
+import { useProject } from 'providers/Project/projectHooks';
+import ProblemsBadge from 'components/ProblemsBadge';
+import theme from '../theme';
+
+import { ProjectFile } from '../util/project-files';
+
+const Bar = styled.div`
+  display: flex;
+  align-items: stretch;
+  min-height: 30px;
+  padding: 0 1rem;
+  border-bottom: 1px solid ${theme.colors.borderDark};
+`;
+
+const Tabs = styled.div`
+  display: flex;
+  flex: 1;
+  overflow-x: auto;
+`;
+
+const Tab = styled.div<{ active: boolean; split: boolean }>`
+  display: flex;
+  align-items: center;
+  flex-shrink: 0;
+  max-width: 180px;
+  padding: 0 6px 0 10px;
+  border-bottom: 2px solid
+    ${({ active, split }) =>
+      active
+        ? theme.colors.primary
+        : split
+        ? theme.colors.borderDark
+        : 'transparent'};
+  background: ${({ active }) =>
+    active ? theme.colors.background : 'transparent'};
+  color: ${({ active }) => (active ? theme.colors.text : theme.colors.muted)};
+  font-size: 12px;
+  cursor: pointer;
+  &:hover {
+    background: ${theme.colors.border};
+  }
+  > span {
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+`;
+
+const IconButton = styled.button`
+  display: flex;
+  align-items: center;
+  flex-shrink: 0;
+  margin-left: 4px;
+  padding: 3px;
+  border: none;
+  border-radius: 3px;
+  background: none;
+  color: ${theme.colors.muted};
+  cursor: pointer;
+  &:hover {
+    background: ${theme.colors.borderDark};
+  }
+`;
+
+const PaneHeader = styled.div`
+  display: flex;
+  align-items: center;
+  min-height: 30px;
+  padding: 0 1rem;
+  border-bottom: 1px solid ${theme.colors.borderDark};
+  select {
+    flex: 1;
+    min-width: 0;
+    padding: 2px;
+    border: none;
+    background: none;
+    color: ${theme.colors.text};
+    font-size: 12px;
+  }
+`;
+
+// Accounts are shown with their names, templates with their titles
+export const useFileTitle = () => {
+  const { project, getAccountLabel } = useProject();
+  return (file: ProjectFile) =>
+    file.kind === 'account'
+      ? getAccountLabel(project.accounts[file.index].address).title
+      : file.title;
+};
+
+// Recently opened files, the active one is shown in the main pane
+export const EditorTabs: React.FC<{
+  files: ProjectFile[];
+  activeId: string | null;
+  splitId: string | null;
+  onSelect: (file: ProjectFile) => void;
+  onClose: (file: ProjectFile) => void;
+  onToggleSplit: () => void;
+}> = ({ files, activeId, splitId, onSelect, onClose, onToggleSplit }) => {
+  const getTitle = useFileTitle();
+
+  return (
+    <Bar>
+      <Tabs>
+        {files.map((file) => (
+          <Tab
+            key={file.id}
+            active={file.id === activeId}
+            split={file.id === splitId}
+            title={getTitle(file)}
+            onClick={() => onSelect(file)}
+          >
+            <span>{getTitle(file)}</span>
+            <ProblemsBadge id={file.id} />
+            {files.length > 1 && (
+              <IconButton
+                title="Close tab"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onClose(file);
+                }}
+              >
+                <FaTimes size="10px" />
+              </IconButton>
+            )}
+          </Tab>
+        ))}
+      </Tabs>
+      <IconButton
+        title={splitId ? 'Close split view' : 'Split editor'}
+        onClick={onToggleSplit}
+      >
+        <FaColumns size="14px" />
+      </IconButton>
+    </Bar>
+  );
+};
+
+// Picks the file of the second pane, which can't be the active one
+export const SplitPaneHeader: React.FC<{
+  files: ProjectFile[];
+  splitId: string;
+  onSelect: (file: ProjectFile) => void;
+  onSwap: () => void;
+  onClose: () => void;
+}> = ({ files, splitId, onSelect, onSwap, onClose }) => {
+  const getTitle = useFileTitle();
+
+  return (
+    <PaneHeader>
+      <select
+        value={splitId}
+        onChange={(event) =>
+          onSelect(files.find((file) => file.id === event.target.value))
+        }
+      >
+        {files.map((file) => (
+          <option key={file.id} value={file.id}>
+            {getTitle(file)}
+          </option>
+        ))}
+      </select>
+      <IconButton title="Open in the main pane" onClick={onSwap}>
+        <FaExchangeAlt size="12px" />
+      </IconButton>
+      <IconButton title="Close split view" onClick={onClose}>
+        <FaTimes size="12px" />
+      </IconButton>
+    </PaneHeader>
+  );
+};
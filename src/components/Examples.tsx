@@ -66,6 +66,12 @@ const examples = [
   }
 ];
 
+// Finds the tutorial example a project was created from, if any
+export const findExample = (projectId: string) =>
+  examples.find(
+    example => example.projectLink && example.projectLink.includes(projectId)
+  );
+
 const ExamplesContainer = styled(motion.div)`
   position: fixed;
   display: flex;
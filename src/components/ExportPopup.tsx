@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { uniqueNamesGenerator, adjectives, colors, } from 'unique-names-generator';
 import { FaSyncAlt } from 'react-icons/fa';
 import { useProject } from 'providers/Project/projectHooks';
+import { exportSettings } from 'providers/Project/projectSettings';
 import { default as FlowButton } from 'components/Button';
 
 import {
@@ -34,7 +35,7 @@ const ExportPopup: React.FC<{
   visible: boolean;
   triggerClose?: (e: React.SyntheticEvent) => any;
 }> = ({ visible, triggerClose }) => {
-  const { project } = useProject();
+  const { project, accountProfiles, argumentPresets } = useProject();
   const [processing, setProcessing] = useState(false);
   const [projectName, setProjectName] = useState(generateProjectName());
   const [folderName, setFolderName] = useState('cadence');
@@ -129,7 +130,13 @@ const ExportPopup: React.FC<{
               className="violet modal"
               onClick={async () => {
                 setProcessing(true);
-                await createZip(folderName, projectName, project);
+                await createZip(
+                  folderName,
+                  projectName,
+                  project,
+                  accountProfiles,
+                  exportSettings(project, argumentPresets, accountProfiles),
+                );
                 setProcessing(false);
                 triggerClose(null);
               }}
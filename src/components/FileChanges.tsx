@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import styled from '@emotion/styled';
+import theme from '../theme';
+import DiffView from 'components/DiffView';
+import { countChanges } from '../util/diff';
+import {
+  FileChange,
+  FileKind,
+  FileStatus,
+  getFileKey,
+} from '../util/project-files';
+
+const Root = styled.div`
+  display: grid;
+  grid-gap: 8px;
+  overflow-y: auto;
+`;
+
+const FileHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  cursor: pointer;
+  padding: 6px 8px;
+  border-radius: 4px;
+  font-size: 14px;
+  &:hover {
+    background: ${theme.colors.border};
+  }
+`;
+
+const Stats = styled.span`
+  font-size: 12px;
+  margin-left: 8px;
+  .added {
+    color: #2bb169;
+  }
+  .removed {
+    color: ${theme.colors.error};
+    margin-left: 4px;
+  }
+`;
+
+const Status = styled.small`
+  margin-left: 8px;
+  color: ${theme.colors.heading};
+  text-transform: uppercase;
+  font-size: 10px;
+`;
+
+const Empty = styled.p`
+  color: ${theme.colors.heading};
+  font-size: 14px;
+`;
+
+const KIND_LABELS: { [kind in FileKind]: string } = {
+  account: 'Contract',
+  tx: 'Transaction',
+  script: 'Script',
+};
+
+const STATUS_LABELS: { [status in FileStatus]: string } = {
+  [FileStatus.Added]: 'new',
+  [FileStatus.Removed]: 'removed',
+  [FileStatus.Modified]: 'changed',
+};
+
+type FileChangesProps = {
+  changes: FileChange[];
+  emptyMessage?: string;
+  renderActions?: (change: FileChange) => React.ReactNode;
+};
+
+const FileChanges: React.FC<FileChangesProps> = ({
+  changes,
+  emptyMessage = 'No changes',
+  renderActions,
+}) => {
+  const [expanded, setExpanded] = useState<string[]>([]);
+
+  if (changes.length === 0) {
+    return <Empty>{emptyMessage}</Empty>;
+  }
+
+  const toggle = (key: string) => {
+    setExpanded(
+      expanded.includes(key)
+        ? expanded.filter((item) => item !== key)
+        : [...expanded, key],
+    );
+  };
+
+  return (
+    <Root>
+      {changes.map((change) => {
+        const key = getFileKey(change);
+        const { added, removed } = countChanges(change.lines);
+        return (
+          <div key={key}>
+            <FileHeader onClick={() => toggle(key)}>
+              <span>
+                <strong>{KIND_LABELS[change.kind]}</strong> {change.title}
+                <Status>{STATUS_LABELS[change.status]}</Status>
+                <Stats>
+                  <span className="added">+{added}</span>
+                  <span className="removed">-{removed}</span>
+                </Stats>
+              </span>
+              {renderActions && renderActions(change)}
+            </FileHeader>
+            {expanded.includes(key) && <DiffView lines={change.lines} />}
+          </div>
+        );
+      })}
+    </Root>
+  );
+};
+
+export default FileChanges;
@@ -0,0 +1,201 @@
+import React from 'react';
+import styled from '@emotion/styled';
+import { useProject } from 'providers/Project/projectHooks';
+import { default as FlowButton } from 'components/Button';
+import theme from '../theme';
+
+import {
+  FullScreenContainer,
+  PopupContainer,
+  PopupHeader,
+  WhiteOverlay,
+  SpaceBetween,
+} from 'components/Common';
+
+import {
+  Input,
+  InputBlock,
+  Label,
+} from 'components/Arguments/SingleArgument/styles';
+
+import { BraceStyle, DEFAULT_FORMAT_OPTIONS } from '../util/cadence-formatter';
+
+const Select = styled.select`
+  border: 1px solid #c4c4c4;
+  font-size: 14px;
+  padding: 8px;
+  width: 100%;
+  background: ${theme.colors.background};
+`;
+
+const Checkbox = styled.label`
+  display: flex;
+  align-items: center;
+  margin-bottom: 12px;
+  font-size: 14px;
+  &:last-of-type {
+    margin-bottom: 20px;
+  }
+  cursor: pointer;
+  input {
+    margin-right: 8px;
+  }
+`;
+
+const Hint = styled.p`
+  color: ${theme.colors.heading};
+  font-size: 13px;
+  margin-bottom: 20px;
+`;
+
+const FormatOptionsPopup: React.FC<{
+  visible: boolean;
+  triggerClose?: (e: React.SyntheticEvent) => any;
+}> = ({ visible, triggerClose }) => {
+  const { formatOptions, updateFormatOptions } = useProject();
+
+  const containerFrames = {
+    visible: {
+      display: 'flex',
+      opacity: 1,
+      transition: {
+        staggerChildren: 0.1,
+      },
+      zIndex: 20,
+    },
+    hidden: {
+      opacity: 0,
+      transition: {
+        when: 'afterChildren',
+        staggerChildren: 0,
+        staggerDirection: -1,
+      },
+      zIndex: -1,
+    },
+  };
+
+  const spring = {
+    type: 'spring',
+    damping: 11,
+    stiffness: 120,
+  };
+
+  const popupFrames = {
+    visible: {
+      opacity: 1,
+      y: 0,
+      transition: spring,
+    },
+    hidden: {
+      opacity: 0,
+      y: -200,
+      transition: {
+        ease: [1, 0.5, 0, 0],
+      },
+    },
+  };
+
+  return (
+    <FullScreenContainer
+      elevation={15}
+      initial="hidden"
+      animate={visible ? 'visible' : 'hidden'}
+      variants={containerFrames}
+    >
+      <PopupContainer width="500px" variants={popupFrames}>
+        <PopupHeader mb="20px" color="#575E89" lineColor="#B4BEFC">
+          Code Formatting
+        </PopupHeader>
+        <Hint>
+          Format the open file with Shift+Alt+F or the editor's context menu.
+        </Hint>
+        <InputBlock mb={'20px'}>
+          <Label>Indent Size</Label>
+          <Input
+            type="number"
+            min={1}
+            max={8}
+            value={formatOptions.indentSize}
+            disabled={!formatOptions.insertSpaces}
+            onChange={(event) => {
+              const indentSize = parseInt(event.target.value, 10);
+              if (indentSize > 0 && indentSize <= 8) {
+                updateFormatOptions({ indentSize });
+              }
+            }}
+          />
+        </InputBlock>
+        <InputBlock mb={'20px'}>
+          <Label>Opening Braces</Label>
+          <Select
+            value={formatOptions.braceStyle}
+            onChange={(event) =>
+              updateFormatOptions({
+                braceStyle: event.target.value as BraceStyle,
+              })
+            }
+          >
+            <option value="sameLine">On the same line</option>
+            <option value="nextLine">On the next line</option>
+          </Select>
+        </InputBlock>
+        <Checkbox>
+          <input
+            type="checkbox"
+            checked={!formatOptions.insertSpaces}
+            onChange={(event) =>
+              updateFormatOptions({ insertSpaces: !event.target.checked })
+            }
+          />
+          Indent with tabs
+        </Checkbox>
+        <Checkbox>
+          <input
+            type="checkbox"
+            checked={formatOptions.spaceAroundOperators}
+            onChange={(event) =>
+              updateFormatOptions({
+                spaceAroundOperators: event.target.checked,
+              })
+            }
+          />
+          Spaces around assignments and comparisons
+        </Checkbox>
+        <Checkbox>
+          <input
+            type="checkbox"
+            checked={formatOptions.spaceAfterComma}
+            onChange={(event) =>
+              updateFormatOptions({ spaceAfterComma: event.target.checked })
+            }
+          />
+          Space after commas
+        </Checkbox>
+        <Checkbox>
+          <input
+            type="checkbox"
+            checked={formatOptions.formatOnSave}
+            onChange={(event) =>
+              updateFormatOptions({ formatOnSave: event.target.checked })
+            }
+          />
+          Format on save (Ctrl+S or Cmd+S)
+        </Checkbox>
+        <SpaceBetween>
+          <FlowButton
+            className="grey modal"
+            onClick={() => updateFormatOptions(DEFAULT_FORMAT_OPTIONS)}
+          >
+            Reset
+          </FlowButton>
+          <FlowButton className="violet modal" onClick={triggerClose}>
+            Done
+          </FlowButton>
+        </SpaceBetween>
+      </PopupContainer>
+      <WhiteOverlay onClick={triggerClose} />
+    </FullScreenContainer>
+  );
+};
+
+export default FormatOptionsPopup;
@@ -0,0 +1,246 @@
+import React, { useState, useEffect } from 'react';
+import styled from '@emotion/styled';
+import { useProject } from 'providers/Project/projectHooks';
+import { default as FlowButton } from 'components/Button';
+import theme from '../theme';
+
+import {
+  FullScreenContainer,
+  PopupContainer,
+  PopupHeader,
+  WhiteOverlay,
+  SpaceBetween,
+} from 'components/Common';
+
+import { getContractName } from '../util/parse-contract-name';
+import { getAccountTitle } from '../util/project-files';
+import { buildProjectFromFlowConfig, isFlowConfig } from '../util/flow-config';
+import {
+  buildProject,
+  ImportedProject,
+  isSettingsFile,
+  readFiles,
+  readZip,
+  SourceFile,
+} from '../util/project-import';
+
+const FilePicker = styled.label`
+  display: block;
+  padding: 12px;
+  margin-bottom: 12px;
+  border: 1px dashed ${theme.colors.borderDark};
+  border-radius: 4px;
+  font-size: 14px;
+  text-align: center;
+  cursor: pointer;
+  &:hover {
+    background: ${theme.colors.border};
+  }
+  input {
+    display: none;
+  }
+`;
+
+const Summary = styled.ul`
+  margin: 0 0 20px 0;
+  padding-left: 20px;
+  font-size: 14px;
+  max-height: 300px;
+  overflow-y: auto;
+  li {
+    margin-bottom: 4px;
+  }
+`;
+
+const Hint = styled.p<{ error?: boolean }>`
+  color: ${({ error }) => (error ? theme.colors.error : theme.colors.heading)};
+  font-size: 14px;
+  margin-bottom: 20px;
+`;
+
+const ImportPopup: React.FC<{
+  visible: boolean;
+  triggerClose?: (e: React.SyntheticEvent) => any;
+}> = ({ visible, triggerClose }) => {
+  const { project, mutator } = useProject();
+  const [imported, setImported] = useState<ImportedProject | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setImported(null);
+      setError(null);
+    }
+  }, [visible]);
+
+  const accountsAmount = project ? project.accounts.length : 0;
+
+  const load = async (read: () => Promise<SourceFile[]>) => {
+    setProcessing(true);
+    setError(null);
+    try {
+      const files = await read();
+      if (files.length === 0) {
+        setImported(null);
+        setError('No Cadence files were found');
+      } else {
+        const configFile = files.find(isFlowConfig);
+        const settingsFile = files.find(isSettingsFile);
+        const built = configFile
+          ? buildProjectFromFlowConfig(
+              configFile,
+              files.filter((file) => file !== configFile),
+              accountsAmount,
+            )
+          : buildProject(files, accountsAmount);
+        setImported(
+          settingsFile ? { ...built, settings: settingsFile.code } : built,
+        );
+      }
+    } catch (e) {
+      console.error(e);
+      setImported(null);
+      setError("Files can't be read, please check the archive");
+    }
+    setProcessing(false);
+  };
+
+  const containerFrames = {
+    visible: {
+      display: 'flex',
+      opacity: 1,
+      transition: {
+        staggerChildren: 0.1,
+      },
+      zIndex: 20,
+    },
+    hidden: {
+      opacity: 0,
+      transition: {
+        when: 'afterChildren',
+        staggerChildren: 0,
+        staggerDirection: -1,
+      },
+      zIndex: -1,
+    },
+  };
+
+  const spring = {
+    type: 'spring',
+    damping: 11,
+    stiffness: 120,
+  };
+
+  const popupFrames = {
+    visible: {
+      opacity: 1,
+      y: 0,
+      transition: spring,
+    },
+    hidden: {
+      opacity: 0,
+      y: -200,
+      transition: {
+        ease: [1, 0.5, 0, 0],
+      },
+    },
+  };
+
+  return (
+    <FullScreenContainer
+      elevation={15}
+      initial="hidden"
+      animate={visible ? 'visible' : 'hidden'}
+      variants={containerFrames}
+    >
+      <PopupContainer width="450px" variants={popupFrames}>
+        <PopupHeader mb="20px" color="#575E89" lineColor="#B4BEFC">
+          Import Project
+        </PopupHeader>
+        <FilePicker>
+          Select a zip archive
+          <input
+            type="file"
+            accept=".zip"
+            onChange={(event) => {
+              const file = event.target.files[0];
+              event.target.value = '';
+              if (file) {
+                load(() => readZip(file));
+              }
+            }}
+          />
+        </FilePicker>
+        <FilePicker>
+          Select a folder with .cdc files or flow.json
+          <input
+            type="file"
+            multiple
+            {...{ webkitdirectory: '', directory: '' }}
+            onChange={(event) => {
+              const files = Array.from(event.target.files);
+              event.target.value = '';
+              load(() => readFiles(files));
+            }}
+          />
+        </FilePicker>
+        {error && <Hint error>{error}</Hint>}
+        {imported && (
+          <Summary>
+            {imported.accounts.map(
+              (code, index) =>
+                code && (
+                  <li key={`account-${index}`}>
+                    Contract <strong>{getContractName(code)}</strong> on account{' '}
+                    {getAccountTitle(project.accounts[index].address)}
+                  </li>
+                ),
+            )}
+            {imported.transactionTemplates.map((template, index) => (
+              <li key={`tx-${index}`}>
+                Transaction <strong>{template.title}</strong>
+              </li>
+            ))}
+            {imported.scriptTemplates.map((template, index) => (
+              <li key={`script-${index}`}>
+                Script <strong>{template.title}</strong>
+              </li>
+            ))}
+            {imported.skipped.map((path) => (
+              <li key={path}>
+                Skipped <strong>{path}</strong>
+              </li>
+            ))}
+          </Summary>
+        )}
+        {imported && (
+          <Hint>The files will be opened as a new local project</Hint>
+        )}
+        {processing ? (
+          <p>Processing...</p>
+        ) : (
+          <SpaceBetween>
+            <FlowButton className="grey modal" onClick={triggerClose}>
+              Close
+            </FlowButton>
+            {imported && (
+              <FlowButton
+                className="violet modal"
+                onClick={async () => {
+                  await mutator.importProject(imported);
+                  triggerClose(null);
+                }}
+              >
+                Import
+              </FlowButton>
+            )}
+          </SpaceBetween>
+        )}
+      </PopupContainer>
+      <WhiteOverlay onClick={triggerClose} />
+    </FullScreenContainer>
+  );
+};
+
+export default ImportPopup;
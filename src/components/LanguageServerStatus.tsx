@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styled from '@emotion/styled';
+import { useProject } from 'providers/Project/projectHooks';
+import { default as FlowButton } from 'components/Button';
+import theme from '../theme';
+
+import {
+  FullScreenContainer,
+  PopupContainer,
+  PopupHeader,
+  WhiteOverlay,
+  SpaceBetween,
+} from 'components/Common';
+
+import {
+  LanguageServerStatus as Status,
+  LogEntry,
+} from '../util/language-session';
+
+const STATUS_LABELS = {
+  [Status.Starting]: 'Starting',
+  [Status.Running]: 'Running',
+  [Status.Restarting]: 'Restarting',
+  [Status.Stopped]: 'Stopped',
+};
+
+const STATUS_COLORS = {
+  [Status.Starting]: '#f5a623',
+  [Status.Running]: '#2bb169',
+  [Status.Restarting]: theme.colors.error,
+  [Status.Stopped]: theme.colors.heading,
+};
+
+const Indicator = styled.button`
+  display: inline-flex;
+  align-items: center;
+  margin-right: 1rem;
+  padding: 0;
+  border: none;
+  background: none;
+  color: inherit;
+  font: inherit;
+  letter-spacing: inherit;
+  text-transform: inherit;
+  cursor: pointer;
+`;
+
+const Dot = styled.span<{ color: string }>`
+  display: inline-block;
+  width: 8px;
+  height: 8px;
+  margin-right: 6px;
+  border-radius: 50%;
+  background: ${({ color }) => color};
+`;
+
+const WidePopup = styled(PopupContainer)`
+  max-width: 70%;
+  max-height: 80%;
+`;
+
+const Log = styled.pre`
+  flex: 1;
+  min-height: 200px;
+  margin: 0 0 20px 0;
+  padding: 10px;
+  overflow: auto;
+  border-radius: 4px;
+  background: ${theme.colors.border};
+  font-family: ${theme.fonts.monospace};
+  font-size: 12px;
+  white-space: pre-wrap;
+`;
+
+const LogLine = styled.div<{ source: string }>`
+  color: ${({ source }) =>
+    source === 'stderr'
+      ? theme.colors.error
+      : source === 'playground'
+      ? theme.colors.muted
+      : theme.colors.text};
+`;
+
+const formatEntry = ({ timestamp, source, text }: LogEntry) =>
+  `[${timestamp.toLocaleTimeString()}] ${source}: ${text}`;
+
+export const LanguageServerLogPopup: React.FC<{
+  visible: boolean;
+  triggerClose?: (e: React.SyntheticEvent) => any;
+}> = ({ visible, triggerClose }) => {
+  const { languageSession } = useProject();
+  const [log, setLog] = useState(languageSession.log);
+
+  useEffect(() => {
+    setLog(languageSession.log);
+    return languageSession.onLog(setLog);
+  }, [languageSession]);
+
+  const bottom = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (visible && bottom.current) {
+      bottom.current.scrollIntoView();
+    }
+  }, [visible, log]);
+
+  const containerFrames = {
+    visible: {
+      display: 'flex',
+      opacity: 1,
+      transition: {
+        staggerChildren: 0.1,
+      },
+      zIndex: 20,
+    },
+    hidden: {
+      opacity: 0,
+      transition: {
+        when: 'afterChildren',
+        staggerChildren: 0,
+        staggerDirection: -1,
+      },
+      zIndex: -1,
+    },
+  };
+
+  const spring = {
+    type: 'spring',
+    damping: 11,
+    stiffness: 120,
+  };
+
+  const popupFrames = {
+    visible: {
+      opacity: 1,
+      y: 0,
+      transition: spring,
+    },
+    hidden: {
+      opacity: 0,
+      y: -200,
+      transition: {
+        ease: [1, 0.5, 0, 0],
+      },
+    },
+  };
+
+  return (
+    <FullScreenContainer
+      elevation={15}
+      initial="hidden"
+      animate={visible ? 'visible' : 'hidden'}
+      variants={containerFrames}
+    >
+      <WidePopup width="900px" variants={popupFrames}>
+        <PopupHeader mb="20px" color="#575E89" lineColor="#B4BEFC">
+          Language Server Log
+        </PopupHeader>
+        <Log>
+          {log.length === 0 && 'The language server has not written any output'}
+          {log.map((entry, index) => (
+            <LogLine key={index} source={entry.source}>
+              {formatEntry(entry)}
+            </LogLine>
+          ))}
+          <div ref={bottom} />
+        </Log>
+        <SpaceBetween>
+          <FlowButton className="grey modal" onClick={triggerClose}>
+            Close
+          </FlowButton>
+          <FlowButton
+            className="violet modal"
+            disabled={log.length === 0}
+            onClick={() =>
+              navigator.clipboard.writeText(log.map(formatEntry).join('\n'))
+            }
+          >
+            Copy
+          </FlowButton>
+        </SpaceBetween>
+      </WidePopup>
+      <WhiteOverlay onClick={triggerClose} />
+    </FullScreenContainer>
+  );
+};
+
+// Shows whether the language server is running,
+// clicking it opens the output of the server
+export const LanguageServerStatus: React.FC<{ onClick: () => void }> = ({
+  onClick,
+}) => {
+  const { languageSession } = useProject();
+  const [status, setStatus] = useState(languageSession.status);
+
+  useEffect(() => {
+    setStatus(languageSession.status);
+    return languageSession.onStatusChange(setStatus);
+  }, [languageSession]);
+
+  return (
+    <Indicator title="Show the language server log" onClick={onClick}>
+      <Dot color={STATUS_COLORS[status]} />
+      Language Server: {STATUS_LABELS[status]}
+    </Indicator>
+  );
+};
@@ -0,0 +1,302 @@
+import React, { useState, useEffect } from 'react';
+import styled from '@emotion/styled';
+import { FaExternalLinkAlt } from 'react-icons/fa';
+import { useProject } from 'providers/Project/projectHooks';
+import { default as FlowButton } from 'components/Button';
+import FileChanges from 'components/FileChanges';
+import { findExample } from 'components/Examples';
+import { Project } from 'api/apollo/generated/graphql';
+import theme from '../theme';
+
+import {
+  FullScreenContainer,
+  PopupContainer,
+  PopupHeader,
+  WhiteOverlay,
+  SpaceBetween,
+} from 'components/Common';
+
+import {
+  diffProjectFiles,
+  FileChange,
+  FileStatus,
+  getFileKey,
+  getProjectFiles,
+  ProjectFile,
+} from '../util/project-files';
+
+const WidePopup = styled(PopupContainer)`
+  max-width: 70%;
+  max-height: 80%;
+`;
+
+const Columns = styled.div`
+  display: grid;
+  grid-template-columns: 220px 1fr;
+  grid-gap: 20px;
+  min-height: 0;
+  flex: 1;
+  margin-bottom: 20px;
+`;
+
+const AncestorList = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+  overflow-y: auto;
+`;
+
+const AncestorItem = styled.li<{ selected: boolean }>`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 8px;
+  border-radius: 4px;
+  cursor: pointer;
+  font-size: 14px;
+  background: ${({ selected }) =>
+    selected ? theme.colors.borderDark : 'transparent'};
+  &:hover {
+    background: ${theme.colors.border};
+  }
+  small {
+    display: block;
+    color: ${theme.colors.heading};
+  }
+  a {
+    color: ${theme.colors.heading};
+    font-size: 12px;
+  }
+`;
+
+const Details = styled.div`
+  display: flex;
+  flex-direction: column;
+  min-height: 0;
+  overflow-y: auto;
+`;
+
+const Hint = styled.p`
+  color: ${theme.colors.heading};
+  font-size: 14px;
+`;
+
+const PullButton = styled.button`
+  border: none;
+  border-radius: 4px;
+  padding: 2px 8px;
+  font-size: 12px;
+  cursor: pointer;
+  background-color: #bdc4f4;
+  color: #575e89;
+`;
+
+const getAncestorTitle = (ancestor: Project) => {
+  const example = findExample(ancestor.id);
+  if (example) {
+    return example.title.trim();
+  }
+  return ancestor.title || `Project ${ancestor.id.slice(0, 8)}`;
+};
+
+const getDistanceLabel = (distance: number) => {
+  switch (distance) {
+    case 0:
+      return 'Parent';
+    case 1:
+      return 'Grandparent';
+    default:
+      return `${distance + 1} forks up`;
+  }
+};
+
+const LineagePopup: React.FC<{
+  visible: boolean;
+  triggerClose?: (e: React.SyntheticEvent) => any;
+}> = ({ visible, triggerClose }) => {
+  const { project, mutator } = useProject();
+  const [lineage, setLineage] = useState<Project[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    setLoading(true);
+    setSelectedIndex(0);
+    mutator
+      .getLineage()
+      .then(setLineage)
+      .catch((e) => console.error(e))
+      .finally(() => setLoading(false));
+  }, [visible, project && project.id]);
+
+  const selected = lineage[selectedIndex];
+  const ancestorFiles = selected ? getProjectFiles(selected) : [];
+  const changes =
+    selected && project
+      ? diffProjectFiles(ancestorFiles, getProjectFiles(project))
+      : [];
+
+  // Files added in the fork have no counterpart to pull
+  const findAncestorFile = (change: FileChange): ProjectFile | undefined =>
+    change.status === FileStatus.Added
+      ? undefined
+      : ancestorFiles.find((file) => getFileKey(file) === getFileKey(change));
+
+  const pull = async (files: ProjectFile[], label: string) => {
+    setProcessing(true);
+    try {
+      await mutator.pullFiles(files, label);
+    } catch (e) {
+      console.error(e);
+    }
+    setProcessing(false);
+  };
+
+  const pullableFiles = changes
+    .map(findAncestorFile)
+    .filter((file): file is ProjectFile => !!file);
+
+  const containerFrames = {
+    visible: {
+      display: 'flex',
+      opacity: 1,
+      transition: {
+        staggerChildren: 0.1,
+      },
+      zIndex: 20,
+    },
+    hidden: {
+      opacity: 0,
+      transition: {
+        when: 'afterChildren',
+        staggerChildren: 0,
+        staggerDirection: -1,
+      },
+      zIndex: -1,
+    },
+  };
+
+  const spring = {
+    type: 'spring',
+    damping: 11,
+    stiffness: 120,
+  };
+
+  const popupFrames = {
+    visible: {
+      opacity: 1,
+      y: 0,
+      transition: spring,
+    },
+    hidden: {
+      opacity: 0,
+      y: -200,
+      transition: {
+        ease: [1, 0.5, 0, 0],
+      },
+    },
+  };
+
+  return (
+    <FullScreenContainer
+      elevation={15}
+      initial="hidden"
+      animate={visible ? 'visible' : 'hidden'}
+      variants={containerFrames}
+    >
+      <WidePopup width="900px" variants={popupFrames}>
+        <PopupHeader mb="20px" color="#575E89" lineColor="#B4BEFC">
+          Project Lineage
+        </PopupHeader>
+        <Columns>
+          <AncestorList>
+            {loading && <Hint>Loading...</Hint>}
+            {!loading && lineage.length === 0 && (
+              <Hint>This project is not a fork</Hint>
+            )}
+            {lineage.map((ancestor, index) => (
+              <AncestorItem
+                key={ancestor.id}
+                selected={index === selectedIndex}
+                onClick={() => setSelectedIndex(index)}
+              >
+                <span>
+                  {getAncestorTitle(ancestor)}
+                  <small>{getDistanceLabel(index)}</small>
+                </span>
+                <a
+                  href={`/${ancestor.id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title="Open project"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <FaExternalLinkAlt />
+                </a>
+              </AncestorItem>
+            ))}
+          </AncestorList>
+          <Details>
+            {selected && (
+              <>
+                <Hint>
+                  Changes made compared to {getAncestorTitle(selected)}
+                </Hint>
+                <FileChanges
+                  changes={changes}
+                  emptyMessage="The project matches its ancestor"
+                  renderActions={(change) => {
+                    const file = findAncestorFile(change);
+                    return (
+                      file && (
+                        <PullButton
+                          disabled={processing}
+                          title="Replace this file with the ancestor version"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            pull([file], `Pull "${file.title}" from ancestor`);
+                          }}
+                        >
+                          Pull
+                        </PullButton>
+                      )
+                    );
+                  }}
+                />
+              </>
+            )}
+          </Details>
+        </Columns>
+        {processing ? (
+          <p>Processing...</p>
+        ) : (
+          <SpaceBetween>
+            <FlowButton className="grey modal" onClick={triggerClose}>
+              Close
+            </FlowButton>
+            {pullableFiles.length > 0 && (
+              <FlowButton
+                className="violet"
+                onClick={() =>
+                  pull(
+                    pullableFiles,
+                    `Pull changes from ${getAncestorTitle(selected)}`,
+                  )
+                }
+              >
+                Pull All Changes
+              </FlowButton>
+            )}
+          </SpaceBetween>
+        )}
+      </WidePopup>
+      <WhiteOverlay onClick={triggerClose} />
+    </FullScreenContainer>
+  );
+};
+
+export default LineagePopup;
@@ -11,6 +11,7 @@ import {SidebarItemEdit} from "layout/SidebarItemEdit";
 import {SidebarItemDelete} from "layout/SidebarItemDelete";
 import useKeyPress from "../hooks/useKeyPress";
 import { ExportButton } from "components/ExportButton";
+import ProblemsBadge from "components/ProblemsBadge";
 import { getParams } from "../util/url";
 import { useProject } from "providers/Project/projectHooks";
 import { EntityType } from "providers/Project";
@@ -121,6 +122,7 @@ const MenuList: React.FC<MenuListProps> = ({
                   }
                 }}
               />
+              <ProblemsBadge id={item.id} />
               {isActive && (
                 <>
                   <SidebarItemEdit onClick={() => toggleEditing(i, item.title)}>
@@ -0,0 +1,100 @@
+import React from 'react';
+import styled from '@emotion/styled';
+import { FaTimes } from 'react-icons/fa';
+import { useProject } from 'providers/Project/projectHooks';
+import { getFileKind } from 'providers/Project';
+import { SidebarSection } from 'layout/SidebarSection';
+import { SidebarHeader } from 'layout/SidebarHeader';
+import { SidebarItemInsert } from 'layout/SidebarItemInsert';
+import useDocumentOutline from '../hooks/useDocumentOutline';
+import theme from '../theme';
+
+import { getProjectFiles } from '../util/project-files';
+import { OUTLINE_KIND_LABELS, OutlineSymbol } from '../util/cadence-outline';
+
+const Results = styled.ul`
+  max-height: 40vh;
+  overflow-y: auto;
+`;
+
+const Empty = styled.p`
+  padding: 0 1rem 0.5rem 1rem;
+  font-size: 13px;
+  color: ${theme.colors.heading};
+`;
+
+const SymbolLine = styled.li<{ level: number }>`
+  display: flex;
+  align-items: baseline;
+  padding: 2px 1rem 2px ${({ level }) => 1 + level}rem;
+  font-size: 12px;
+  cursor: pointer;
+  &:hover {
+    background: ${theme.colors.border};
+  }
+  span {
+    font-family: ${theme.fonts.monospace};
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+  small {
+    flex-shrink: 0;
+    margin-left: 6px;
+    color: ${theme.colors.heading};
+  }
+`;
+
+// Symbols of the nested declarations are listed after their parents
+const flattenSymbols = (
+  symbols: OutlineSymbol[],
+  level = 0,
+): { symbol: OutlineSymbol; level: number }[] =>
+  symbols.reduce(
+    (acc, symbol) => [
+      ...acc,
+      { symbol, level },
+      ...flattenSymbols(symbol.children, level + 1),
+    ],
+    [],
+  );
+
+const OutlinePanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { project, active, revealInEditor } = useProject();
+
+  const file = getProjectFiles(project).find(
+    (item) =>
+      item.kind === getFileKind(active.type) && item.index === active.index,
+  );
+  const symbols = useDocumentOutline(
+    file ? file.id : null,
+    file ? file.code : '',
+  );
+
+  return (
+    <SidebarSection>
+      <SidebarHeader>
+        Outline
+        <SidebarItemInsert onClick={onClose} title="Close outline">
+          <FaTimes size="14px" />
+        </SidebarItemInsert>
+      </SidebarHeader>
+      {symbols.length === 0 && <Empty>No declarations in this file</Empty>}
+      <Results>
+        {flattenSymbols(symbols).map(({ symbol, level }, index) => (
+          <SymbolLine
+            key={index}
+            level={level}
+            title={`Line ${symbol.selectionRange.startLineNumber}`}
+            onClick={() => revealInEditor(file, symbol.selectionRange)}
+          >
+            <span>{symbol.name}</span>
+            <small>{OUTLINE_KIND_LABELS[symbol.kind]}</small>
+          </SymbolLine>
+        ))}
+      </Results>
+    </SidebarSection>
+  );
+};
+
+export default OutlinePanel;
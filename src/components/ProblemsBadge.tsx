@@ -0,0 +1,38 @@
+import React from 'react';
+import styled from '@emotion/styled';
+import { useProject } from 'providers/Project/projectHooks';
+import { Badge } from 'components/Arguments/styles';
+
+const Root = styled(Badge)`
+  flex-shrink: 0;
+  margin-left: 0.5rem;
+`;
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Number of errors of the file, or of its warnings if there are no errors
+const ProblemsBadge: React.FC<{ id: string }> = ({ id }) => {
+  const { problems } = useProject();
+  const list = problems[id];
+  if (!list) {
+    return null;
+  }
+
+  const errors = list.error.length;
+  const warnings = list.warning.length;
+  if (errors === 0 && warnings === 0) {
+    return null;
+  }
+
+  return (
+    <Root
+      className={errors > 0 ? '' : 'warning'}
+      title={`${plural(errors, 'error')}, ${plural(warnings, 'warning')}`}
+    >
+      <span>{errors > 0 ? errors : warnings}</span>
+    </Root>
+  );
+};
+
+export default ProblemsBadge;
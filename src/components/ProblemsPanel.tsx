@@ -0,0 +1,150 @@
+import React from 'react';
+import styled from '@emotion/styled';
+import { FaTimes } from 'react-icons/fa';
+import { useProject } from 'providers/Project/projectHooks';
+import { SidebarSection } from 'layout/SidebarSection';
+import { SidebarHeader } from 'layout/SidebarHeader';
+import { SidebarItemInsert } from 'layout/SidebarItemInsert';
+import { renderMessage } from 'components/Arguments/components';
+import { ErrorMessage } from 'components/Arguments/styles';
+import theme from '../theme';
+
+import { getProjectFiles, ProjectFile } from '../util/project-files';
+import { CadenceProblem, ProblemType } from '../util/language-syntax-errors';
+
+// Same order as problems are listed in the editor
+const PROBLEM_TYPES = [
+  ProblemType.Error,
+  ProblemType.Warning,
+  ProblemType.Info,
+  ProblemType.Hint,
+];
+
+const PROBLEM_COLORS: { [type: string]: string } = {
+  [ProblemType.Error]: theme.colors.error,
+  [ProblemType.Warning]: '#eea91e',
+  [ProblemType.Info]: '#55ee1e',
+  [ProblemType.Hint]: theme.colors.heading,
+};
+
+const Results = styled.ul`
+  max-height: 40vh;
+  overflow-y: auto;
+`;
+
+const Empty = styled.p`
+  padding: 0 1rem 0.5rem 1rem;
+  font-size: 13px;
+  color: ${theme.colors.heading};
+`;
+
+const FileTitle = styled.div`
+  padding: 4px 1rem;
+  font-size: 13px;
+  font-weight: 600;
+  color: ${theme.colors.text};
+  small {
+    margin-left: 6px;
+    color: ${theme.colors.heading};
+  }
+`;
+
+const ProblemLine = styled.li<{ type: string }>`
+  display: flex;
+  align-items: baseline;
+  padding: 2px 1rem 2px 1.5rem;
+  font-size: 12px;
+  cursor: pointer;
+  &:hover {
+    background: ${theme.colors.border};
+  }
+  &:before {
+    content: '';
+    flex-shrink: 0;
+    width: 8px;
+    height: 8px;
+    margin-right: 6px;
+    border-radius: 50%;
+    background: ${({ type }) => PROBLEM_COLORS[type]};
+  }
+  p {
+    flex: 1;
+  }
+  small {
+    flex-shrink: 0;
+    margin-left: 6px;
+    color: ${theme.colors.heading};
+  }
+`;
+
+const ProblemsPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { project, problems, revealInEditor, getAccountLabel } = useProject();
+
+  const getFileTitle = (file: ProjectFile) =>
+    file.kind === 'account'
+      ? getAccountLabel(project.accounts[file.index].address).title
+      : file.title;
+
+  const results = getProjectFiles(project)
+    .map((file) => {
+      const list = problems[file.id];
+      const fileProblems: CadenceProblem[] = list
+        ? PROBLEM_TYPES.reduce((acc, type) => [...acc, ...list[type]], [])
+        : [];
+      return { file, problems: fileProblems };
+    })
+    .filter((result) => result.problems.length > 0);
+
+  const show = (file: ProjectFile, problem: CadenceProblem) => {
+    const { startLine, startColumn, endLine, endColumn } = problem.highlight;
+    revealInEditor(
+      file,
+      {
+        startLineNumber: startLine,
+        startColumn,
+        endLineNumber: endLine,
+        endColumn,
+      },
+      problem.highlight,
+    );
+  };
+
+  return (
+    <SidebarSection>
+      <SidebarHeader>
+        Problems
+        <SidebarItemInsert onClick={onClose} title="Close problems">
+          <FaTimes size="14px" />
+        </SidebarItemInsert>
+      </SidebarHeader>
+      {results.length === 0 && <Empty>No problems in the project</Empty>}
+      <Results>
+        {results.map(({ file, problems: fileProblems }) => (
+          <li key={`${file.kind}-${file.id}`}>
+            <FileTitle>
+              {getFileTitle(file)}
+              <small>{fileProblems.length}</small>
+            </FileTitle>
+            <ul>
+              {fileProblems.map((problem, index) => (
+                <ProblemLine
+                  key={index}
+                  type={problem.type}
+                  title={problem.type}
+                  onClick={() => show(file, problem)}
+                >
+                  <ErrorMessage>{renderMessage(problem.message)}</ErrorMessage>
+                  <small>
+                    {problem.position.lineNumber}:{problem.position.column}
+                  </small>
+                </ProblemLine>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </Results>
+    </SidebarSection>
+  );
+};
+
+export default ProblemsPanel;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import styled from '@emotion/styled';
+import { default as FlowButton } from 'components/Button';
+import DiffView from 'components/DiffView';
+import theme from '../theme';
+import { countChanges, diffLines } from '../util/diff';
+
+import {
+  FullScreenContainer,
+  PopupContainer,
+  PopupHeader,
+  SpaceBetween,
+} from 'components/Common';
+
+const WidePopup = styled(PopupContainer)`
+  max-width: 60%;
+`;
+
+const Hint = styled.p`
+  color: ${theme.colors.heading};
+  font-size: 14px;
+  margin-bottom: 12px;
+`;
+
+const ToggleButton = styled.button`
+  margin-bottom: 12px;
+  padding: 0;
+  border: none;
+  background: none;
+  color: ${theme.colors.muted};
+  font-size: 13px;
+  text-decoration: underline;
+  cursor: pointer;
+`;
+
+// Confirms redeploying a contract, which clears the state of all accounts.
+// The changes to the deployed code can be reviewed before
+const RedeployPopup: React.FC<{
+  draftCode: string;
+  deployedCode: string;
+  onConfirm: (confirmed: boolean) => void;
+}> = ({ draftCode, deployedCode, onConfirm }) => {
+  const [showChanges, setShowChanges] = useState(false);
+  const lines = diffLines(deployedCode, draftCode);
+  const { added, removed } = countChanges(lines);
+
+  return (
+    <FullScreenContainer elevation={20}>
+      <WidePopup width="800px">
+        <PopupHeader mb="12px" color="#575E89" lineColor="#B4BEFC">
+          Redeploy Contract
+        </PopupHeader>
+        <Hint>
+          Redeploying will clear the state of all accounts.{' '}
+          {added + removed > 0
+            ? `The draft adds ${added} and removes ${removed} lines of the deployed code.`
+            : 'The draft is the same as the deployed code.'}
+        </Hint>
+        {added + removed > 0 && (
+          <ToggleButton onClick={() => setShowChanges(!showChanges)}>
+            {showChanges ? 'Hide changes' : 'Show changes'}
+          </ToggleButton>
+        )}
+        {showChanges && <DiffView lines={lines} />}
+        <SpaceBetween style={{ marginTop: '20px' }}>
+          <FlowButton className="grey" onClick={() => onConfirm(false)}>
+            Cancel
+          </FlowButton>
+          <FlowButton className="violet" onClick={() => onConfirm(true)}>
+            Redeploy
+          </FlowButton>
+        </SpaceBetween>
+      </WidePopup>
+    </FullScreenContainer>
+  );
+};
+
+export default RedeployPopup;
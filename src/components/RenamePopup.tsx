@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import styled from '@emotion/styled';
+import { useProject } from 'providers/Project/projectHooks';
+import { default as FlowButton } from 'components/Button';
+import FileChanges from 'components/FileChanges';
+import theme from '../theme';
+
+import {
+  FullScreenContainer,
+  PopupContainer,
+  PopupHeader,
+  WhiteOverlay,
+  SpaceBetween,
+} from 'components/Common';
+
+import {
+  Input,
+  InputBlock,
+  Label,
+} from 'components/Arguments/SingleArgument/styles';
+
+import { diffProjectFiles } from '../util/project-files';
+import { isIdentifier } from '../util/cadence-symbols';
+import { renameInFiles, SymbolRename } from '../util/project-rename';
+
+const WidePopup = styled(PopupContainer)`
+  max-width: 70%;
+  max-height: 80%;
+`;
+
+const Preview = styled.div`
+  display: flex;
+  flex-direction: column;
+  min-height: 0;
+  flex: 1;
+  margin-bottom: 20px;
+  overflow-y: auto;
+`;
+
+const Hint = styled.p<{ error?: boolean }>`
+  color: ${({ error }) => (error ? theme.colors.error : theme.colors.heading)};
+  font-size: 14px;
+  margin-bottom: 10px;
+`;
+
+// Previews the edits of renaming a symbol in all files of the project,
+// applied as one operation, which can be undone
+const RenamePopup: React.FC<{
+  symbol: SymbolRename | null;
+  triggerClose?: (e: React.SyntheticEvent) => any;
+}> = ({ symbol, triggerClose }) => {
+  const { mutator } = useProject();
+  const [newName, setNewName] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    setNewName(symbol ? symbol.name : '');
+  }, [symbol]);
+
+  const visible = !!symbol;
+  const renames = symbol ? symbol.renames : [];
+  const oldFiles = renames.map((rename) => rename.file);
+  const isValid = isIdentifier(newName);
+  const canApply = visible && isValid && newName !== symbol.name;
+  const newFiles = canApply ? renameInFiles(renames, newName) : oldFiles;
+  const occurrences = renames.reduce(
+    (count, rename) => count + rename.ranges.length,
+    0,
+  );
+
+  const apply = async () => {
+    setProcessing(true);
+    try {
+      await mutator.pullFiles(newFiles, `Rename ${symbol.name} to ${newName}`);
+      triggerClose(null);
+    } catch (e) {
+      console.error(e);
+    }
+    setProcessing(false);
+  };
+
+  const containerFrames = {
+    visible: {
+      display: 'flex',
+      opacity: 1,
+      transition: {
+        staggerChildren: 0.1,
+      },
+      zIndex: 20,
+    },
+    hidden: {
+      opacity: 0,
+      transition: {
+        when: 'afterChildren',
+        staggerChildren: 0,
+        staggerDirection: -1,
+      },
+      zIndex: -1,
+    },
+  };
+
+  const spring = {
+    type: 'spring',
+    damping: 11,
+    stiffness: 120,
+  };
+
+  const popupFrames = {
+    visible: {
+      opacity: 1,
+      y: 0,
+      transition: spring,
+    },
+    hidden: {
+      opacity: 0,
+      y: -200,
+      transition: {
+        ease: [1, 0.5, 0, 0],
+      },
+    },
+  };
+
+  return (
+    <FullScreenContainer
+      elevation={15}
+      initial="hidden"
+      animate={visible ? 'visible' : 'hidden'}
+      variants={containerFrames}
+    >
+      <WidePopup width="900px" variants={popupFrames}>
+        <PopupHeader mb="20px" color="#575E89" lineColor="#B4BEFC">
+          Rename {symbol && symbol.name}
+        </PopupHeader>
+        <InputBlock mb={'20px'}>
+          <Label>New Name</Label>
+          <Input
+            value={newName}
+            onChange={(event) => setNewName(event.target.value.trim())}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter' && canApply && !processing) {
+                apply();
+              }
+            }}
+          />
+        </InputBlock>
+        {isValid ? (
+          <Hint>
+            {occurrences} occurrences in {renames.length} files
+          </Hint>
+        ) : (
+          <Hint error>The new name is not a valid identifier</Hint>
+        )}
+        <Preview>
+          <FileChanges
+            changes={diffProjectFiles(oldFiles, newFiles)}
+            emptyMessage="Enter a new name to preview the changes"
+          />
+        </Preview>
+        {processing ? (
+          <p>Processing...</p>
+        ) : (
+          <SpaceBetween>
+            <FlowButton className="grey modal" onClick={triggerClose}>
+              Cancel
+            </FlowButton>
+            <FlowButton
+              className="violet modal"
+              disabled={!canApply}
+              onClick={apply}
+            >
+              Rename
+            </FlowButton>
+          </SpaceBetween>
+        )}
+      </WidePopup>
+      <WhiteOverlay onClick={triggerClose} />
+    </FullScreenContainer>
+  );
+};
+
+export default RenamePopup;
@@ -3,6 +3,8 @@ import { useQuery } from "@apollo/react-hooks";
 import { GET_CACHED_EXECUTION_RESULTS } from "api/apollo/queries";
 import { ResultType } from "../../api/apollo/generated/graphql";
 import { Line as LineType } from "../../util/normalize-interaction-response";
+import { labelAddresses } from "../../util/accounts";
+import { useProject } from "providers/Project/projectHooks";
 
 import { Line } from "components/RenderResponse/Line";
 import styled from "@emotion/styled";
@@ -21,12 +23,21 @@ export const RenderResponse: React.FC<{
   const { data, error, loading } = useQuery(
     GET_CACHED_EXECUTION_RESULTS
   );
+  const { accountProfiles } = useProject();
   return (
     <Root resultType={resultType}>
       {!loading &&
         !error &&
         data.cachedExecutionResults[resultType].map((line: LineType, n: number) => (
-          <Line {...line} key={n} />
+          <Line
+            {...line}
+            value={
+              typeof line.value === "string"
+                ? labelAddresses(line.value, accountProfiles)
+                : line.value
+            }
+            key={n}
+          />
         ))}
     </Root>
   );
@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import styled from '@emotion/styled';
+import { FaTimes } from 'react-icons/fa';
+import { useProject } from 'providers/Project/projectHooks';
+import { SidebarSection } from 'layout/SidebarSection';
+import { SidebarHeader } from 'layout/SidebarHeader';
+import { SidebarItemInsert } from 'layout/SidebarItemInsert';
+import theme from '../theme';
+
+import { getProjectFiles, ProjectFile } from '../util/project-files';
+import {
+  createSearchPattern,
+  FileMatches,
+  replaceMatches,
+  SearchMatch,
+  searchProjectFiles,
+} from '../util/project-search';
+
+// Long lines are cut around the match
+const PREVIEW_CONTEXT = 20;
+
+// Matches of a file are shown in pages, so patterns like `.`
+// don't render thousands of lines at once
+const MATCHES_PAGE_SIZE = 100;
+
+const Form = styled.div`
+  padding: 0 1rem 0.5rem 1rem;
+`;
+
+const InputRow = styled.div`
+  display: flex;
+  align-items: center;
+  margin-bottom: 6px;
+  border: 1px solid ${theme.colors.borderDark};
+  border-radius: 4px;
+  background: ${theme.colors.background};
+  input {
+    flex: 1 1 auto;
+    min-width: 0;
+    padding: 5px;
+    border: none;
+    background: none;
+    font-size: 13px;
+    outline: none;
+  }
+`;
+
+const Toggle = styled.button<{ active: boolean }>`
+  margin: 2px;
+  padding: 2px 4px;
+  border: 1px solid
+    ${({ active }) => (active ? theme.colors.muted : 'transparent')};
+  border-radius: 3px;
+  background: ${({ active }) => (active ? theme.colors.border : 'none')};
+  color: ${theme.colors.muted};
+  font-family: ${theme.fonts.monospace};
+  font-size: 11px;
+  cursor: pointer;
+`;
+
+const TextButton = styled.button`
+  padding: 2px 6px;
+  border: none;
+  border-radius: 3px;
+  background: none;
+  color: ${theme.colors.muted};
+  font-size: 12px;
+  cursor: pointer;
+  &:hover {
+    background: ${theme.colors.border};
+  }
+  &:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+`;
+
+const Summary = styled.div<{ error?: boolean }>`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  font-size: 12px;
+  color: ${({ error }) => (error ? theme.colors.error : theme.colors.heading)};
+`;
+
+const Results = styled.ul`
+  max-height: 40vh;
+  overflow-y: auto;
+`;
+
+const FileTitle = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: 4px 1rem;
+  font-size: 13px;
+  font-weight: 600;
+  color: ${theme.colors.text};
+  small {
+    margin-left: 6px;
+    color: ${theme.colors.heading};
+  }
+`;
+
+const MatchLine = styled.li`
+  padding: 2px 1rem 2px 1.5rem;
+  font-family: ${theme.fonts.monospace};
+  font-size: 11px;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  cursor: pointer;
+  &:hover {
+    background: ${theme.colors.border};
+  }
+  mark {
+    background: #fff3a3;
+  }
+`;
+
+const MatchPreview: React.FC<{ match: SearchMatch }> = ({ match }) => {
+  const { lineText, startColumn, endColumn } = match;
+  const start = Math.max(0, startColumn - 1 - PREVIEW_CONTEXT);
+  return (
+    <>
+      {start > 0 && '…'}
+      {lineText.slice(start, startColumn - 1).replace(/^\s+/, '')}
+      <mark>{lineText.slice(startColumn - 1, endColumn - 1)}</mark>
+      {lineText.slice(endColumn - 1)}
+    </>
+  );
+};
+
+const SearchPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { project, mutator, revealInEditor, getAccountLabel } = useProject();
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [isRegex, setIsRegex] = useState(false);
+  const [isCaseSensitive, setIsCaseSensitive] = useState(false);
+  const [isReplacing, setIsReplacing] = useState(false);
+  const [shownMatches, setShownMatches] = useState<{ [file: string]: number }>(
+    {},
+  );
+
+  const options = { query, isRegex, isCaseSensitive };
+
+  let pattern: RegExp | null = null;
+  let error: string | null = null;
+  try {
+    pattern = createSearchPattern(options);
+  } catch (e) {
+    error = 'Invalid regular expression';
+  }
+
+  const results: FileMatches[] = pattern
+    ? searchProjectFiles(getProjectFiles(project), pattern)
+    : [];
+  const matchesCount = results.reduce(
+    (count, result) => count + result.matches.length,
+    0,
+  );
+
+  const getFileKey = (file: ProjectFile) => `${file.kind}-${file.id}`;
+
+  const getShownMatches = (file: ProjectFile) =>
+    shownMatches[getFileKey(file)] || MATCHES_PAGE_SIZE;
+
+  const showMoreMatches = (file: ProjectFile) =>
+    setShownMatches({
+      ...shownMatches,
+      [getFileKey(file)]: getShownMatches(file) + MATCHES_PAGE_SIZE,
+    });
+
+  const getFileTitle = (file: ProjectFile) =>
+    file.kind === 'account'
+      ? getAccountLabel(project.accounts[file.index].address).title
+      : file.title;
+
+  const replaceIn = async (files: ProjectFile[], label: string) => {
+    setIsReplacing(true);
+    try {
+      await mutator.pullFiles(
+        files.map((file) => ({
+          ...file,
+          code: replaceMatches(file.code, pattern, replacement, isRegex),
+        })),
+        label,
+      );
+    } catch (e) {
+      console.error(e);
+    }
+    setIsReplacing(false);
+  };
+
+  return (
+    <SidebarSection>
+      <SidebarHeader>
+        Search
+        <SidebarItemInsert onClick={onClose} title="Close search">
+          <FaTimes size="14px" />
+        </SidebarItemInsert>
+      </SidebarHeader>
+      <Form>
+        <InputRow>
+          <input
+            type="text"
+            placeholder="Search"
+            value={query}
+            autoFocus
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <Toggle
+            active={isCaseSensitive}
+            title="Match case"
+            onClick={() => setIsCaseSensitive(!isCaseSensitive)}
+          >
+            Aa
+          </Toggle>
+          <Toggle
+            active={isRegex}
+            title="Use regular expression"
+            onClick={() => setIsRegex(!isRegex)}
+          >
+            .*
+          </Toggle>
+        </InputRow>
+        <InputRow>
+          <input
+            type="text"
+            placeholder="Replace"
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+          />
+        </InputRow>
+        {error ? (
+          <Summary error>{error}</Summary>
+        ) : (
+          query && (
+            <Summary>
+              {matchesCount} results in {results.length} files
+              <TextButton
+                disabled={matchesCount === 0 || isReplacing}
+                onClick={() =>
+                  replaceIn(
+                    results.map((result) => result.file),
+                    `Replace "${query}" in ${results.length} files`,
+                  )
+                }
+              >
+                Replace All
+              </TextButton>
+            </Summary>
+          )
+        )}
+      </Form>
+      <Results>
+        {results.map(({ file, matches }) => (
+          <li key={getFileKey(file)}>
+            <FileTitle>
+              <span>
+                {getFileTitle(file)}
+                <small>{matches.length}</small>
+              </span>
+              <TextButton
+                disabled={isReplacing}
+                title="Replace in this file"
+                onClick={() =>
+                  replaceIn(
+                    [file],
+                    `Replace "${query}" in ${getFileTitle(file)}`,
+                  )
+                }
+              >
+                Replace
+              </TextButton>
+            </FileTitle>
+            <ul>
+              {matches.slice(0, getShownMatches(file)).map((match, index) => (
+                <MatchLine
+                  key={index}
+                  title={`Line ${match.lineNumber}`}
+                  onClick={() =>
+                    revealInEditor(file, {
+                      startLineNumber: match.lineNumber,
+                      startColumn: match.startColumn,
+                      endLineNumber: match.lineNumber,
+                      endColumn: match.endColumn,
+                    })
+                  }
+                >
+                  <MatchPreview match={match} />
+                </MatchLine>
+              ))}
+              {matches.length > getShownMatches(file) && (
+                <MatchLine onClick={() => showMoreMatches(file)}>
+                  Show more ({matches.length - getShownMatches(file)} hidden)
+                </MatchLine>
+              )}
+            </ul>
+          </li>
+        ))}
+      </Results>
+    </SidebarSection>
+  );
+};
+
+export default SearchPanel;
@@ -2,13 +2,30 @@ import React from "react";
 import { EntityType } from "providers/Project";
 import AccountList from "components/AccountList";
 import MenuList from "components/MenuList";
+import SearchPanel from "components/SearchPanel";
+import ProblemsPanel from "components/ProblemsPanel";
+import OutlinePanel from "components/OutlinePanel";
 import { Sidebar as SidebarRoot } from "layout/Sidebar";
 
 import { useProject } from "providers/Project/projectHooks";
 import { navigate } from "@reach/router";
 import { isUUUID } from "../util/url";
 
-const Sidebar: React.FC = () => {
+const Sidebar: React.FC<{
+  showSearch: boolean;
+  onCloseSearch: () => void;
+  showProblems: boolean;
+  onCloseProblems: () => void;
+  showOutline: boolean;
+  onCloseOutline: () => void;
+}> = ({
+  showSearch,
+  onCloseSearch,
+  showProblems,
+  onCloseProblems,
+  showOutline,
+  onCloseOutline
+}) => {
   const {
     isLoading,
     active,
@@ -26,6 +43,9 @@ const Sidebar: React.FC = () => {
 
   return (
     <SidebarRoot>
+      {showSearch && <SearchPanel onClose={onCloseSearch} />}
+      {showProblems && <ProblemsPanel onClose={onCloseProblems} />}
+      {showOutline && <OutlinePanel onClose={onCloseOutline} />}
       <AccountList />
       <MenuList
         title="Transaction Templates"
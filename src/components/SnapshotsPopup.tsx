@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from 'react';
+import styled from '@emotion/styled';
+import { useProject } from 'providers/Project/projectHooks';
+import { default as FlowButton } from 'components/Button';
+import FileChanges from 'components/FileChanges';
+import theme from '../theme';
+
+import {
+  FullScreenContainer,
+  PopupContainer,
+  PopupHeader,
+  WhiteOverlay,
+  SpaceBetween,
+} from 'components/Common';
+
+import {
+  getSnapshotFiles,
+  ProjectSnapshot,
+} from 'providers/Project/projectSnapshots';
+import { diffProjectFiles, getProjectFiles } from '../util/project-files';
+
+import {
+  Input,
+  InputBlock,
+  Label,
+} from 'components/Arguments/SingleArgument/styles';
+
+const WidePopup = styled(PopupContainer)`
+  max-width: 70%;
+  max-height: 80%;
+`;
+
+const Columns = styled.div`
+  display: grid;
+  grid-template-columns: 220px 1fr;
+  grid-gap: 20px;
+  min-height: 0;
+  flex: 1;
+  margin-bottom: 20px;
+`;
+
+const SnapshotList = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+  overflow-y: auto;
+`;
+
+const SnapshotItem = styled.li<{ selected: boolean }>`
+  padding: 8px;
+  border-radius: 4px;
+  cursor: pointer;
+  font-size: 14px;
+  background: ${({ selected }) =>
+    selected ? theme.colors.borderDark : 'transparent'};
+  &:hover {
+    background: ${theme.colors.border};
+  }
+  small {
+    display: block;
+    color: ${theme.colors.heading};
+  }
+`;
+
+const Details = styled.div`
+  display: flex;
+  flex-direction: column;
+  min-height: 0;
+  overflow-y: auto;
+`;
+
+const Hint = styled.p`
+  color: ${theme.colors.heading};
+  font-size: 14px;
+`;
+
+const formatDate = (date: string) => new Date(date).toLocaleString();
+
+const defaultTitle = () => `Snapshot ${new Date().toLocaleString()}`;
+
+const SnapshotsPopup: React.FC<{
+  visible: boolean;
+  triggerClose?: (e: React.SyntheticEvent) => any;
+}> = ({ visible, triggerClose }) => {
+  const { project, mutator } = useProject();
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  const loadSnapshots = async () => {
+    try {
+      setSnapshots(await mutator.getSnapshots());
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadSnapshots();
+    } else {
+      setSelectedId(null);
+    }
+  }, [visible, project && project.id]);
+
+  const run = async (action: () => Promise<any>) => {
+    setProcessing(true);
+    try {
+      await action();
+    } catch (e) {
+      console.error(e);
+    }
+    setProcessing(false);
+  };
+
+  const selected = snapshots.find((snapshot) => snapshot.id === selectedId);
+
+  const containerFrames = {
+    visible: {
+      display: 'flex',
+      opacity: 1,
+      transition: {
+        staggerChildren: 0.1,
+      },
+      zIndex: 20,
+    },
+    hidden: {
+      opacity: 0,
+      transition: {
+        when: 'afterChildren',
+        staggerChildren: 0,
+        staggerDirection: -1,
+      },
+      zIndex: -1,
+    },
+  };
+
+  const spring = {
+    type: 'spring',
+    damping: 11,
+    stiffness: 120,
+  };
+
+  const popupFrames = {
+    visible: {
+      opacity: 1,
+      y: 0,
+      transition: spring,
+    },
+    hidden: {
+      opacity: 0,
+      y: -200,
+      transition: {
+        ease: [1, 0.5, 0, 0],
+      },
+    },
+  };
+
+  return (
+    <FullScreenContainer
+      elevation={15}
+      initial="hidden"
+      animate={visible ? 'visible' : 'hidden'}
+      variants={containerFrames}
+    >
+      <WidePopup width="900px" variants={popupFrames}>
+        <PopupHeader mb="20px" color="#575E89" lineColor="#B4BEFC">
+          Project History
+        </PopupHeader>
+        <InputBlock mb={'20px'}>
+          <Label>Snapshot Name</Label>
+          <Input
+            value={title}
+            placeholder={'Describe the current state of the project'}
+            onChange={(event) => setTitle(event.target.value)}
+          />
+        </InputBlock>
+        <SpaceBetween mb={'20px'}>
+          <span />
+          <FlowButton
+            className="violet"
+            disabled={processing || !project}
+            onClick={() =>
+              run(async () => {
+                const snapshot = await mutator.createSnapshot(
+                  title.trim() || defaultTitle(),
+                );
+                setTitle('');
+                await loadSnapshots();
+                setSelectedId(snapshot.id);
+              })
+            }
+          >
+            Take Snapshot
+          </FlowButton>
+        </SpaceBetween>
+        <Columns>
+          <SnapshotList>
+            {snapshots.length === 0 && <Hint>No snapshots yet</Hint>}
+            {[...snapshots].reverse().map((snapshot) => (
+              <SnapshotItem
+                key={snapshot.id}
+                selected={snapshot.id === selectedId}
+                onClick={() => setSelectedId(snapshot.id)}
+              >
+                {snapshot.title}
+                <small>{formatDate(snapshot.createdAt)}</small>
+              </SnapshotItem>
+            ))}
+          </SnapshotList>
+          <Details>
+            {selected && project ? (
+              <>
+                <Hint>Changes made since this snapshot was taken</Hint>
+                <FileChanges
+                  changes={diffProjectFiles(
+                    getSnapshotFiles(selected),
+                    getProjectFiles(project),
+                  )}
+                  emptyMessage="The project matches this snapshot"
+                />
+              </>
+            ) : (
+              <Hint>Select a snapshot to compare it with the project</Hint>
+            )}
+          </Details>
+        </Columns>
+        {processing ? (
+          <p>Processing...</p>
+        ) : (
+          <SpaceBetween>
+            <FlowButton className="grey modal" onClick={triggerClose}>
+              Close
+            </FlowButton>
+            {selected && (
+              <FlowButton
+                className="grey modal"
+                onClick={() =>
+                  run(async () => {
+                    await mutator.deleteSnapshot(selected.id);
+                    setSelectedId(null);
+                    await loadSnapshots();
+                  })
+                }
+              >
+                Delete
+              </FlowButton>
+            )}
+            {selected && (
+              <FlowButton
+                className="violet modal"
+                onClick={() =>
+                  run(async () => {
+                    await mutator.restoreSnapshot(selected);
+                    triggerClose(null);
+                  })
+                }
+              >
+                Restore
+              </FlowButton>
+            )}
+          </SpaceBetween>
+        )}
+      </WidePopup>
+      <WhiteOverlay onClick={triggerClose} />
+    </FullScreenContainer>
+  );
+};
+
+export default SnapshotsPopup;
@@ -0,0 +1,69 @@
+import React from 'react';
+import styled from '@emotion/styled';
+import { useProject } from 'providers/Project/projectHooks';
+import { default as FlowButton } from 'components/Button';
+import DiffView from 'components/DiffView';
+import theme from '../theme';
+import { diffLines } from '../util/diff';
+
+import {
+  FullScreenContainer,
+  PopupContainer,
+  PopupHeader,
+  WhiteOverlay,
+  SpaceBetween,
+} from 'components/Common';
+
+const WidePopup = styled(PopupContainer)`
+  max-width: 60%;
+`;
+
+const Hint = styled.p`
+  color: ${theme.colors.heading};
+  font-size: 14px;
+  margin-bottom: 12px;
+`;
+
+// Asks which version to keep when a file was edited in another tab
+// while it had unsynchronized changes in this one
+const SyncConflictPopup: React.FC = () => {
+  const { conflicts, resolveConflict } = useProject();
+  const conflict = conflicts[0];
+
+  if (!conflict) {
+    return null;
+  }
+
+  return (
+    <FullScreenContainer elevation={20}>
+      <WidePopup width="800px">
+        <PopupHeader mb="12px" color="#575E89" lineColor="#B4BEFC">
+          Conflicting Changes
+        </PopupHeader>
+        <Hint>
+          "{conflict.title}" was changed in another tab while you were editing
+          it. Lines marked with "-" are yours, lines marked with "+" come from
+          the other tab.
+        </Hint>
+        <DiffView lines={diffLines(conflict.mine, conflict.theirs)} />
+        <SpaceBetween style={{ marginTop: '20px' }}>
+          <FlowButton
+            className="grey"
+            onClick={() => resolveConflict(conflict, true)}
+          >
+            Keep Mine
+          </FlowButton>
+          <FlowButton
+            className="violet"
+            onClick={() => resolveConflict(conflict, false)}
+          >
+            Use Theirs
+          </FlowButton>
+        </SpaceBetween>
+      </WidePopup>
+      <WhiteOverlay />
+    </FullScreenContainer>
+  );
+};
+
+export default SyncConflictPopup;
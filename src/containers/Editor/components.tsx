@@ -1,26 +1,49 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { Flex, Button, Box } from "theme-ui";
 import styled from "@emotion/styled";
 import { FaShareSquare } from "react-icons/fa";
 import { motion } from "framer-motion";
+import { navigate } from "@reach/router";
 import useClipboard from "react-use-clipboard";
 
 import { Main as MainRoot } from "layout/Main";
 import { Editor as EditorRoot } from "layout/Editor";
 import { Heading } from "layout/Heading";
-import { EntityType, ActiveEditor } from "providers/Project";
+import {
+  EntityType,
+  ActiveEditor,
+  getEntityType
+} from "providers/Project";
 import { useProject } from "providers/Project/projectHooks";
 import { Project } from "api/apollo/generated/graphql";
 
 import debounce from "../../util/debounce";
+import {
+  getFilePath,
+  getProjectFiles,
+  ProjectFile
+} from "../../util/project-files";
+import { isUUUID } from "../../util/url";
+import { SymbolRename } from "../../util/project-rename";
 import Mixpanel from "../../util/mixpanel";
+import theme from "../../theme";
+import * as monaco from "monaco-editor/esm/vs/editor/editor.api";
 
 import { default as FlowButton } from "components/Button";
 import CadenceEditor from "components/CadenceEditor";
 import AccountBottomBar from "components/AccountBottomBar";
 import TransactionBottomBar from "components/TransactionBottomBar";
 import ScriptBottomBar from "components/ScriptBottomBar";
+import RenamePopup from "components/RenamePopup";
+import Breadcrumbs from "components/Breadcrumbs";
+import ContractDiffEditor from "components/ContractDiffEditor";
+import { EditorTabs, SplitPaneHeader } from "components/EditorTabs";
+import FormatOptionsPopup from "components/FormatOptionsPopup";
 import { Version } from "components/CadenceVersion";
+import {
+  LanguageServerLogPopup,
+  LanguageServerStatus
+} from "components/LanguageServerStatus";
 
 const Header: React.FC = ({ children }) => {
   return (
@@ -106,6 +129,27 @@ const ShareSaveButton: React.FC<{
   );
 };
 
+const Panes = styled.div`
+  display: flex;
+  height: 100%;
+`;
+
+const Pane = styled.div`
+  display: flex;
+  flex-direction: column;
+  flex: 1;
+  min-width: 0;
+  & + & {
+    border-left: 1px solid ${theme.colors.borderDark};
+  }
+`;
+
+const PaneEditor = styled.div`
+  position: relative;
+  flex: 1;
+  min-height: 0;
+`;
+
 type EditorContainerProps = {
   isLoading: boolean;
   project: Project;
@@ -146,6 +190,9 @@ function getActiveId(project: Project, active: ActiveEditor): string {
   }
 }
 
+// The active entity is edited in the main pane, recently opened ones
+// are kept as tabs. Another entity can be edited next to it in a split pane,
+// each pane keeps the view states of its documents
 const EditorContainer: React.FC<EditorContainerProps> = ({
   isLoading,
   project,
@@ -153,57 +200,262 @@ const EditorContainer: React.FC<EditorContainerProps> = ({
 }) => {
   const [code, setCode] = useState("");
   const [activeId, setActiveId] = useState(null);
+  const [symbolRename, setSymbolRename] = useState<SymbolRename | null>(null);
+  const [cursor, setCursor] = useState<monaco.IPosition | null>(null);
+  const [tabs, setTabs] = useState<string[]>([]);
+  const [splitId, setSplitId] = useState<string | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+  const {
+    editorReveal,
+    clearEditorReveal,
+    revealInEditor,
+    languageSession,
+    getEditor,
+    raiseEditConflict
+  } = useProject();
 
   useEffect(() => {
     if (isLoading) {
       setCode("");
       setActiveId(null);
     } else {
+      const id = getActiveId(project, active);
+      // A file can't be open in both panes, opening the one
+      // of the split pane in the main pane swaps them
+      if (id !== activeId && id === splitId) {
+        setSplitId(activeId);
+      }
       setCode(getActiveCode(project, active));
-      setActiveId(getActiveId(project, active));
+      setActiveId(id);
     }
   }, [isLoading, active, project]);
 
-  const onCodeChange = debounce(active.onChange);
+  useEffect(() => {
+    setShowDiff(false);
+    if (activeId) {
+      setTabs(ids => (ids.includes(activeId) ? ids : [...ids, activeId]));
+    }
+  }, [activeId]);
 
-  function getCode(index: number): string | undefined {
-      if (index < 0 || index >= project.accounts.length) {
-        return
-      }
-      return project.accounts[index].draftCode
+  const files = isLoading ? [] : getProjectFiles(project);
+  const findFile = (id: string | null) => files.find(item => item.id === id);
+  // Tabs of removed files are dropped
+  const tabFiles = tabs.map(findFile).filter(file => !!file);
+  const splitFile = splitId !== activeId ? findFile(splitId) : undefined;
+  const splitEditor =
+    splitFile && getEditor(getEntityType(splitFile.kind), splitFile.index);
+  // Drafts of deployed contracts can be compared to the deployed code
+  const account =
+    !isLoading && active.type === EntityType.Account
+      ? project.accounts[active.index]
+      : null;
+  const canShowDiff = !!account && !!account.deployedCode;
+
+  // Kept between renders, e.g. when the cursor moves, so typing is debounced
+  const onCodeChange = useMemo(() => debounce(active.onChange), [active]);
+  const onSplitCodeChange = useMemo(
+    () => splitEditor && debounce(splitEditor.onChange),
+    [splitFile && splitFile.id]
+  );
+
+  const openFile = (file: ProjectFile) => {
+    const projectPath = isUUUID(project.id) ? project.id : "local";
+    navigate(getFilePath(projectPath, file));
+  };
+
+  const closeTab = (file: ProjectFile) => {
+    const index = tabFiles.indexOf(file);
+    const rest = tabFiles.filter(item => item !== file);
+    setTabs(rest.map(item => item.id));
+    if (file.id === splitId) {
+      setSplitId(null);
+    }
+    if (file.id === activeId && rest.length > 0) {
+      openFile(rest[Math.min(index, rest.length - 1)]);
+    }
+  };
+
+  // The split pane shows the most recent other tab first
+  const toggleSplit = () => {
+    if (splitFile) {
+      setSplitId(null);
+      return;
+    }
+    const other = (file: ProjectFile) => file.id !== activeId;
+    const file = [...tabFiles].reverse().find(other) || files.find(other);
+    if (file) {
+      setSplitId(file.id);
+    }
+  };
+
+  const swapPanes = () => {
+    setSplitId(activeId);
+    openFile(splitFile);
+  };
+
+  const revealInActive = (range: monaco.IRange) => {
+    const file = findFile(activeId);
+    if (file) {
+      revealInEditor(file, range);
+    }
+  };
+
+  const onNavigate = (id: string, range: monaco.IRange) => {
+    const file = findFile(id);
+    if (file) {
+      revealInEditor(file, range);
     }
+  };
 
   return (
     <MainRoot>
-      <EditorTitle type={active.type} />
+      <EditorTitle
+        type={active.type}
+        showDiff={showDiff}
+        onToggleDiff={canShowDiff ? () => setShowDiff(!showDiff) : undefined}
+      />
+      <EditorTabs
+        files={tabFiles}
+        activeId={activeId}
+        splitId={splitFile ? splitFile.id : null}
+        onSelect={openFile}
+        onClose={closeTab}
+        onToggleSplit={toggleSplit}
+      />
+      <Breadcrumbs
+        id={activeId}
+        code={code}
+        position={cursor}
+        onSelect={revealInActive}
+      />
       <EditorRoot>
-        <CadenceEditor
-          type={active.type}
-          activeId={activeId}
-          code={code}
-          mount="cadenceEditor"
-          onChange={(code: string, _: any) => onCodeChange(code)}
-          getCode={getCode}
-        />
+        <Panes>
+          <Pane>
+            <PaneEditor>
+              <CadenceEditor
+                type={active.type}
+                activeId={activeId}
+                code={code}
+                mount="cadenceEditor"
+                onChange={(code: string, _: any) => onCodeChange(code)}
+                languageSession={languageSession}
+                reveal={editorReveal}
+                onReveal={clearEditorReveal}
+                onNavigate={onNavigate}
+                onRenameSymbol={setSymbolRename}
+                onSave={active.onSave}
+                onCursorChange={setCursor}
+                onConflict={raiseEditConflict}
+              />
+              {canShowDiff && showDiff && (
+                <ContractDiffEditor
+                  id={account.id}
+                  draftCode={account.draftCode}
+                  deployedCode={account.deployedCode}
+                  languageSession={languageSession}
+                />
+              )}
+            </PaneEditor>
+          </Pane>
+          {splitFile && (
+            <Pane>
+              <SplitPaneHeader
+                files={files.filter(file => file.id !== activeId)}
+                splitId={splitFile.id}
+                onSelect={file => setSplitId(file.id)}
+                onSwap={swapPanes}
+                onClose={() => setSplitId(null)}
+              />
+              <PaneEditor>
+                <CadenceEditor
+                  type={splitEditor.type}
+                  activeId={splitFile.id}
+                  code={splitFile.code}
+                  mount="cadenceEditorSplit"
+                  onChange={(code: string, _: any) => onSplitCodeChange(code)}
+                  languageSession={languageSession}
+                  onNavigate={onNavigate}
+                  onRenameSymbol={setSymbolRename}
+                  onSave={splitEditor.onSave}
+                  onConflict={raiseEditConflict}
+                  hideArguments
+                />
+              </PaneEditor>
+            </Pane>
+          )}
+        </Panes>
       </EditorRoot>
       <BottomBarContainer active={active} />
+      <RenamePopup
+        symbol={symbolRename}
+        triggerClose={() => setSymbolRename(null)}
+      />
     </MainRoot>
   );
 };
 
 type EditorTitleProps = {
   type: EntityType;
+  showDiff?: boolean;
+  // Only given when there is deployed code to compare to
+  onToggleDiff?: () => void;
 };
 
-const EditorTitle: React.FC<EditorTitleProps> = ({ type }) => {
+const TitleButton = styled.button`
+  margin-right: 1rem;
+  padding: 0;
+  border: none;
+  background: none;
+  color: inherit;
+  font: inherit;
+  letter-spacing: inherit;
+  text-transform: inherit;
+  cursor: pointer;
+`;
+
+// Popups are kept out of the heading, so they don't inherit its text style
+const EditorTitle: React.FC<EditorTitleProps> = ({
+  type,
+  showDiff,
+  onToggleDiff
+}) => {
+  const [showFormatOptions, setShowFormatOptions] = useState(false);
+  const [showServerLog, setShowServerLog] = useState(false);
   return (
-    <Heading>
-      {type === EntityType.Account && "Contract"}
-      {type === EntityType.TransactionTemplate && "Transaction Template"}
-      {type === EntityType.ScriptTemplate && "Script Template"}
+    <>
+      <Heading>
+        {type === EntityType.Account && "Contract"}
+        {type === EntityType.TransactionTemplate && "Transaction Template"}
+        {type === EntityType.ScriptTemplate && "Script Template"}
 
-      <Version/>
-    </Heading>
+        <span>
+          {onToggleDiff && (
+            <TitleButton
+              title="Compare the draft to the deployed contract"
+              onClick={onToggleDiff}
+            >
+              {showDiff ? "Edit Draft" : "Changes"}
+            </TitleButton>
+          )}
+          <TitleButton
+            title="Code formatting options"
+            onClick={() => setShowFormatOptions(true)}
+          >
+            Formatting
+          </TitleButton>
+          <LanguageServerStatus onClick={() => setShowServerLog(true)} />
+          <Version/>
+        </span>
+      </Heading>
+      <FormatOptionsPopup
+        visible={showFormatOptions}
+        triggerClose={() => setShowFormatOptions(false)}
+      />
+      <LanguageServerLogPopup
+        visible={showServerLog}
+        triggerClose={() => setShowServerLog(false)}
+      />
+    </>
   );
 };
 
@@ -2,13 +2,18 @@ import React, { useState, useEffect } from "react";
 import { Button, Flex, Text } from "theme-ui";
 import { motion, AnimatePresence } from "framer-motion";
 import { FaCloudUploadAlt } from "react-icons/fa";
-import { FaCodeBranch, FaDiscord, FaTwitter, FaArrowAltCircleDown } from "react-icons/fa";
+import { FaCodeBranch, FaDiscord, FaTwitter, FaArrowAltCircleDown, FaUndo, FaRedo, FaHistory, FaFolderOpen, FaFileImport, FaSearch, FaExclamationTriangle, FaStream } from "react-icons/fa";
 
 import { Header as HeaderRoot } from "layout/Header";
 import { default as FlowButton } from "components/Button";
 import { Separator } from "components/Common";
 import Examples from "components/Examples";
 import ExportPopup from "components/ExportPopup";
+import SnapshotsPopup from "components/SnapshotsPopup";
+import LineagePopup from "components/LineagePopup";
+import DraftsPopup from "components/DraftsPopup";
+import ImportPopup from "components/ImportPopup";
+import SyncConflictPopup from "components/SyncConflictPopup";
 import Sidebar from "components/Sidebar";
 import { IconCadence } from "components/Icons";
 
@@ -36,10 +41,30 @@ const FDP = [
 
 const EditorLayout: React.FC = () => {
   const [showExport, toggleShowExport] = useState(false);
+  const [showHistory, toggleShowHistory] = useState(false);
+  const [showLineage, toggleShowLineage] = useState(false);
+  const [showDrafts, toggleShowDrafts] = useState(false);
+  const [showImport, toggleShowImport] = useState(false);
+  const [showSearch, toggleShowSearch] = useState(false);
+  const [showProblems, toggleShowProblems] = useState(false);
+  const [showOutline, toggleShowOutline] = useState(false);
   const [showExamples, toggleShowExamples] = useState(false);
   const [projectIsPlayground, setIsPlayground] = useState(false);
 
-  const { project, mutator, isSavingCode, isLoading, active } = useProject();
+  const {
+    project,
+    mutator,
+    isSavingCode,
+    isLoading,
+    active,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+    problems
+  } = useProject();
 
   useEffect(() => {
     if (project && project.id) {
@@ -47,6 +72,23 @@ const EditorLayout: React.FC = () => {
     }
   }, [project]);
 
+  useEffect(() => {
+    const downHandler = (event: KeyboardEvent) => {
+      const modifier = event.metaKey || event.ctrlKey;
+      if (modifier && event.shiftKey && event.key.toLowerCase() === "f") {
+        event.preventDefault();
+        toggleShowSearch(true);
+      }
+    };
+    window.addEventListener("keydown", downHandler);
+    return () => window.removeEventListener("keydown", downHandler);
+  }, []);
+
+  const errorsCount = Object.keys(problems).reduce(
+    (count, id) => count + problems[id].error.length,
+    0
+  );
+
   if (!isLoading && !project) {
     // NOTE: Leave this. 404 redirect is handled in
     // projectHooks.tsx. Show nothing before navigating.
@@ -174,6 +216,60 @@ const EditorLayout: React.FC = () => {
                   )}
                 </AnimatePresence>
               </Text>
+              {project && (
+                <>
+                  <Button
+                    variant="secondary"
+                    title="Search in project"
+                    onClick={() => toggleShowSearch(!showSearch)}
+                  >
+                    <FaSearch size={"14px"} />
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    title={`Problems in project: ${errorsCount} errors`}
+                    onClick={() => toggleShowProblems(!showProblems)}
+                  >
+                    <FaExclamationTriangle size={"14px"} />
+                    {errorsCount > 0 && (
+                      <Text as="span" ml={1} sx={{ fontSize: "12px" }}>
+                        {errorsCount}
+                      </Text>
+                    )}
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    title="Outline of the open file"
+                    onClick={() => toggleShowOutline(!showOutline)}
+                  >
+                    <FaStream size={"14px"} />
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    title="Recent drafts"
+                    onClick={() => toggleShowDrafts(true)}
+                  >
+                    <FaFolderOpen size={"14px"} />
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    disabled={!canUndo}
+                    title={canUndo ? `Undo: ${undoLabel}` : "Nothing to undo"}
+                    onClick={() => undo()}
+                  >
+                    <FaUndo size={"14px"} />
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    mr={2}
+                    disabled={!canRedo}
+                    title={canRedo ? `Redo: ${redoLabel}` : "Nothing to redo"}
+                    onClick={() => redo()}
+                  >
+                    <FaRedo size={"14px"} />
+                  </Button>
+                </>
+              )}
               {project && (
                 <ShareSaveButton
                   url={window.location.href}
@@ -185,6 +281,29 @@ const EditorLayout: React.FC = () => {
               )}
               {project && (
                 <>
+                {project.parentId && (
+                  <FlowButton
+                    className="grey"
+                    style={{ marginRight: "0.5rem" }}
+                    onClick={() => toggleShowLineage(true)}
+                    Icon={FaCodeBranch}
+                  >Lineage
+                  </FlowButton>
+                )}
+                <FlowButton
+                  className="grey"
+                  style={{ marginRight: "0.5rem" }}
+                  onClick={() => toggleShowHistory(true)}
+                  Icon={FaHistory}
+                >History
+                </FlowButton>
+                <FlowButton
+                  className="grey"
+                  style={{ marginRight: "0.5rem" }}
+                  onClick={() => toggleShowImport(true)}
+                  Icon={FaFileImport}
+                >Import
+                </FlowButton>
                 <FlowButton
                   className="violet"
                   onClick={() => toggleShowExport(true)}
@@ -197,7 +316,14 @@ const EditorLayout: React.FC = () => {
           </Nav>
         </Header>
       </HeaderRoot>
-      <Sidebar />
+      <Sidebar
+        showSearch={showSearch}
+        onCloseSearch={() => toggleShowSearch(false)}
+        showProblems={showProblems}
+        onCloseProblems={() => toggleShowProblems(false)}
+        showOutline={showOutline}
+        onCloseOutline={() => toggleShowOutline(false)}
+      />
       <EditorContainer
         isLoading={isLoading}
         project={project}
@@ -212,6 +338,19 @@ const EditorLayout: React.FC = () => {
       <ExportPopup visible={showExport} triggerClose={()=>{
         toggleShowExport(false)
       }}/>
+      <SnapshotsPopup visible={showHistory} triggerClose={()=>{
+        toggleShowHistory(false)
+      }}/>
+      <LineagePopup visible={showLineage} triggerClose={()=>{
+        toggleShowLineage(false)
+      }}/>
+      <DraftsPopup visible={showDrafts} triggerClose={()=>{
+        toggleShowDrafts(false)
+      }}/>
+      <ImportPopup visible={showImport} triggerClose={()=>{
+        toggleShowImport(false)
+      }}/>
+      <SyncConflictPopup />
     </>
   );
 };
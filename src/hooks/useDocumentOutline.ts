@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import { useProject } from "providers/Project/projectHooks";
+import { OutlineSymbol } from "../util/cadence-outline";
+
+// Outline of a document of the project, updated when its code changes
+// and when the language server starts, as it knows more than the fallback parser
+export default function useDocumentOutline(
+  id: string | null,
+  code: string,
+): OutlineSymbol[] {
+  const { languageSession } = useProject();
+  const [symbols, setSymbols] = useState<OutlineSymbol[]>([]);
+  const [status, setStatus] = useState(languageSession.status);
+
+  useEffect(() => languageSession.onStatusChange(setStatus), [languageSession]);
+
+  useEffect(() => {
+    if (!id) {
+      setSymbols([]);
+      return;
+    }
+
+    // Results of older code are dropped
+    let isCurrent = true;
+    languageSession.getOutline(id).then((outline) => {
+      if (isCurrent) {
+        setSymbols(outline);
+      }
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [languageSession, id, code, status]);
+
+  return symbols;
+}
@@ -0,0 +1,44 @@
+import { useEffect, useRef } from "react";
+
+// Text fields and the code editor keep their own undo history,
+// so project-level shortcuts only apply when focus is elsewhere
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) ||
+    !!target.closest(".monaco-editor")
+  );
+};
+
+export default function useUndoRedoShortcuts(
+  undo: () => void,
+  redo: () => void
+) {
+  const handlers = useRef({ undo, redo });
+  handlers.current = { undo, redo };
+
+  useEffect(() => {
+    const downHandler = (event: KeyboardEvent) => {
+      const modifier = event.metaKey || event.ctrlKey;
+      if (!modifier || isEditableTarget(event.target)) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        handlers.current.undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        handlers.current.redo();
+      }
+    };
+
+    window.addEventListener("keydown", downHandler);
+    return () => window.removeEventListener("keydown", downHandler);
+  }, []);
+}
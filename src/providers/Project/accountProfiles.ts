@@ -0,0 +1,32 @@
+import { AccountProfiles } from '../../util/accounts';
+
+// Aliases and colors of accounts are kept in the browser storage, keyed by
+// project or, for local projects, by draft. Saved projects also store them
+// through the API where supported, exported projects in `SETTINGS_FILE`
+
+const STORAGE_PREFIX = 'flow-playground:account-profiles';
+
+const storageKey = (key: string) => `${STORAGE_PREFIX}:${key}`;
+
+export function readAccountProfiles(key: string): AccountProfiles {
+  try {
+    const stored = window.localStorage.getItem(storageKey(key));
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error(e);
+    return {};
+  }
+}
+
+export function writeAccountProfiles(key: string, profiles: AccountProfiles) {
+  window.localStorage.setItem(storageKey(key), JSON.stringify(profiles));
+}
+
+// Profiles follow a local project once it's saved to the API
+export function moveAccountProfiles(fromKey: string, toKey: string) {
+  const profiles = readAccountProfiles(fromKey);
+  if (Object.keys(profiles).length > 0) {
+    writeAccountProfiles(toKey, profiles);
+  }
+  window.localStorage.removeItem(storageKey(fromKey));
+}
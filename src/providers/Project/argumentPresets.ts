@@ -0,0 +1,76 @@
+import { ArgumentValue } from '../../util/cadence-values';
+
+// Arguments and signers saved under a name to run a template with them again,
+// e.g. "happy path" and "edge case". Presets are kept in the browser storage,
+// keyed by project or, for local projects, by draft. Saved projects also store
+// them through the API where supported, exported projects in `SETTINGS_FILE`
+
+export type ArgumentPreset = {
+  name: string;
+  // Values keyed by the names and types of arguments,
+  // so they are not applied after an argument changed its type
+  values: { [key: string]: ArgumentValue };
+  // Indexes of the signing accounts
+  signers: number[];
+};
+
+// Presets of templates keyed by their ids
+export type ArgumentPresets = { [templateId: string]: ArgumentPreset[] };
+
+const STORAGE_PREFIX = 'flow-playground:argument-presets';
+
+const storageKey = (key: string) => `${STORAGE_PREFIX}:${key}`;
+
+export function readArgumentPresets(key: string): ArgumentPresets {
+  try {
+    const stored = window.localStorage.getItem(storageKey(key));
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error(e);
+    return {};
+  }
+}
+
+export function writeArgumentPresets(key: string, presets: ArgumentPresets) {
+  window.localStorage.setItem(storageKey(key), JSON.stringify(presets));
+}
+
+// Old ids of templates mapped to new ones
+export type TemplateIds = { [id: string]: string };
+
+// Presets of templates which are not in the mapping are dropped
+export const rekeyPresets = (
+  presets: ArgumentPresets,
+  templateIds: TemplateIds,
+): ArgumentPresets =>
+  Object.keys(presets).reduce((rekeyed: ArgumentPresets, id) => {
+    if (templateIds[id]) {
+      rekeyed[templateIds[id]] = presets[id];
+    }
+    return rekeyed;
+  }, {});
+
+// Presets follow a local project once it's saved to the API,
+// where its templates get new ids
+export function moveArgumentPresets(
+  fromKey: string,
+  toKey: string,
+  templateIds: TemplateIds,
+) {
+  const presets = rekeyPresets(readArgumentPresets(fromKey), templateIds);
+  if (Object.keys(presets).length > 0) {
+    writeArgumentPresets(toKey, presets);
+  }
+  window.localStorage.removeItem(storageKey(fromKey));
+}
+
+// Presets with the same name are replaced
+export const savePreset = (
+  presets: ArgumentPreset[],
+  preset: ArgumentPreset,
+): ArgumentPreset[] => {
+  const index = presets.findIndex((item) => item.name === preset.name);
+  return index < 0
+    ? [...presets, preset]
+    : presets.map((item, i) => (i === index ? preset : item));
+};
@@ -0,0 +1,24 @@
+import {
+  CadenceFormatOptions,
+  DEFAULT_FORMAT_OPTIONS,
+} from '../../util/cadence-formatter';
+
+// Formatting is a preference of the user, shared by all projects
+
+const STORAGE_KEY = 'flow-playground:format-options';
+
+export function readFormatOptions(): CadenceFormatOptions {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored
+      ? { ...DEFAULT_FORMAT_OPTIONS, ...JSON.parse(stored) }
+      : DEFAULT_FORMAT_OPTIONS;
+  } catch (e) {
+    console.error(e);
+    return DEFAULT_FORMAT_OPTIONS;
+  }
+}
+
+export function writeFormatOptions(options: CadenceFormatOptions) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+}
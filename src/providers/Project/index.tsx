@@ -1,12 +1,53 @@
-import React, { createContext, useState } from 'react';
+import React, { createContext, useEffect, useRef, useState } from 'react';
 import { useApolloClient, useQuery } from '@apollo/react-hooks';
 import { navigate, Redirect, useLocation } from '@reach/router';
 import ProjectMutator from './projectMutator';
+import ProjectHistory from './projectHistory';
+import ProjectSync, { FileUpdate, SyncConflict } from './projectSync';
 import useGetProject from './projectHooks';
+import {
+  createDraft,
+  getActiveDraftId,
+  getDraftKey,
+  saveDraft,
+} from './projectDrafts';
+import { readAccountProfiles, writeAccountProfiles } from './accountProfiles';
+import { readFormatOptions, writeFormatOptions } from './formatOptions';
+import {
+  ArgumentPreset,
+  ArgumentPresets,
+  readArgumentPresets,
+  savePreset,
+  writeArgumentPresets,
+} from './argumentPresets';
+import useUndoRedoShortcuts from '../../hooks/useUndoRedoShortcuts';
 
 import { GET_ACTIVE_PROJECT } from 'api/apollo/queries';
 import { Project, Account } from 'api/apollo/generated/graphql';
-import { getParams, scriptTypes } from '../../util/url';
+import { getParams, isUUUID, scriptTypes } from '../../util/url';
+import {
+  FileKind,
+  getFilePath,
+  getProjectFiles,
+  ProjectFile,
+} from '../../util/project-files';
+import CadenceLanguageSession, {
+  ProjectProblems,
+} from '../../util/language-session';
+import { Highlight } from '../../util/language-syntax-errors';
+import { setFormatOptions } from '../../util/cadence';
+import {
+  CadenceFormatOptions,
+  formatCadence,
+} from '../../util/cadence-formatter';
+import {
+  AccountLabel,
+  AccountProfile,
+  AccountProfiles,
+  getAccountLabel,
+} from '../../util/accounts';
+
+const DRAFT_SAVE_DELAY = 500;
 
 export enum EntityType {
   Account = 1,
@@ -14,10 +55,43 @@ export enum EntityType {
   ScriptTemplate,
 }
 
+// Kinds of files are the types of entities, as used in urls
+const ENTITY_TYPES: { [kind in FileKind]: EntityType } = {
+  account: EntityType.Account,
+  tx: EntityType.TransactionTemplate,
+  script: EntityType.ScriptTemplate,
+};
+
+export const getEntityType = (kind: FileKind): EntityType => ENTITY_TYPES[kind];
+
+export const getFileKind = (type: EntityType): FileKind =>
+  (Object.keys(ENTITY_TYPES) as FileKind[]).find(
+    (kind) => ENTITY_TYPES[kind] === type,
+  );
+
 export type ActiveEditor = {
   type: EntityType;
   index: number;
   onChange: (code: string, title: string) => void;
+  // Saves the code right away, formatted if format on save is enabled.
+  // Resolves to the saved code
+  onSave: (code: string) => Promise<string>;
+};
+
+// Positions are 1-based, same as in Monaco
+export type EditorRange = {
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+};
+
+// Range to select in the editor once the file with the given id is open,
+// optionally highlighted, e.g. when it's the range of a problem
+export type EditorReveal = {
+  id: string;
+  range: EditorRange;
+  highlight?: Highlight;
 };
 
 export interface ProjectContextValue {
@@ -51,10 +125,37 @@ export interface ProjectContextValue {
   ) => Promise<any>;
   createScriptExecution: (args?: string[]) => Promise<any>;
   active: ActiveEditor;
+  getEditor: (type: EntityType, index: number) => ActiveEditor;
 
   setActive: (type: EntityType, index: number) => void;
   transactionAccounts: number[];
   isSavingCode: boolean;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  conflicts: SyncConflict[];
+  resolveConflict: (conflict: SyncConflict, keepMine: boolean) => Promise<void>;
+  raiseEditConflict: (id: string, mine: string) => void;
+  accountProfiles: AccountProfiles;
+  getAccountLabel: (address: string) => AccountLabel;
+  updateAccountProfile: (address: string, profile: AccountProfile) => void;
+  argumentPresets: ArgumentPresets;
+  saveArgumentPreset: (templateId: string, preset: ArgumentPreset) => void;
+  deleteArgumentPreset: (templateId: string, name: string) => void;
+  editorReveal: EditorReveal | null;
+  revealInEditor: (
+    file: ProjectFile,
+    range: EditorRange,
+    highlight?: Highlight,
+  ) => void;
+  clearEditorReveal: () => void;
+  languageSession: CadenceLanguageSession;
+  problems: ProjectProblems;
+  formatOptions: CadenceFormatOptions;
+  updateFormatOptions: (options: Partial<CadenceFormatOptions>) => void;
 }
 
 export const ProjectContext: React.Context<ProjectContextValue> = createContext(
@@ -103,9 +204,261 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({
     index: 0,
   });
 
+  const [history] = useState(() => new ProjectHistory());
+  const [, setHistoryVersion] = useState(0);
+
+  useEffect(
+    () => history.subscribe(() => setHistoryVersion((version) => version + 1)),
+    [history],
+  );
+
+  const [sync] = useState(() => new ProjectSync());
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+
   const projectID = project ? project.id : null;
 
-  const mutator = new ProjectMutator(client, projectID, isLocal);
+  // Kept while the next project is loading
+  useEffect(() => {
+    if (projectID) {
+      history.setProject(projectID);
+    }
+  }, [projectID]);
+
+  const mutator = new ProjectMutator(client, projectID, isLocal, history, sync);
+
+  // Tabs share a channel when they show the same remote project or,
+  // for local projects, the same draft
+  const draftId = isLocal ? getActiveDraftId() : null;
+  const syncKey = isLocal ? draftId && getDraftKey(draftId) : projectID;
+
+  // A newer conflict of a file replaces the previous one
+  const replaceConflict = (
+    file: { kind: FileKind; id: string },
+    conflict: SyncConflict | null,
+  ) => {
+    const isSameFile = (item: SyncConflict) =>
+      item.kind === file.kind && item.id === file.id;
+    setConflicts((current) => [
+      ...current.filter((item) => !isSameFile(item)),
+      ...(conflict ? [conflict] : []),
+    ]);
+  };
+
+  const receiveFileUpdate = useRef<(update: FileUpdate) => void>(null);
+  receiveFileUpdate.current = (update: FileUpdate) => {
+    replaceConflict(update, mutator.receiveFileUpdate(update));
+  };
+
+  const raiseEditConflict = (id: string, mine: string) => {
+    const conflict = mutator.getEditConflict(id, mine);
+    if (conflict) {
+      replaceConflict(conflict, conflict);
+    }
+  };
+
+  useEffect(() => {
+    if (!syncKey) {
+      return;
+    }
+    sync.connect(syncKey, (update) => receiveFileUpdate.current(update));
+    setConflicts([]);
+    return () => sync.disconnect();
+  }, [syncKey]);
+
+  const resolveConflict = async (conflict: SyncConflict, keepMine: boolean) => {
+    setConflicts((current) => current.filter((item) => item !== conflict));
+    try {
+      await mutator.resolveConflict(conflict, keepMine);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const [accountProfiles, setAccountProfiles] = useState<AccountProfiles>({});
+
+  useEffect(() => {
+    if (!syncKey) {
+      setAccountProfiles({});
+      return;
+    }
+    setAccountProfiles(readAccountProfiles(syncKey));
+
+    // Profiles stored with the project replace the ones of this browser
+    let isCurrent = true;
+    mutator
+      .getAccountProfiles()
+      .then((stored) => {
+        if (isCurrent && stored) {
+          setAccountProfiles(stored);
+          writeAccountProfiles(syncKey, stored);
+        }
+      })
+      .catch((e) => console.error(e));
+    return () => {
+      isCurrent = false;
+    };
+  }, [syncKey]);
+
+  const updateAccountProfile = (address: string, profile: AccountProfile) => {
+    const label = getAccountLabel(accountProfiles, address);
+    const updated = {
+      ...accountProfiles,
+      [label.address]: { ...accountProfiles[label.address], ...profile },
+    };
+    setAccountProfiles(updated);
+    if (syncKey) {
+      writeAccountProfiles(syncKey, updated);
+    }
+    mutator.saveAccountProfiles(updated).catch((e) => console.error(e));
+  };
+
+  const [argumentPresets, setArgumentPresets] = useState<ArgumentPresets>({});
+
+  useEffect(() => {
+    if (!syncKey) {
+      setArgumentPresets({});
+      return;
+    }
+    setArgumentPresets(readArgumentPresets(syncKey));
+
+    // Presets stored with the project replace the ones of this browser
+    let isCurrent = true;
+    mutator
+      .getArgumentPresets()
+      .then((stored) => {
+        if (isCurrent && stored) {
+          setArgumentPresets(stored);
+          writeArgumentPresets(syncKey, stored);
+        }
+      })
+      .catch((e) => console.error(e));
+    return () => {
+      isCurrent = false;
+    };
+  }, [syncKey]);
+
+  const updateArgumentPresets = (
+    templateId: string,
+    presets: ArgumentPreset[],
+  ) => {
+    const updated = { ...argumentPresets, [templateId]: presets };
+    if (presets.length === 0) {
+      delete updated[templateId];
+    }
+    setArgumentPresets(updated);
+    if (syncKey) {
+      writeArgumentPresets(syncKey, updated);
+    }
+    mutator.saveArgumentPresets(updated).catch((e) => console.error(e));
+  };
+
+  const saveArgumentPreset = (templateId: string, preset: ArgumentPreset) =>
+    updateArgumentPresets(
+      templateId,
+      savePreset(argumentPresets[templateId] || [], preset),
+    );
+
+  const deleteArgumentPreset = (templateId: string, name: string) =>
+    updateArgumentPresets(
+      templateId,
+      (argumentPresets[templateId] || []).filter(
+        (preset) => preset.name !== name,
+      ),
+    );
+
+  // Language server is shared by all editors. Files of the opened project
+  // replace the documents of the previous one, so it's started only once.
+  const [languageSession] = useState(() => new CadenceLanguageSession());
+
+  useEffect(() => () => languageSession.dispose(), []);
+
+  const [problems, setProblems] = useState<ProjectProblems>({});
+
+  useEffect(() => languageSession.onProblemsChange(setProblems), []);
+
+  useEffect(() => {
+    if (project) {
+      languageSession.syncDocuments(getProjectFiles(project));
+    }
+  }, [project]);
+
+  const [formatOptions, setFormatOptionsState] = useState(readFormatOptions);
+
+  useEffect(() => {
+    setFormatOptions(formatOptions);
+  }, [formatOptions]);
+
+  const updateFormatOptions = (options: Partial<CadenceFormatOptions>) => {
+    const updated = { ...formatOptions, ...options };
+    setFormatOptionsState(updated);
+    writeFormatOptions(updated);
+  };
+
+  const [editorReveal, setEditorReveal] = useState<EditorReveal | null>(null);
+
+  const revealInEditor = (
+    file: ProjectFile,
+    range: EditorRange,
+    highlight?: Highlight,
+  ) => {
+    const projectPath = isUUUID(project.id) ? project.id : 'local';
+    navigate(getFilePath(projectPath, file));
+    setEditorReveal({ id: file.id, range, highlight });
+  };
+
+  const undo = async () => {
+    try {
+      await history.undo();
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const redo = async () => {
+    try {
+      await history.redo();
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  useUndoRedoShortcuts(undo, redo);
+
+  // Mirror local projects to IndexedDB, so they can be restored after reload
+  const localDraft =
+    project && isLocal && getActiveDraftId()
+      ? createDraft(getActiveDraftId(), project)
+      : null;
+  const localDraftContent = localDraft
+    ? JSON.stringify({ ...localDraft, updatedAt: null })
+    : null;
+
+  // Content of the draft when it was opened. New and cloned projects are only
+  // stored once they are edited, so idle visits don't push out older drafts
+  const draftBaseline = useRef<{ draftId: string; content: string } | null>(
+    null,
+  );
+
+  useEffect(() => {
+    if (!localDraft) {
+      return;
+    }
+    const baseline = draftBaseline.current;
+    if (!baseline || baseline.draftId !== localDraft.id) {
+      draftBaseline.current = {
+        draftId: localDraft.id,
+        content: localDraftContent,
+      };
+      return;
+    }
+    if (baseline.content === localDraftContent) {
+      return;
+    }
+    const saveTimeout = setTimeout(() => {
+      saveDraft(localDraft).catch((e) => console.error(e));
+    }, DRAFT_SAVE_DELAY);
+    return () => clearTimeout(saveTimeout);
+  }, [localDraftContent]);
 
   let timeout: any;
 
@@ -122,11 +475,14 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({
     return res;
   };
 
-  const updateAccountDraftCode = async (value: string) => {
+  const updateAccountDraftCode = async (
+    value: string,
+    index: number = active.index,
+  ) => {
     clearTimeout(timeout);
     setIsSaving(true);
     const res = await mutator.updateAccountDraftCode(
-      project.accounts[active.index],
+      project.accounts[index],
       value,
     );
     timeout = setTimeout(() => {
@@ -256,32 +612,56 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({
     setTransactionAccounts(accountIndexes);
   };
 
-  const getActiveEditor = (): ActiveEditor => {
-    switch (active.type) {
+  // Editors of other entities than the active one are shown in the split view
+  const getEditor = (type: EntityType, index: number): ActiveEditor => {
+    const withSave = (
+      onChange: (code: string, title?: string) => Promise<any>,
+    ) => ({
+      onChange,
+      onSave: async (code: string) => {
+        const saved = formatOptions.formatOnSave
+          ? formatCadence(code, formatOptions)
+          : code;
+        await onChange(saved);
+        return saved;
+      },
+    });
+
+    switch (type) {
       case EntityType.Account:
         return {
-          type: active.type,
-          index: active.index,
-          onChange: (code: string) => updateAccountDraftCode(code),
+          type,
+          index,
+          ...withSave((code: string) => updateAccountDraftCode(code, index)),
         };
       case EntityType.TransactionTemplate:
         return {
-          type: active.type,
-          index: active.index,
-          onChange: (code: any, title: string) =>
-            updateActiveTransactionTemplate(code, title),
+          type,
+          index,
+          ...withSave((code: any, title: string) =>
+            updateTransactionTemplate(
+              project.transactionTemplates[index].id,
+              code,
+              title,
+            ),
+          ),
         };
       case EntityType.ScriptTemplate:
         return {
-          type: active.type,
-          index: active.index,
-          onChange: (code: any, title: string) =>
-            updateActiveScriptTemplate(code, title),
+          type,
+          index,
+          ...withSave((code: any, title: string) =>
+            updateScriptTemplate(
+              project.scriptTemplates[index].id,
+              code,
+              title,
+            ),
+          ),
         };
     }
   };
 
-  const activeEditor = getActiveEditor();
+  const activeEditor = getEditor(active.type, active.index);
 
   const location = useLocation();
 
@@ -433,10 +813,34 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({
         updateSelectedContractAccount,
         updateSelectedTransactionAccounts,
         active: activeEditor,
+        getEditor,
         setActive: (type: EntityType, index: number) => {
           setActive({ type, index });
         },
         transactionAccounts,
+        undo,
+        redo,
+        canUndo: history.canUndo,
+        canRedo: history.canRedo,
+        undoLabel: history.undoLabel,
+        redoLabel: history.redoLabel,
+        conflicts,
+        resolveConflict,
+        raiseEditConflict,
+        accountProfiles,
+        getAccountLabel: (address: string) =>
+          getAccountLabel(accountProfiles, address),
+        updateAccountProfile,
+        argumentPresets,
+        saveArgumentPreset,
+        deleteArgumentPreset,
+        editorReveal,
+        revealInEditor,
+        clearEditorReveal: () => setEditorReveal(null),
+        languageSession,
+        problems,
+        formatOptions,
+        updateFormatOptions,
       }}
     >
       {children}
@@ -144,6 +144,23 @@ export function createDefaultProject(): Project {
   );
 }
 
+// Addresses are hex encoded and zero padded to 20 bytes, like the API ones
+export function getLocalAccountAddress(index: number): string {
+  return `${"0".repeat(40)}${(index + 1).toString(16)}`.slice(-40);
+}
+
+export function createLocalAccount(index: number, draftCode: string): Account {
+  return {
+    __typename: "Account",
+    id: `LOCAL-account-${index}`,
+    address: getLocalAccountAddress(index),
+    draftCode,
+    deployedCode: "",
+    deployedContracts: [],
+    state: ""
+  };
+}
+
 type ScriptDetails = {
   code: string,
   title: string
@@ -156,18 +173,9 @@ export function createLocalProject(
   transactionTemplates: Array<ScriptDetails>,
   scriptTemplates: Array<ScriptDetails>
 ): Project {
-  const accountEntities: Account[] = accounts.map((script, i) => {
-    return {
-      __typename: "Account",
-      id: `LOCAL-account-${i}`,
-      address: `000000000000000000000000000000000000000${i + 1}`,
-      title: "",
-      draftCode: script,
-      deployedCode: "",
-      deployedContracts: [],
-      state: ""
-    };
-  });
+  const accountEntities: Account[] = accounts.map((script, i) =>
+    createLocalAccount(i, script)
+  );
 
   const transactionTemplatesEntities: TransactionTemplate[] = transactionTemplates.map(
     (script, i) => {
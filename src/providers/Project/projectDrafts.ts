@@ -0,0 +1,163 @@
+import { Project } from 'api/apollo/generated/graphql';
+import { uuid } from '../../util/rng';
+import { createLocalProject } from './projectDefault';
+import { SnapshotTemplate } from './projectSnapshots';
+
+// Local projects only exist in the Apollo cache, so they are mirrored
+// to IndexedDB to survive page reloads and crashed tabs
+
+export type LocalDraft = {
+  id: string;
+  parentId: string | null;
+  seed: number;
+  updatedAt: string;
+  accounts: string[];
+  transactionTemplates: SnapshotTemplate[];
+  scriptTemplates: SnapshotTemplate[];
+};
+
+const DB_NAME = 'flow-playground';
+const DB_VERSION = 1;
+const DRAFTS_STORE = 'drafts';
+
+// Oldest drafts are dropped once there are more than that
+const MAX_DRAFTS = 20;
+
+// Draft of the current tab, kept in session storage so reloading the page
+// restores the same draft while other tabs keep their own
+const ACTIVE_DRAFT_KEY = 'flow-playground:active-draft';
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (!window.indexedDB) {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow to retry on the next call
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DRAFTS_STORE, mode);
+    const request = run(transaction.objectStore(DRAFTS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function getActiveDraftId(): string | null {
+  return window.sessionStorage.getItem(ACTIVE_DRAFT_KEY);
+}
+
+export function setActiveDraftId(draftId: string) {
+  window.sessionStorage.setItem(ACTIVE_DRAFT_KEY, draftId);
+}
+
+export function startNewDraft(): string {
+  const draftId = uuid();
+  setActiveDraftId(draftId);
+  return draftId;
+}
+
+export function clearActiveDraftId() {
+  window.sessionStorage.removeItem(ACTIVE_DRAFT_KEY);
+}
+
+// Key of the data tied to a draft, such as its sync channel
+export function getDraftKey(draftId: string): string {
+  return `draft:${draftId}`;
+}
+
+export function createDraft(draftId: string, project: Project): LocalDraft {
+  return {
+    id: draftId,
+    parentId: project.parentId || null,
+    seed: project.seed,
+    updatedAt: new Date().toISOString(),
+    accounts: project.accounts.map((account) => account.draftCode),
+    transactionTemplates: project.transactionTemplates.map((tpl) => ({
+      title: tpl.title,
+      script: tpl.script,
+    })),
+    scriptTemplates: project.scriptTemplates.map((tpl) => ({
+      title: tpl.title,
+      script: tpl.script,
+    })),
+  };
+}
+
+export function draftToProject(draft: LocalDraft): Project {
+  return createLocalProject(
+    draft.parentId,
+    draft.seed,
+    draft.accounts,
+    draft.transactionTemplates.map((tpl) => ({
+      code: tpl.script,
+      title: tpl.title,
+    })),
+    draft.scriptTemplates.map((tpl) => ({
+      code: tpl.script,
+      title: tpl.title,
+    })),
+  );
+}
+
+export async function listDrafts(): Promise<LocalDraft[]> {
+  const drafts = await withStore<LocalDraft[]>('readonly', (store) =>
+    store.getAll(),
+  );
+  return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function loadDraft(draftId: string): Promise<LocalDraft | undefined> {
+  return withStore<LocalDraft | undefined>('readonly', (store) =>
+    store.get(draftId),
+  );
+}
+
+export async function saveDraft(draft: LocalDraft) {
+  await withStore('readwrite', (store) => store.put(draft));
+
+  const drafts = await listDrafts();
+  for (const outdated of drafts.slice(MAX_DRAFTS)) {
+    await deleteDraft(outdated.id);
+  }
+}
+
+export async function deleteDraft(draftId: string) {
+  await withStore('readwrite', (store) => store.delete(draftId));
+}
+
+// Resolves with the draft of the current tab, if there is one
+export async function loadActiveDraft(): Promise<LocalDraft | null> {
+  const draftId = getActiveDraftId();
+  if (!draftId) {
+    return null;
+  }
+  try {
+    return (await loadDraft(draftId)) || null;
+  } catch (e) {
+    console.error(e);
+    return null;
+  }
+}
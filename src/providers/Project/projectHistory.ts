@@ -0,0 +1,158 @@
+// ProjectHistory keeps a log of project-level operations (template creation,
+// deletion and renaming, contract deployment) together with their inverses,
+// so they can be undone and redone independently of the editor's own history.
+
+export type ProjectOperation = {
+  label: string;
+  undo: () => Promise<any>;
+  redo: () => Promise<any>;
+};
+
+type HistoryListener = () => void;
+
+const HISTORY_LIMIT = 50;
+
+export default class ProjectHistory {
+  private done: ProjectOperation[] = [];
+  private undone: ProjectOperation[] = [];
+  private listeners: HistoryListener[] = [];
+  private replaying = false;
+  private suspended = 0;
+  // Templates deleted and created again get new ids, operations
+  // recorded before still refer to them by the previous ones
+  private replacedIds: { [id: string]: string } = {};
+  private projectId: string | null = null;
+
+  get canUndo(): boolean {
+    return this.done.length > 0 && !this.replaying;
+  }
+
+  get canRedo(): boolean {
+    return this.undone.length > 0 && !this.replaying;
+  }
+
+  get undoLabel(): string | null {
+    return this.done.length > 0 ? this.done[this.done.length - 1].label : null;
+  }
+
+  get redoLabel(): string | null {
+    return this.undone.length > 0
+      ? this.undone[this.undone.length - 1].label
+      : null;
+  }
+
+  record(operation: ProjectOperation) {
+    // Operations triggered while replaying are the inverses themselves
+    if (this.replaying || this.suspended > 0) {
+      return;
+    }
+
+    this.done.push(operation);
+    if (this.done.length > HISTORY_LIMIT) {
+      this.done.shift();
+    }
+    this.undone = [];
+    this.notify();
+  }
+
+  async undo() {
+    if (!this.canUndo) {
+      return;
+    }
+
+    const operation = this.done.pop();
+    try {
+      await this.replay(operation.undo);
+    } catch (e) {
+      this.done.push(operation);
+      this.notify();
+      throw e;
+    }
+    this.undone.push(operation);
+    this.notify();
+  }
+
+  async redo() {
+    if (!this.canRedo) {
+      return;
+    }
+
+    const operation = this.undone.pop();
+    try {
+      await this.replay(operation.redo);
+    } catch (e) {
+      this.undone.push(operation);
+      this.notify();
+      throw e;
+    }
+    this.done.push(operation);
+    this.notify();
+  }
+
+  // Runs an action without recording the operations it performs,
+  // so the caller can record them as a single operation instead
+  async withoutRecording<T>(action: () => Promise<T>): Promise<T> {
+    this.suspended += 1;
+    try {
+      return await action();
+    } finally {
+      this.suspended -= 1;
+    }
+  }
+
+  replaceId(previousId: string, id: string) {
+    this.replacedIds[previousId] = id;
+  }
+
+  getCurrentId(id: string): string {
+    let current = id;
+    while (this.replacedIds[current]) {
+      current = this.replacedIds[current];
+    }
+    return current;
+  }
+
+  // Operations only apply to the project they were recorded for,
+  // they are dropped when another project is opened
+  setProject(projectId: string) {
+    if (projectId !== this.projectId) {
+      this.projectId = projectId;
+      this.clear();
+    }
+  }
+
+  // Saving a local project keeps its history, templates get the ids
+  // assigned by the API
+  moveProject(projectId: string, ids: { [previousId: string]: string }) {
+    this.projectId = projectId;
+    Object.keys(ids).forEach((id) => this.replaceId(id, ids[id]));
+  }
+
+  clear() {
+    this.done = [];
+    this.undone = [];
+    this.replacedIds = {};
+    this.notify();
+  }
+
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((item) => item !== listener);
+    };
+  }
+
+  private async replay(action: () => Promise<any>) {
+    this.replaying = true;
+    this.notify();
+    try {
+      await action();
+    } finally {
+      this.replaying = false;
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -1,4 +1,4 @@
-import { useContext } from "react";
+import { useContext, useEffect, useState } from "react";
 import { useQuery } from "@apollo/react-hooks";
 
 import { GET_PROJECT, GET_LOCAL_PROJECT } from "api/apollo/queries";
@@ -6,9 +6,25 @@ import { GET_PROJECT, GET_LOCAL_PROJECT } from "api/apollo/queries";
 import { Project } from "api/apollo/generated/graphql";
 import { ProjectContext, ProjectContextValue } from "./index";
 import { createDefaultProject, createLocalProject } from "./projectDefault";
+import {
+  LocalDraft,
+  draftToProject,
+  loadActiveDraft,
+  startNewDraft
+} from "./projectDrafts";
+
+function writeDraftProject(client: any, draft: LocalDraft) {
+  client.writeData({
+    data: {
+      activeProject: true,
+      localProject: draftToProject(draft)
+    }
+  });
+}
 
 function writeDefaultProject(client: any) {
   const defaultProject = createDefaultProject();
+  startNewDraft();
 
   client.writeData({
     data: {
@@ -19,6 +35,7 @@ function writeDefaultProject(client: any) {
 }
 
 function cloneProject(client: any, project: Project) {
+  startNewDraft();
   const localProject = createLocalProject(
     project.id,
     project.seed,
@@ -61,9 +78,31 @@ export default function useGetProject(
     skip: isNewProject
   });
 
+  // Draft of this tab is restored from IndexedDB before creating a new project
+  const [isRestoringDraft, setRestoringDraft] = useState(!isActiveProject);
+  const [draft, setDraft] = useState<LocalDraft | null>(null);
+
+  useEffect(() => {
+    if (!isRestoringDraft) {
+      return;
+    }
+    loadActiveDraft().then(activeDraft => {
+      setDraft(activeDraft);
+      setRestoringDraft(false);
+    });
+  }, []);
+
+  if (isRestoringDraft) {
+    return { project: null, isLocal: false, isClone: false, isLoading: true };
+  }
+
   if (isNewProject) {
     if (!isActiveProject) {
-      writeDefaultProject(client);
+      if (draft && !draft.parentId) {
+        writeDraftProject(client, draft);
+      } else {
+        writeDefaultProject(client);
+      }
     }
 
     return {
@@ -92,7 +131,11 @@ export default function useGetProject(
 
   if (!isMutable) {
     if (!isActiveProject) {
-      cloneProject(client, remoteProject);
+      if (draft && draft.parentId === remoteProject.id) {
+        writeDraftProject(client, draft);
+      } else {
+        cloneProject(client, remoteProject);
+      }
     }
 
     return {
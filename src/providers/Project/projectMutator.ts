@@ -5,41 +5,223 @@ import ApolloClient from 'apollo-client';
 import {
   CREATE_PROJECT,
   PERSIST_PROJECT,
+  CREATE_PROJECT_SNAPSHOT,
+  DELETE_PROJECT_SNAPSHOT,
+  UPDATE_ARGUMENT_PRESETS,
+  UPDATE_ACCOUNT_PROFILES,
   SET_ACTIVE_PROJECT,
   UPDATE_ACCOUNT_DRAFT_CODE,
   UPDATE_ACCOUNT_DEPLOYED_CODE,
+  CREATE_ACCOUNT,
+  DELETE_ACCOUNT,
   UPDATE_TRANSACTION_TEMPLATE,
+  UPDATE_TRANSACTION_TEMPLATE_INDEX,
   CREATE_TRANSACTION_EXECUTION,
   CREATE_TRANSACTION_TEMPLATE,
   CREATE_SCRIPT_EXECUTION,
   UPDATE_SCRIPT_TEMPLATE,
+  UPDATE_SCRIPT_TEMPLATE_INDEX,
   CREATE_SCRIPT_TEMPLATE,
   DELETE_SCRIPT_TEMPLATE,
   DELETE_TRANSACTION_TEMPLATE,
 } from 'api/apollo/mutations';
-import { Project, Account } from 'api/apollo/generated/graphql';
-import { GET_LOCAL_PROJECT, GET_PROJECT } from 'api/apollo/queries';
+import {
+  Project,
+  Account,
+  TransactionTemplate,
+  ScriptTemplate,
+} from 'api/apollo/generated/graphql';
+import {
+  GET_LOCAL_PROJECT,
+  GET_PROJECT,
+  GET_PROJECT_SNAPSHOTS,
+  GET_ARGUMENT_PRESETS,
+  GET_ACCOUNT_PROFILES,
+} from 'api/apollo/queries';
+import { ApiFeature, isApiFeatureSupported } from 'api/apollo/features';
 
 import Mixpanel from '../../util/mixpanel';
+import { AccountProfiles, MAX_ACCOUNTS } from '../../util/accounts';
+import { ImportedProject, ImportedTemplate } from '../../util/project-import';
+import { strToSeed, uuid } from '../../util/rng';
 import {
   registerOnCloseSaveMessage,
   unregisterOnCloseSaveMessage,
 } from '../../util/onclose';
+import {
+  FileKind,
+  getProjectFiles,
+  ProjectFile,
+} from '../../util/project-files';
+import ProjectHistory from './projectHistory';
+import ProjectSync, { FileUpdate, SyncConflict } from './projectSync';
+import {
+  clearActiveDraftId,
+  createDraft,
+  deleteDraft,
+  draftToProject,
+  getActiveDraftId,
+  getDraftKey,
+  LocalDraft,
+  saveDraft,
+  setActiveDraftId,
+  startNewDraft,
+} from './projectDrafts';
+import { createLocalAccount, createLocalProject } from './projectDefault';
+import {
+  moveAccountProfiles,
+  readAccountProfiles,
+  writeAccountProfiles,
+} from './accountProfiles';
+import {
+  ArgumentPresets,
+  moveArgumentPresets,
+  readArgumentPresets,
+  TemplateIds,
+  writeArgumentPresets,
+} from './argumentPresets';
+import { getImportedPresets, getImportedProfiles } from './projectSettings';
+import {
+  moveLocalSnapshots,
+  ProjectSnapshot,
+  readLocalSnapshots,
+  takeSnapshot,
+  writeLocalSnapshots,
+} from './projectSnapshots';
+
+// Templates created by the API keep the order of the local ones
+const getTemplateIds = (
+  localTemplates: { id: string }[],
+  templates: { id: string; index: number }[] = [],
+): TemplateIds =>
+  localTemplates.reduce((ids: TemplateIds, template, index) => {
+    const created = templates.find((item) => item.index === index);
+    if (created) {
+      ids[template.id] = created.id;
+    }
+    return ids;
+  }, {});
+
+// Guards against endless walks through broken or cyclic fork chains
+const LINEAGE_DEPTH = 20;
 
 export default class ProjectMutator {
   client: ApolloClient<object>;
   projectId: string | null = null;
   isLocal: boolean;
+  history: ProjectHistory | null;
+  sync: ProjectSync | null;
   track: any;
 
   constructor(
     client: ApolloClient<object>,
     projectId: string | null,
     isLocal: boolean,
+    history: ProjectHistory | null = null,
+    sync: ProjectSync | null = null,
   ) {
     this.client = client;
     this.projectId = projectId;
     this.isLocal = isLocal;
+    this.history = history;
+    this.sync = sync;
+  }
+
+  private readProject(): Project | null {
+    try {
+      const { project } = this.isLocal
+        ? this.client.readQuery({ query: GET_LOCAL_PROJECT })
+        : this.client.readQuery({
+            query: GET_PROJECT,
+            variables: { projectId: this.projectId },
+          });
+      return project;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private findTemplate(
+    key: 'transactionTemplates' | 'scriptTemplates',
+    templateId: string,
+  ): { script: string; title: string } | null {
+    const project = this.readProject();
+    if (!project) {
+      return null;
+    }
+    const templates: Array<TransactionTemplate | ScriptTemplate> = project[key];
+    const template = templates.find((tpl) => tpl.id === templateId);
+    return template ? { script: template.script, title: template.title } : null;
+  }
+
+  private recordRename(
+    key: 'transactionTemplates' | 'scriptTemplates',
+    templateId: string,
+    previousTitle: string,
+    title: string,
+  ) {
+    const rename = async (newTitle: string) => {
+      const id = this.getCurrentId(templateId);
+      const current = this.findTemplate(key, id);
+      if (!current) {
+        throw new Error(`Template ${id} doesn't exist anymore`);
+      }
+      if (key === 'transactionTemplates') {
+        await this.updateTransactionTemplate(id, current.script, newTitle);
+      } else {
+        await this.updateScriptTemplate(id, current.script, newTitle);
+      }
+    };
+
+    this.history?.record({
+      label: `Rename "${previousTitle}" to "${title}"`,
+      undo: () => rename(previousTitle),
+      redo: () => rename(title),
+    });
+  }
+
+  // Templates get new ids when undo or redo creates them again
+  private getCurrentId(templateId: string): string {
+    return this.history ? this.history.getCurrentId(templateId) : templateId;
+  }
+
+  private findTemplateIndex(
+    key: 'transactionTemplates' | 'scriptTemplates',
+    templateId: string,
+  ): number {
+    const project = this.readProject();
+    return project
+      ? project[key].findIndex((tpl: { id: string }) => tpl.id === templateId)
+      : -1;
+  }
+
+  // Puts a template created again by undo back where it was deleted from,
+  // templates are listed by their index
+  private async moveTemplate(
+    key: 'transactionTemplates' | 'scriptTemplates',
+    templateId: string,
+    index: number,
+  ) {
+    const currentIndex = this.findTemplateIndex(key, templateId);
+    if (index < 0 || currentIndex === index) {
+      return;
+    }
+
+    await this.client.mutate({
+      mutation:
+        key === 'transactionTemplates'
+          ? UPDATE_TRANSACTION_TEMPLATE_INDEX
+          : UPDATE_SCRIPT_TEMPLATE_INDEX,
+      variables: {
+        projectId: this.projectId,
+        templateId,
+        index,
+      },
+      refetchQueries: [
+        { query: GET_PROJECT, variables: { projectId: this.projectId } },
+      ],
+      awaitRefetchQueries: true,
+    });
   }
 
   async createProject(): Promise<Project> {
@@ -75,6 +257,40 @@ export default class ProjectMutator {
     this.projectId = project.id;
     this.isLocal = false;
 
+    const templateIds = {
+      ...getTemplateIds(
+        localProject.transactionTemplates,
+        project.transactionTemplates,
+      ),
+      ...getTemplateIds(localProject.scriptTemplates, project.scriptTemplates),
+    };
+    this.history?.moveProject(project.id, templateIds);
+
+    // Project is stored by the API now, local draft is not needed anymore
+    const draftId = getActiveDraftId();
+    if (draftId) {
+      clearActiveDraftId();
+      deleteDraft(draftId).catch((e) => console.error(e));
+      moveAccountProfiles(getDraftKey(draftId), project.id);
+      moveLocalSnapshots(getDraftKey(draftId), project.id);
+      moveArgumentPresets(getDraftKey(draftId), project.id, templateIds);
+    }
+
+    // Presets and profiles are stored with the project from now on,
+    // before it's opened and they are read from there
+    const presets = readArgumentPresets(project.id);
+    const profiles = readAccountProfiles(project.id);
+    try {
+      if (Object.keys(presets).length > 0) {
+        await this.saveArgumentPresets(presets);
+      }
+      if (Object.keys(profiles).length > 0) {
+        await this.saveAccountProfiles(profiles);
+      }
+    } catch (e) {
+      console.error(e);
+    }
+
     this.client.mutate({
       mutation: SET_ACTIVE_PROJECT,
       variables: {
@@ -110,7 +326,516 @@ export default class ProjectMutator {
     navigate(`/${this.projectId}`, { replace: true });
   }
 
+  // Replaces the local project with a draft restored from the browser storage
+  async openDraft(draft: LocalDraft) {
+    setActiveDraftId(draft.id);
+    this.openLocalProject(draftToProject(draft));
+  }
+
+  // Creates a new local project out of files imported by the user
+  async importProject(imported: ImportedProject) {
+    const withFallback = (templates: ImportedTemplate[]) =>
+      templates.length > 0 ? templates : [{ title: '', code: '' }];
+
+    const project = createLocalProject(
+      null,
+      strToSeed(uuid()),
+      imported.accounts,
+      withFallback(imported.transactionTemplates),
+      withFallback(imported.scriptTemplates),
+    );
+
+    // Unlike new projects, imported ones are stored before their first edit
+    const draftId = startNewDraft();
+    const presets = getImportedPresets(imported, project);
+    if (Object.keys(presets).length > 0) {
+      writeArgumentPresets(getDraftKey(draftId), presets);
+    }
+    const profiles = getImportedProfiles(imported);
+    if (Object.keys(profiles).length > 0) {
+      writeAccountProfiles(getDraftKey(draftId), profiles);
+    }
+    this.openLocalProject(project);
+    saveDraft(createDraft(draftId, project)).catch((e) => console.error(e));
+    Mixpanel.track('Project imported', {
+      contracts: imported.accounts.filter((code) => code !== '').length,
+      transactions: imported.transactionTemplates.length,
+      scripts: imported.scriptTemplates.length,
+    });
+  }
+
+  private openLocalProject(project: Project) {
+    this.client.writeData({
+      data: {
+        activeProjectId: null,
+        activeProject: true,
+        localProject: project,
+      },
+    });
+    this.history?.clear();
+
+    const projectPath = project.parentId || 'local';
+    navigate(`/${projectPath}?type=account&id=${project.accounts[0].id}`);
+  }
+
+  private findFile(kind: FileKind, id: string): ProjectFile | null {
+    const project = this.readProject();
+    if (!project) {
+      return null;
+    }
+    const file = getProjectFiles(project).find(
+      (file) => file.kind === kind && file.id === id,
+    );
+    return file || null;
+  }
+
+  private publishFileUpdate(file: ProjectFile, code: string, title: string) {
+    if (!this.sync) {
+      return;
+    }
+    const baseCode = this.getSharedCode(file);
+    if (baseCode === code && file.title === title) {
+      return;
+    }
+    this.sync.publish({
+      kind: file.kind,
+      id: file.id,
+      title: title === undefined ? file.title : title,
+      code,
+      baseCode,
+    });
+  }
+
+  // Code other tabs last saw, edits of remote projects reach the cache
+  // only once the API has stored them
+  private getSharedCode(file: ProjectFile): string {
+    const sharedCode = this.sync?.getSharedCode(file.kind, file.id);
+    return sharedCode === undefined ? file.code : sharedCode;
+  }
+
+  // Only the cache is updated, as the tab that made the edit
+  // already sent it to the API
+  private writeFileToCache(
+    kind: FileKind,
+    id: string,
+    code: string,
+    title: string,
+  ) {
+    switch (kind) {
+      case 'account':
+        this.client.writeData({
+          id: `Account:${id}`,
+          data: {
+            __typename: 'Account',
+            draftCode: code,
+          },
+        });
+        break;
+      case 'tx':
+        this.client.writeData({
+          id: `TransactionTemplate:${id}`,
+          data: {
+            __typename: 'TransactionTemplate',
+            script: code,
+            title,
+          },
+        });
+        break;
+      case 'script':
+        this.client.writeData({
+          id: `ScriptTemplate:${id}`,
+          data: {
+            __typename: 'ScriptTemplate',
+            script: code,
+            title,
+          },
+        });
+        break;
+    }
+  }
+
+  // Applies an edit made in another tab. Returns a conflict
+  // when the file was changed in this tab in the meantime.
+  receiveFileUpdate(update: FileUpdate): SyncConflict | null {
+    const file = this.findFile(update.kind, update.id);
+    if (!file || (file.code === update.code && file.title === update.title)) {
+      return null;
+    }
+
+    const code = this.getSharedCode(file);
+    if (code !== update.baseCode) {
+      return {
+        kind: file.kind,
+        id: file.id,
+        title: file.title,
+        mine: code,
+        theirs: update.code,
+        theirsTitle: update.title,
+      };
+    }
+
+    this.writeFileToCache(update.kind, update.id, update.code, update.title);
+    return null;
+  }
+
+  // Conflict of edits which the editor has not stored yet with the code
+  // of the file, which was changed elsewhere in the meantime
+  getEditConflict(id: string, mine: string): SyncConflict | null {
+    const project = this.readProject();
+    const file =
+      project && getProjectFiles(project).find((item) => item.id === id);
+    if (!file || file.code === mine) {
+      return null;
+    }
+    return {
+      kind: file.kind,
+      id: file.id,
+      title: file.title,
+      mine,
+      theirs: file.code,
+      theirsTitle: file.title,
+    };
+  }
+
+  async resolveConflict(conflict: SyncConflict, keepMine: boolean) {
+    const file = this.findFile(conflict.kind, conflict.id);
+    if (!file) {
+      return;
+    }
+
+    // Mine are the edits shown in the conflict, which might not be stored yet
+    const [code, title, baseCode] = keepMine
+      ? [conflict.mine, file.title, conflict.theirs]
+      : [conflict.theirs, conflict.theirsTitle, file.code];
+
+    if (keepMine) {
+      // The other tab could have stored its version already, so store ours again
+      const save = () => this.saveFile(file, code, title);
+      await (this.sync ? this.sync.withoutPublishing(save) : save());
+    } else {
+      this.writeFileToCache(file.kind, file.id, code, title);
+    }
+
+    this.sync?.publish({ kind: file.kind, id: file.id, title, code, baseCode });
+  }
+
+  private async saveFile(file: ProjectFile, code: string, title: string) {
+    const save = async () => {
+      const project = this.readProject();
+      switch (file.kind) {
+        case 'account':
+          await this.updateAccountDraftCode(project.accounts[file.index], code);
+          break;
+        case 'tx':
+          await this.updateTransactionTemplate(file.id, code, title);
+          break;
+        case 'script':
+          await this.updateScriptTemplate(file.id, code, title);
+          break;
+      }
+    };
+    return this.history ? this.history.withoutRecording(save) : save();
+  }
+
+  // Every local project has the same id, so their snapshots are told apart
+  // by the draft they belong to
+  private getSnapshotsKey(): string {
+    const draftId = this.isLocal ? getActiveDraftId() : null;
+    return draftId ? getDraftKey(draftId) : this.projectId;
+  }
+
+  // Saved projects keep their snapshots in the browser storage too,
+  // when the API doesn't store them
+  private async hasLocalSnapshots(): Promise<boolean> {
+    return (
+      this.isLocal || !(await isApiFeatureSupported(this.client, 'snapshots'))
+    );
+  }
+
+  async getSnapshots(): Promise<ProjectSnapshot[]> {
+    if (await this.hasLocalSnapshots()) {
+      return readLocalSnapshots(this.getSnapshotsKey());
+    }
+
+    const { data } = await this.client.query({
+      query: GET_PROJECT_SNAPSHOTS,
+      variables: { projectId: this.projectId },
+      fetchPolicy: 'network-only',
+    });
+    return data.snapshots;
+  }
+
+  async createSnapshot(title: string): Promise<ProjectSnapshot> {
+    const snapshot = takeSnapshot(this.readProject(), title);
+
+    if (await this.hasLocalSnapshots()) {
+      const key = this.getSnapshotsKey();
+      writeLocalSnapshots(key, [...readLocalSnapshots(key), snapshot]);
+      return snapshot;
+    }
+
+    const { data } = await this.client.mutate({
+      mutation: CREATE_PROJECT_SNAPSHOT,
+      variables: {
+        projectId: this.projectId,
+        title: snapshot.title,
+        accounts: snapshot.accounts,
+        transactionTemplates: snapshot.transactionTemplates,
+        scriptTemplates: snapshot.scriptTemplates,
+      },
+    });
+    Mixpanel.track('Project snapshot created', { projectId: this.projectId });
+    return data.snapshot;
+  }
+
+  async deleteSnapshot(snapshotId: string) {
+    if (await this.hasLocalSnapshots()) {
+      const key = this.getSnapshotsKey();
+      writeLocalSnapshots(
+        key,
+        readLocalSnapshots(key).filter(
+          (snapshot) => snapshot.id !== snapshotId,
+        ),
+      );
+      return;
+    }
+
+    await this.client.mutate({
+      mutation: DELETE_PROJECT_SNAPSHOT,
+      variables: {
+        projectId: this.projectId,
+        snapshotId,
+      },
+    });
+  }
+
+  private async isStoredByApi(feature: ApiFeature): Promise<boolean> {
+    return !this.isLocal && (await isApiFeatureSupported(this.client, feature));
+  }
+
+  // Presets stored with the project, when the API supports it.
+  // Otherwise they are only kept in the browser storage and this is null
+  async getArgumentPresets(): Promise<ArgumentPresets | null> {
+    if (!(await this.isStoredByApi('argumentPresets'))) {
+      return null;
+    }
+
+    const { data } = await this.client.query({
+      query: GET_ARGUMENT_PRESETS,
+      variables: { projectId: this.projectId },
+      fetchPolicy: 'network-only',
+    });
+    return data.argumentPresets ? JSON.parse(data.argumentPresets) : {};
+  }
+
+  async saveArgumentPresets(presets: ArgumentPresets) {
+    if (!(await this.isStoredByApi('argumentPresets'))) {
+      return;
+    }
+
+    await this.client.mutate({
+      mutation: UPDATE_ARGUMENT_PRESETS,
+      variables: {
+        projectId: this.projectId,
+        presets: JSON.stringify(presets),
+      },
+    });
+  }
+
+  // Same as presets, profiles are null when not stored with the project
+  async getAccountProfiles(): Promise<AccountProfiles | null> {
+    if (!(await this.isStoredByApi('accountProfiles'))) {
+      return null;
+    }
+
+    const { data } = await this.client.query({
+      query: GET_ACCOUNT_PROFILES,
+      variables: { projectId: this.projectId },
+      fetchPolicy: 'network-only',
+    });
+    return data.accountProfiles ? JSON.parse(data.accountProfiles) : {};
+  }
+
+  async saveAccountProfiles(profiles: AccountProfiles) {
+    if (!(await this.isStoredByApi('accountProfiles'))) {
+      return;
+    }
+
+    await this.client.mutate({
+      mutation: UPDATE_ACCOUNT_PROFILES,
+      variables: {
+        projectId: this.projectId,
+        profiles: JSON.stringify(profiles),
+      },
+    });
+  }
+
+  async restoreSnapshot(snapshot: ProjectSnapshot) {
+    await this.recordAsSingleOperation(`Restore "${snapshot.title}"`, () =>
+      this.applySnapshot(snapshot),
+    );
+  }
+
+  // Returns ancestors of the project, starting with its direct parent
+  async getLineage(): Promise<Project[]> {
+    const project = this.readProject();
+    const lineage: Project[] = [];
+    const visited = new Set([this.projectId]);
+
+    let parentId = project ? project.parentId : null;
+    while (
+      parentId &&
+      !visited.has(parentId) &&
+      lineage.length < LINEAGE_DEPTH
+    ) {
+      visited.add(parentId);
+      try {
+        const { data } = await this.client.query({
+          query: GET_PROJECT,
+          variables: { projectId: parentId },
+        });
+        if (!data || !data.project) {
+          break;
+        }
+        lineage.push(data.project);
+        parentId = data.project.parentId;
+      } catch (e) {
+        // Ancestor is not reachable anymore, show what we have so far
+        console.error(e);
+        break;
+      }
+    }
+
+    return lineage;
+  }
+
+  // Replaces files of the project with the given versions,
+  // e.g. to pull changes from the parent project or to replace search matches
+  async pullFiles(files: ProjectFile[], label: string) {
+    await this.recordAsSingleOperation(label, async () => {
+      for (const file of files) {
+        const project = this.readProject();
+        switch (file.kind) {
+          case 'account': {
+            const account = project.accounts[file.index];
+            if (account && account.draftCode !== file.code) {
+              await this.updateAccountDraftCode(account, file.code);
+            }
+            break;
+          }
+          case 'tx': {
+            const template = project.transactionTemplates[file.index];
+            if (!template) {
+              await this.createTransactionTemplate(file.code, file.title);
+            } else {
+              await this.updateTransactionTemplate(
+                template.id,
+                file.code,
+                file.title,
+              );
+            }
+            break;
+          }
+          case 'script': {
+            const template = project.scriptTemplates[file.index];
+            if (!template) {
+              await this.createScriptTemplate(file.code, file.title);
+            } else {
+              await this.updateScriptTemplate(
+                template.id,
+                file.code,
+                file.title,
+              );
+            }
+            break;
+          }
+        }
+      }
+    });
+  }
+
+  // Runs a batch of changes and records it in the history as one operation,
+  // which is undone and redone by restoring the state before and after it
+  private async recordAsSingleOperation(
+    label: string,
+    action: () => Promise<any>,
+  ) {
+    const before = takeSnapshot(this.readProject(), 'Before');
+    if (this.history) {
+      await this.history.withoutRecording(action);
+    } else {
+      await action();
+    }
+    const after = takeSnapshot(this.readProject(), 'After');
+
+    this.history?.record({
+      label,
+      undo: () => this.applySnapshot(before),
+      redo: () => this.applySnapshot(after),
+    });
+  }
+
+  // Brings accounts and templates to the state captured in the snapshot.
+  // Every change goes through the regular update methods,
+  // and is recorded in the history by the caller as a single operation.
+  private async applySnapshot(snapshot: ProjectSnapshot) {
+    const apply = async () => {
+      const project = this.readProject();
+
+      for (let i = 0; i < project.accounts.length; i++) {
+        const code = snapshot.accounts[i];
+        const account = project.accounts[i];
+        if (code !== undefined && account.draftCode !== code) {
+          await this.updateAccountDraftCode(account, code);
+        }
+      }
+
+      const transactionTemplates = project.transactionTemplates;
+      for (let i = 0; i < snapshot.transactionTemplates.length; i++) {
+        const { script, title } = snapshot.transactionTemplates[i];
+        const template = transactionTemplates[i];
+        if (!template) {
+          await this.createTransactionTemplate(script, title);
+        } else if (template.script !== script || template.title !== title) {
+          await this.updateTransactionTemplate(template.id, script, title);
+        }
+      }
+      for (
+        let i = snapshot.transactionTemplates.length;
+        i < transactionTemplates.length;
+        i++
+      ) {
+        await this.deleteTransactionTemplate(transactionTemplates[i].id);
+      }
+
+      const scriptTemplates = project.scriptTemplates;
+      for (let i = 0; i < snapshot.scriptTemplates.length; i++) {
+        const { script, title } = snapshot.scriptTemplates[i];
+        const template = scriptTemplates[i];
+        if (!template) {
+          await this.createScriptTemplate(script, title);
+        } else if (template.script !== script || template.title !== title) {
+          await this.updateScriptTemplate(template.id, script, title);
+        }
+      }
+      for (
+        let i = snapshot.scriptTemplates.length;
+        i < scriptTemplates.length;
+        i++
+      ) {
+        await this.deleteScriptTemplate(scriptTemplates[i].id);
+      }
+    };
+
+    return this.history ? this.history.withoutRecording(apply) : apply();
+  }
+
   async updateAccountDraftCode(account: Account, code: string) {
+    const previous = this.findFile('account', account.id);
+    if (previous) {
+      this.publishFileUpdate(previous, code, previous.title);
+    }
+
     if (this.isLocal) {
       this.client.writeData({
         id: `Account:${account.id}`,
@@ -135,6 +860,33 @@ export default class ProjectMutator {
   }
 
   async updateAccountDeployedCode(account: Account, index: number) {
+    const previousCode = account.deployedCode;
+    const code = account.draftCode;
+
+    const res = await this.deployAccountCode(account, index, code);
+
+    // Undoing the first deployment deploys empty code
+    const redeploy = (deployedCode: string) =>
+      this.deployAccountCode(
+        this.readProject().accounts[index],
+        index,
+        deployedCode,
+      );
+    const action = previousCode ? 'Redeploy' : 'Deploy';
+    this.history?.record({
+      label: `${action} 0x${account.address.slice(-2)}`,
+      undo: () => redeploy(previousCode || ''),
+      redo: () => redeploy(code),
+    });
+
+    return res;
+  }
+
+  private async deployAccountCode(
+    account: Account,
+    index: number,
+    code: string,
+  ) {
     if (this.isLocal) {
       const project = await this.createProject();
       account = project.accounts[index];
@@ -146,7 +898,7 @@ export default class ProjectMutator {
       variables: {
         projectId: this.projectId,
         accountId: account.id,
-        code: account.draftCode,
+        code,
       },
       refetchQueries: [
         { query: GET_PROJECT, variables: { projectId: this.projectId } },
@@ -155,7 +907,7 @@ export default class ProjectMutator {
     Mixpanel.track('Contract deployed', {
       projectId: this.projectId,
       accountId: account.id,
-      code: account.draftCode,
+      code,
     });
     return res;
   }
@@ -165,6 +917,21 @@ export default class ProjectMutator {
     script: string,
     title: string,
   ) {
+    const previous = this.findTemplate('transactionTemplates', templateId);
+    if (previous && title !== undefined && previous.title !== title) {
+      this.recordRename(
+        'transactionTemplates',
+        templateId,
+        previous.title,
+        title,
+      );
+    }
+
+    const file = this.findFile('tx', templateId);
+    if (file) {
+      this.publishFileUpdate(file, script, title);
+    }
+
     if (this.isLocal) {
       this.client.writeData({
         id: `TransactionTemplate:${templateId}`,
@@ -191,6 +958,107 @@ export default class ProjectMutator {
     });
   }
 
+  // Accounts of saved projects can only be added and removed when the API
+  // supports it, otherwise they keep the accounts they were created with
+  async canChangeAccounts(): Promise<boolean> {
+    return (
+      this.isLocal || (await isApiFeatureSupported(this.client, 'accounts'))
+    );
+  }
+
+  private async checkCanChangeAccounts() {
+    if (!(await this.canChangeAccounts())) {
+      throw new Error("Accounts of saved projects can't be changed");
+    }
+  }
+
+  async createAccount(draftCode: string = '') {
+    const project = this.readProject();
+    if (project && project.accounts.length >= MAX_ACCOUNTS) {
+      throw new Error(`Projects can't have more than ${MAX_ACCOUNTS} accounts`);
+    }
+    await this.checkCanChangeAccounts();
+
+    const res = this.isLocal
+      ? this.addLocalAccount(draftCode)
+      : await this.client.mutate({
+          mutation: CREATE_ACCOUNT,
+          variables: {
+            projectId: this.projectId,
+            draftCode,
+          },
+          refetchQueries: [
+            { query: GET_PROJECT, variables: { projectId: this.projectId } },
+          ],
+          awaitRefetchQueries: true,
+        });
+
+    Mixpanel.track('Account created', { projectId: this.projectId });
+
+    const account = res.data?.createAccount;
+    if (account) {
+      this.history?.record({
+        label: `Add account 0x${account.address.slice(-2)}`,
+        undo: () => this.removeLastAccount(),
+        redo: () => this.createAccount(draftCode),
+      });
+    }
+
+    return res;
+  }
+
+  // Only the last account can be removed, so addresses of the others
+  // and imports pointing to them stay valid
+  async removeLastAccount() {
+    const project = this.readProject();
+    const index = project.accounts.length - 1;
+    if (index < 1) {
+      return;
+    }
+    await this.checkCanChangeAccounts();
+    const account = project.accounts[index];
+
+    if (this.isLocal) {
+      this.writeLocalAccounts(project.accounts.slice(0, index));
+    } else {
+      await this.client.mutate({
+        mutation: DELETE_ACCOUNT,
+        variables: {
+          projectId: this.projectId,
+          accountId: account.id,
+        },
+        refetchQueries: [
+          { query: GET_PROJECT, variables: { projectId: this.projectId } },
+        ],
+        awaitRefetchQueries: true,
+      });
+    }
+
+    this.history?.record({
+      label: `Remove account 0x${account.address.slice(-2)}`,
+      undo: () => this.createAccount(account.draftCode),
+      redo: () => this.removeLastAccount(),
+    });
+  }
+
+  // Like other edits of local projects, accounts are only kept in the cache
+  private writeLocalAccounts(accounts: Account[]) {
+    const project = this.readProject();
+    this.client.writeData({
+      data: {
+        localProject: { ...project, accounts },
+      },
+    });
+    registerOnCloseSaveMessage();
+  }
+
+  private addLocalAccount(draftCode: string) {
+    const { accounts } = this.readProject();
+    const account = createLocalAccount(accounts.length, draftCode);
+    this.writeLocalAccounts([...accounts, account]);
+    return { data: { createAccount: account } };
+  }
+
   async createTransactionExecution(
     script: string,
     signers: Account[],
@@ -247,6 +1115,19 @@ export default class ProjectMutator {
       script,
     });
 
+    const templateId = res.data?.createTransactionTemplate?.id;
+    this.history?.record({
+      label: `Create "${title}"`,
+      undo: () => this.deleteTransactionTemplate(this.getCurrentId(templateId)),
+      redo: async () => {
+        const { data } = await this.createTransactionTemplate(script, title);
+        this.history.replaceId(
+          this.getCurrentId(templateId),
+          data.createTransactionTemplate.id,
+        );
+      },
+    });
+
     return res;
   }
 
@@ -255,6 +1136,16 @@ export default class ProjectMutator {
     script: string,
     title: string,
   ) {
+    const previous = this.findTemplate('scriptTemplates', templateId);
+    if (previous && title !== undefined && previous.title !== title) {
+      this.recordRename('scriptTemplates', templateId, previous.title, title);
+    }
+
+    const file = this.findFile('script', templateId);
+    if (file) {
+      this.publishFileUpdate(file, script, title);
+    }
+
     if (this.isLocal) {
       this.client.writeData({
         id: `ScriptTemplate:${templateId}`,
@@ -282,8 +1173,11 @@ export default class ProjectMutator {
   }
 
   async deleteTransactionTemplate(templateId: string) {
+    const template = this.findTemplate('transactionTemplates', templateId);
+    const index = this.findTemplateIndex('transactionTemplates', templateId);
+
     if (this.isLocal) {
-      this.createProject();
+      await this.createProject();
     }
 
     const res = await this.client.mutate({
@@ -297,12 +1191,32 @@ export default class ProjectMutator {
       ],
     });
 
+    if (template) {
+      this.history?.record({
+        label: `Delete "${template.title}"`,
+        undo: async () => {
+          const { data } = await this.createTransactionTemplate(
+            template.script,
+            template.title,
+          );
+          const { id } = data.createTransactionTemplate;
+          this.history.replaceId(this.getCurrentId(templateId), id);
+          await this.moveTemplate('transactionTemplates', id, index);
+        },
+        redo: () =>
+          this.deleteTransactionTemplate(this.getCurrentId(templateId)),
+      });
+    }
+
     return res;
   }
 
   async deleteScriptTemplate(templateId: string) {
+    const template = this.findTemplate('scriptTemplates', templateId);
+    const index = this.findTemplateIndex('scriptTemplates', templateId);
+
     if (this.isLocal) {
-      this.createProject();
+      await this.createProject();
     }
 
     const res = await this.client.mutate({
@@ -316,6 +1230,22 @@ export default class ProjectMutator {
       ],
     });
 
+    if (template) {
+      this.history?.record({
+        label: `Delete "${template.title}"`,
+        undo: async () => {
+          const { data } = await this.createScriptTemplate(
+            template.script,
+            template.title,
+          );
+          const { id } = data.createScriptTemplate;
+          this.history.replaceId(this.getCurrentId(templateId), id);
+          await this.moveTemplate('scriptTemplates', id, index);
+        },
+        redo: () => this.deleteScriptTemplate(this.getCurrentId(templateId)),
+      });
+    }
+
     return res;
   }
 
@@ -362,6 +1292,19 @@ export default class ProjectMutator {
       script,
     });
 
+    const templateId = res.data?.createScriptTemplate?.id;
+    this.history?.record({
+      label: `Create "${title}"`,
+      undo: () => this.deleteScriptTemplate(this.getCurrentId(templateId)),
+      redo: async () => {
+        const { data } = await this.createScriptTemplate(script, title);
+        this.history.replaceId(
+          this.getCurrentId(templateId),
+          data.createScriptTemplate.id,
+        );
+      },
+    });
+
     return res;
   }
 }
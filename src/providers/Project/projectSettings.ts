@@ -0,0 +1,95 @@
+import { Project } from 'api/apollo/generated/graphql';
+import { AccountProfiles } from '../../util/accounts';
+import { ImportedProject, ImportedTemplate } from '../../util/project-import';
+import { ArgumentPreset, ArgumentPresets } from './argumentPresets';
+
+// Settings of the playground exported next to the sources of a project,
+// so they are kept when it's imported again. Templates get new ids then,
+// presets are keyed by the paths of the templates in the Cadence folder.
+// Accounts keep their addresses, profiles are keyed by them as in the project
+
+export type ExportedSettings = {
+  argumentPresets?: { [path: string]: ArgumentPreset[] };
+  accountProfiles?: AccountProfiles;
+};
+
+type TemplateFolder = 'transactions' | 'scripts';
+
+// Same as the paths of the files written by `createZip`
+const getTemplatePath = (folder: TemplateFolder, title: string) =>
+  `${folder}/${title}.cdc`;
+
+export const exportSettings = (
+  project: Project,
+  presets: ArgumentPresets,
+  profiles: AccountProfiles,
+): string => {
+  const argumentPresets: ExportedSettings['argumentPresets'] = {};
+  const addPresets = (
+    folder: TemplateFolder,
+    templates: { id: string; title: string }[],
+  ) =>
+    templates.forEach((template) => {
+      const templatePresets = presets[template.id] || [];
+      if (templatePresets.length > 0) {
+        argumentPresets[
+          getTemplatePath(folder, template.title)
+        ] = templatePresets;
+      }
+    });
+  addPresets('transactions', project.transactionTemplates);
+  addPresets('scripts', project.scriptTemplates);
+
+  const settings: ExportedSettings = {
+    argumentPresets,
+    accountProfiles: profiles,
+  };
+  return JSON.stringify(settings, null, 2);
+};
+
+// Broken settings don't stop the sources from being imported
+const parseSettings = (code: string): ExportedSettings => {
+  try {
+    const settings = JSON.parse(code);
+    return settings && typeof settings === 'object' ? settings : {};
+  } catch (e) {
+    console.error(e);
+    return {};
+  }
+};
+
+const getImportedSettings = (imported: ImportedProject): ExportedSettings =>
+  imported.settings ? parseSettings(imported.settings) : {};
+
+// Presets of the imported templates, keyed by the ids the templates got
+// in the project created out of them
+export const getImportedPresets = (
+  imported: ImportedProject,
+  project: Project,
+): ArgumentPresets => {
+  const { argumentPresets = {} } = getImportedSettings(imported);
+  const paths = Object.keys(argumentPresets);
+
+  const presets: ArgumentPresets = {};
+  const addPresets = (
+    importedTemplates: ImportedTemplate[],
+    templates: { id: string }[],
+  ) =>
+    importedTemplates.forEach((template, index) => {
+      // Exported folders might be nested in the imported ones
+      const source = template.path || '';
+      const path = paths.find(
+        (item) => source === item || source.endsWith(`/${item}`),
+      );
+      if (path && templates[index]) {
+        presets[templates[index].id] = argumentPresets[path];
+      }
+    });
+  addPresets(imported.transactionTemplates, project.transactionTemplates);
+  addPresets(imported.scriptTemplates, project.scriptTemplates);
+  return presets;
+};
+
+export const getImportedProfiles = (
+  imported: ImportedProject,
+): AccountProfiles => getImportedSettings(imported).accountProfiles || {};
@@ -0,0 +1,98 @@
+import { Project } from 'api/apollo/generated/graphql';
+import { getAccountTitleByIndex, ProjectFile } from '../../util/project-files';
+import { uuid } from '../../util/rng';
+
+export type SnapshotTemplate = {
+  title: string;
+  script: string;
+};
+
+export type ProjectSnapshot = {
+  id: string;
+  title: string;
+  createdAt: string;
+  accounts: string[];
+  transactionTemplates: SnapshotTemplate[];
+  scriptTemplates: SnapshotTemplate[];
+};
+
+const STORAGE_PREFIX = 'flow-playground:snapshots';
+
+export function takeSnapshot(project: Project, title: string): ProjectSnapshot {
+  return {
+    id: uuid(),
+    title,
+    createdAt: new Date().toISOString(),
+    accounts: project.accounts.map((account) => account.draftCode),
+    transactionTemplates: project.transactionTemplates.map((tpl) => ({
+      title: tpl.title,
+      script: tpl.script,
+    })),
+    scriptTemplates: project.scriptTemplates.map((tpl) => ({
+      title: tpl.title,
+      script: tpl.script,
+    })),
+  };
+}
+
+export function getSnapshotFiles(snapshot: ProjectSnapshot): ProjectFile[] {
+  return [
+    ...snapshot.accounts.map(
+      (code, index): ProjectFile => ({
+        kind: 'account',
+        index,
+        id: '',
+        title: getAccountTitleByIndex(index),
+        code,
+      }),
+    ),
+    ...snapshot.transactionTemplates.map(
+      (tpl, index): ProjectFile => ({
+        kind: 'tx',
+        index,
+        id: '',
+        title: tpl.title,
+        code: tpl.script,
+      }),
+    ),
+    ...snapshot.scriptTemplates.map(
+      (tpl, index): ProjectFile => ({
+        kind: 'script',
+        index,
+        id: '',
+        title: tpl.title,
+        code: tpl.script,
+      }),
+    ),
+  ];
+}
+
+// Snapshots of local projects are kept in the browser storage, keyed by
+// draft, as there is no project on the API side to attach them to.
+// Saved projects keep them there too, keyed by id, when the API doesn't
+// store snapshots
+
+const storageKey = (key: string) => `${STORAGE_PREFIX}:${key}`;
+
+export function readLocalSnapshots(key: string): ProjectSnapshot[] {
+  try {
+    const stored = window.localStorage.getItem(storageKey(key));
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error(e);
+    return [];
+  }
+}
+
+export function writeLocalSnapshots(key: string, snapshots: ProjectSnapshot[]) {
+  window.localStorage.setItem(storageKey(key), JSON.stringify(snapshots));
+}
+
+// Snapshots follow a local project once it's saved to the API
+export function moveLocalSnapshots(fromKey: string, toKey: string) {
+  const snapshots = readLocalSnapshots(fromKey);
+  if (snapshots.length > 0) {
+    writeLocalSnapshots(toKey, snapshots);
+  }
+  window.localStorage.removeItem(storageKey(fromKey));
+}
@@ -0,0 +1,90 @@
+import { FileKind } from '../../util/project-files';
+import { uuid } from '../../util/rng';
+
+// Describes an edit of a single file. `baseCode` is the code the edit
+// was made on, which lets the receiving tab detect concurrent edits.
+export type FileUpdate = {
+  kind: FileKind;
+  id: string;
+  title: string;
+  code: string;
+  baseCode: string;
+};
+
+export type SyncConflict = {
+  kind: FileKind;
+  id: string;
+  title: string;
+  mine: string;
+  theirs: string;
+  theirsTitle: string;
+};
+
+type SyncMessage = {
+  tabId: string;
+  update: FileUpdate;
+};
+
+const CHANNEL_PREFIX = 'flow-playground:project';
+
+const getFileKey = (kind: FileKind, id: string) => `${kind}:${id}`;
+
+// Shares file edits between browser tabs which have the same project open
+export default class ProjectSync {
+  private readonly tabId = uuid();
+  private channel: BroadcastChannel | null = null;
+  private suspended = 0;
+  // Code of each file as it was last published or received,
+  // which the next edit of the file is based on
+  private sharedCode: { [file: string]: string } = {};
+
+  connect(projectKey: string, onUpdate: (update: FileUpdate) => void) {
+    this.disconnect();
+    this.sharedCode = {};
+
+    if (typeof BroadcastChannel === 'undefined') {
+      return;
+    }
+
+    this.channel = new BroadcastChannel(`${CHANNEL_PREFIX}:${projectKey}`);
+    this.channel.onmessage = (event: MessageEvent) => {
+      const message: SyncMessage = event.data;
+      if (message && message.tabId !== this.tabId) {
+        const { kind, id, code } = message.update;
+        onUpdate(message.update);
+        this.sharedCode[getFileKey(kind, id)] = code;
+      }
+    };
+  }
+
+  disconnect() {
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    }
+  }
+
+  publish(update: FileUpdate) {
+    if (!this.channel || this.suspended > 0) {
+      return;
+    }
+    this.sharedCode[getFileKey(update.kind, update.id)] = update.code;
+    const message: SyncMessage = { tabId: this.tabId, update };
+    this.channel.postMessage(message);
+  }
+
+  getSharedCode(kind: FileKind, id: string): string | undefined {
+    return this.sharedCode[getFileKey(kind, id)];
+  }
+
+  // Runs an action without sending its edits to other tabs,
+  // e.g. when the edit came from another tab in the first place
+  async withoutPublishing<T>(action: () => Promise<T>): Promise<T> {
+    this.suspended += 1;
+    try {
+      return await action();
+    } finally {
+      this.suspended -= 1;
+    }
+  }
+}
@@ -0,0 +1,255 @@
+import { getAccountTitleByIndex } from './project-files';
+
+// Names given to playground accounts in exported tests,
+// accounts past the end of the list get numbered names
+const ACCOUNT_NAMES = [
+  'Alice',
+  'Bob',
+  'Charlie',
+  'Dave',
+  'Eve',
+  'Frank',
+  'Grace',
+  'Heidi',
+  'Ivan',
+  'Judy',
+  'Mallory',
+  'Niaj',
+  'Olivia',
+  'Peggy',
+  'Rupert',
+  'Sybil',
+  'Trent',
+  'Victor',
+  'Walter',
+];
+
+// Upper bound for accounts in a single project
+export const MAX_ACCOUNTS = 20;
+
+export const getAccountName = (index: number): string =>
+  ACCOUNT_NAMES[index] || `Account${index + 1}`;
+
+// Index of the account with short address like 0x01 or full address
+export const getAccountIndex = (address: string): number | null => {
+  const index = parseInt(address, 16) - 1;
+  return isNaN(index) || index < 0 ? null : index;
+};
+
+export const getNameByAddress = (address: string): string | undefined => {
+  const index = getAccountIndex(address);
+  return index === null || index >= MAX_ACCOUNTS
+    ? undefined
+    : getAccountName(index);
+};
+
+// Whether redeploying would change the contract of the account,
+// accounts without deployed code have nothing to compare the draft to
+export const hasUndeployedChanges = (account: {
+  draftCode: string;
+  deployedCode: string;
+}): boolean =>
+  !!account.deployedCode && account.draftCode !== account.deployedCode;
+
+// Names of the contracts deployed to the account, e.g. "Token, Market"
+export const getDeployedContracts = (account: {
+  deployedContracts: string[];
+}): string =>
+  account.deployedContracts
+    .map((contract) => contract.split('.').slice(-1)[0])
+    .join(', ');
+
+// Index of the project account with the address, in short or full form
+export const findAccountIndex = (
+  address: string,
+  amount: number,
+): number | null => {
+  if (!/^0x[0-9a-fA-F]+$/.test(address.trim())) {
+    return null;
+  }
+  const index = getAccountIndex(address.trim());
+  return index !== null && index < amount ? index : null;
+};
+
+// Short addresses of the first `amount` accounts: 0x01, 0x02, ...
+export const getAccountAddresses = (amount: number): string[] =>
+  Array.from({ length: amount }, (_, index) => getAccountTitleByIndex(index));
+
+// Alias and color picked by the user for an account
+export type AccountProfile = {
+  alias?: string;
+  color?: string;
+};
+
+// Profiles of project accounts keyed by short address
+export type AccountProfiles = { [address: string]: AccountProfile };
+
+// Colors given to accounts which don't have one picked
+export const ACCOUNT_COLORS = [
+  '#3B3CFF',
+  '#00A884',
+  '#F5A623',
+  '#E5484D',
+  '#8E4EC6',
+  '#0091FF',
+  '#D6409F',
+  '#6E56CF',
+];
+
+export const getAccountColor = (index: number): string =>
+  ACCOUNT_COLORS[index % ACCOUNT_COLORS.length];
+
+export type AccountLabel = {
+  address: string;
+  alias: string;
+  color: string;
+  // Alias when there is one, short address otherwise
+  title: string;
+};
+
+export const getAccountLabel = (
+  profiles: AccountProfiles,
+  address: string,
+): AccountLabel => {
+  const index = getAccountIndex(address);
+  const short =
+    index === null || index >= MAX_ACCOUNTS
+      ? address
+      : getAccountTitleByIndex(index);
+  const profile = profiles[short] || {};
+  const alias = (profile.alias || '').trim();
+  return {
+    address: short,
+    alias,
+    color: profile.color || getAccountColor(index || 0),
+    title: alias || short,
+  };
+};
+
+// Words JavaScript reserves, and names the exported tests use for their
+// own constants and imports, accounts are declared next to them
+const RESERVED_IDENTIFIERS = [
+  'arguments',
+  'await',
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'debugger',
+  'default',
+  'delete',
+  'do',
+  'else',
+  'enum',
+  'eval',
+  'export',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'function',
+  'if',
+  'implements',
+  'import',
+  'in',
+  'Infinity',
+  'instanceof',
+  'interface',
+  'let',
+  'NaN',
+  'new',
+  'null',
+  'package',
+  'private',
+  'protected',
+  'public',
+  'return',
+  'static',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'typeof',
+  'undefined',
+  'var',
+  'void',
+  'while',
+  'with',
+  'yield',
+  '_',
+  'accounts',
+  'addressMap',
+  'args',
+  'basePath',
+  'beforeAll',
+  'code',
+  'console',
+  'deployContractByName',
+  'describe',
+  'executeScript',
+  'expect',
+  'getAccountAddress',
+  'getContractAddress',
+  'getScriptCode',
+  'getTransactionCode',
+  'init',
+  'match',
+  'name',
+  'path',
+  'require',
+  'result',
+  'sendTransaction',
+  'signers',
+  'test',
+  'to',
+  'txResult',
+  'types',
+];
+
+// Aliases have to be turned into valid JavaScript identifiers
+// to be used as variable names in exported tests
+const toIdentifier = (alias: string): string => {
+  const identifier = alias.replace(/[^\w$]/g, '');
+  return /^\d/.test(identifier) ? `_${identifier}` : identifier;
+};
+
+// Names used for accounts in exported tests keyed by short address
+export type AccountNames = { [address: string]: string };
+
+// Aliases take precedence over the default names. Names which are taken,
+// by other accounts, by the tests or by contracts in `reserved`,
+// get a number appended
+export const getAccountNames = (
+  amount: number,
+  profiles: AccountProfiles = {},
+  reserved: string[] = [],
+): AccountNames => {
+  const names: AccountNames = {};
+  const used: string[] = [...RESERVED_IDENTIFIERS, ...reserved];
+  getAccountAddresses(amount).forEach((address, index) => {
+    const alias = toIdentifier(getAccountLabel(profiles, address).alias);
+    const base = alias || getAccountName(index);
+    let name = base;
+    for (let n = 2; used.includes(name); n++) {
+      name = `${base}${n}`;
+    }
+    used.push(name);
+    names[address] = name;
+  });
+  return names;
+};
+
+// Adds aliases to account addresses mentioned in a text,
+// e.g. "Deployed Contract To: Treasury (0x01)"
+export const labelAddresses = (
+  text: string,
+  profiles: AccountProfiles,
+): string =>
+  text.replace(/\b0x[0-9a-fA-F]+\b/g, (address) => {
+    const { alias } = getAccountLabel(profiles, address);
+    return alias ? `${alias} (${address})` : address;
+  });
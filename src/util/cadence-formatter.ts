@@ -0,0 +1,275 @@
+// Formats Cadence code line by line: indents blocks, places opening braces
+// and normalizes spaces. Strings and comments are kept as they are.
+
+export type BraceStyle = 'sameLine' | 'nextLine';
+
+export type CadenceFormatOptions = {
+  indentSize: number;
+  insertSpaces: boolean;
+  braceStyle: BraceStyle;
+  spaceAroundOperators: boolean;
+  spaceAfterComma: boolean;
+  // Used by the editor, code is formatted before it's saved
+  formatOnSave: boolean;
+};
+
+export const DEFAULT_FORMAT_OPTIONS: CadenceFormatOptions = {
+  indentSize: 4,
+  insertSpaces: true,
+  braceStyle: 'sameLine',
+  spaceAroundOperators: true,
+  spaceAfterComma: true,
+  formatOnSave: false,
+};
+
+type Segment = {
+  isCode: boolean;
+  text: string;
+};
+
+type ScannedLine = {
+  segments: Segment[];
+  // The line ends inside of a block comment
+  inComment: boolean;
+};
+
+const OPENERS = '{([';
+const CLOSERS = '})]';
+
+// Longest operators first, so that `==` is not taken for `=`
+const OPERATORS = /\s*(<-!|<-|==|!=|<=|>=|&&|\|\||\?\?|=)\s*/g;
+
+// Expressions continue on the next line after binary operators,
+// or when the next line starts with one or with a member access
+const CONTINUED_END = /(?:[+\-*\/%=]|<-!|&&|\|\||\?\?)$/;
+const CONTINUING_START = /^(?:\.|&&|\|\||\?\?)/;
+
+// Braces of restricted types stay attached, as in `&{Receiver}`,
+// `&Vault{Receiver}`, `@{UInt64: NFT}` or `<AnyStruct{Receiver}>`.
+// Others open blocks and are separated from the code before them
+const isTypeBrace = (before: string) =>
+  /[\s({\[&<@]$/.test(before) || /[&@<][\w.]+$/.test(before);
+
+const spaceBlockBraces = (code: string) =>
+  code.replace(/\{/g, (brace, offset) =>
+    offset === 0 || isTypeBrace(code.slice(0, offset)) ? brace : ' {',
+  );
+
+const scanLine = (line: string, inComment: boolean): ScannedLine => {
+  const segments: Segment[] = [];
+  const push = (isCode: boolean, text: string) => {
+    if (text) {
+      segments.push({ isCode, text });
+    }
+  };
+
+  let code = '';
+  let i = 0;
+  while (i < line.length) {
+    if (inComment) {
+      const end = line.indexOf('*/', i);
+      if (end < 0) {
+        push(false, line.slice(i));
+        i = line.length;
+      } else {
+        push(false, line.slice(i, end + 2));
+        i = end + 2;
+        inComment = false;
+      }
+      continue;
+    }
+
+    const rest = line.slice(i);
+    if (rest.startsWith('//')) {
+      push(true, code);
+      code = '';
+      push(false, rest);
+      break;
+    }
+    if (rest.startsWith('/*')) {
+      push(true, code);
+      code = '';
+      inComment = true;
+      continue;
+    }
+    if (line[i] === '"') {
+      push(true, code);
+      code = '';
+      let end = i + 1;
+      while (end < line.length && line[end] !== '"') {
+        end += line[end] === '\\' ? 2 : 1;
+      }
+      push(false, line.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+
+    code += line[i];
+    i += 1;
+  }
+  push(true, code);
+
+  return { segments, inComment };
+};
+
+const normalizeCode = (code: string, options: CadenceFormatOptions): string => {
+  let result = code.replace(/\s+/g, ' ');
+  if (options.spaceAroundOperators) {
+    result = result.replace(OPERATORS, ' $1 ');
+  }
+  if (options.spaceAfterComma) {
+    result = result.replace(/\s*,\s*/g, ', ');
+  }
+  return spaceBlockBraces(
+    result.replace(/([(\[])\s+/g, '$1').replace(/\s+([)\]])/g, '$1'),
+  ).replace(/\s+/g, ' ');
+};
+
+const joinSegments = (segments: Segment[], options: CadenceFormatOptions) =>
+  segments
+    .map((segment) =>
+      segment.isCode ? normalizeCode(segment.text, options) : segment.text,
+    )
+    .join('')
+    .trim();
+
+const countBrackets = (segments: Segment[]) =>
+  segments
+    .filter((segment) => segment.isCode)
+    .reduce(
+      (count, segment) =>
+        count +
+        segment.text
+          .split('')
+          .reduce(
+            (sum, char) =>
+              sum +
+              (OPENERS.includes(char) ? 1 : CLOSERS.includes(char) ? -1 : 0),
+            0,
+          ),
+      0,
+    );
+
+const countLeadingClosers = (text: string) => {
+  let count = 0;
+  while (count < text.length && CLOSERS.includes(text[count])) {
+    count += 1;
+  }
+  return count;
+};
+
+const endsWithCode = (segments: Segment[]) =>
+  segments.length > 0 && segments[segments.length - 1].isCode;
+
+// Normalizes the lines and moves opening braces according to the brace style
+const normalizeLines = (
+  lines: string[],
+  options: CadenceFormatOptions,
+): string[] => {
+  const result: string[] = [];
+  // Whether the last line ended with code, so a brace can be appended to it
+  let canAppendBrace = false;
+  let inComment = false;
+
+  lines.forEach((line) => {
+    if (inComment) {
+      const scanned = scanLine(line, inComment);
+      inComment = scanned.inComment;
+      result.push(line.replace(/\s+$/, ''));
+      canAppendBrace = false;
+      return;
+    }
+
+    const scanned = scanLine(line, inComment);
+    inComment = scanned.inComment;
+    const text = joinSegments(scanned.segments, options);
+
+    // Consecutive empty lines are collapsed
+    if (!text) {
+      if (result.length > 0 && result[result.length - 1] !== '') {
+        result.push('');
+      }
+      canAppendBrace = false;
+      return;
+    }
+
+    if (options.braceStyle === 'sameLine' && text === '{' && canAppendBrace) {
+      result[result.length - 1] += ' {';
+      return;
+    }
+
+    if (
+      options.braceStyle === 'nextLine' &&
+      text.length > 1 &&
+      text.endsWith('{') &&
+      endsWithCode(scanned.segments) &&
+      !inComment &&
+      countLeadingClosers(text) === 0
+    ) {
+      result.push(text.slice(0, -1).replace(/\s+$/, ''));
+      result.push('{');
+      canAppendBrace = false;
+      return;
+    }
+
+    result.push(text);
+    canAppendBrace = endsWithCode(scanned.segments) && !inComment;
+  });
+
+  while (result.length > 0 && result[result.length - 1] === '') {
+    result.pop();
+  }
+  return result;
+};
+
+export const formatCadence = (
+  code: string,
+  options: CadenceFormatOptions = DEFAULT_FORMAT_OPTIONS,
+): string => {
+  const lineBreak = code.includes('\r\n') ? '\r\n' : '\n';
+  const indentUnit = options.insertSpaces
+    ? ' '.repeat(options.indentSize)
+    : '\t';
+
+  const lines = normalizeLines(code.split(/\r\n|\n|\r/), options);
+
+  let level = 0;
+  let inComment = false;
+  // Code of the last line which had any
+  let previousCode = '';
+  const formatted = lines.map((line) => {
+    const startsInComment = inComment;
+    const scanned = scanLine(line, inComment);
+    inComment = scanned.inComment;
+
+    if (!line) {
+      return '';
+    }
+
+    const text = line.replace(/^\s+/, '');
+    const isContinued =
+      !startsInComment &&
+      (CONTINUED_END.test(previousCode) || CONTINUING_START.test(text));
+    // Continuation lines of block comments align with their `/*`
+    const lineLevel = startsInComment
+      ? level
+      : Math.max(0, level - countLeadingClosers(text)) + (isContinued ? 1 : 0);
+    const prefix = startsInComment && text.startsWith('*') ? ' ' : '';
+    level = Math.max(0, level + countBrackets(scanned.segments));
+
+    // Strings count as code, comments don't
+    const code = scanned.segments
+      .map((segment) =>
+        segment.isCode || segment.text.startsWith('"') ? segment.text : '',
+      )
+      .join('')
+      .trim();
+    if (code) {
+      previousCode = code;
+    }
+    return indentUnit.repeat(lineLevel) + prefix + text;
+  });
+
+  const hasFinalLineBreak = /(\r\n|\n|\r)$/.test(code);
+  return formatted.join(lineBreak) + (hasFinalLineBreak ? lineBreak : '');
+};
@@ -0,0 +1,308 @@
+// Outline of the declarations in Cadence code, as shown by the outline panel
+// and the breadcrumbs. The language server provides document symbols,
+// `parseOutline` covers the time until it's running.
+
+export type OutlineKind =
+  | 'contract'
+  | 'resource'
+  | 'struct'
+  | 'interface'
+  | 'event'
+  | 'function'
+  | 'field'
+  | 'transaction'
+  | 'phase';
+
+// Short labels, shown next to the names of symbols
+export const OUTLINE_KIND_LABELS: { [kind in OutlineKind]: string } = {
+  contract: 'contract',
+  resource: 'resource',
+  struct: 'struct',
+  interface: 'interface',
+  event: 'event',
+  function: 'fun',
+  field: 'field',
+  transaction: 'transaction',
+  phase: 'phase',
+};
+
+// Same shape as Monaco ranges, lines and columns start at 1
+export type OutlineRange = {
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+};
+
+export type OutlineSymbol = {
+  name: string;
+  kind: OutlineKind;
+  // Whole declaration, including its body
+  range: OutlineRange;
+  // Name of the declaration
+  selectionRange: OutlineRange;
+  // Signature reported by the language server, e.g. `prepare(acct: AuthAccount)`
+  detail?: string;
+  children: OutlineSymbol[];
+};
+
+type Declaration = {
+  column: number;
+  name: string;
+  kind: OutlineKind;
+  nameColumn: number;
+  hasBody: boolean;
+};
+
+type OpenSymbol = {
+  symbol: OutlineSymbol;
+  // Depth of brackets inside of the body
+  depth: number;
+};
+
+const COMPOSITE_KINDS: OutlineKind[] = [
+  'contract',
+  'resource',
+  'struct',
+  'interface',
+];
+
+const DECLARATIONS: {
+  pattern: RegExp;
+  getDeclaration: (match: RegExpExecArray) => Omit<Declaration, 'column'>;
+}[] = [
+  {
+    pattern: /\b(contract|resource|struct)\s+(interface\s+)?([A-Za-z_]\w*)/g,
+    getDeclaration: (match) => ({
+      name: match[3],
+      kind: match[2] ? 'interface' : (match[1] as OutlineKind),
+      nameColumn: match.index + match[0].length - match[3].length,
+      hasBody: true,
+    }),
+  },
+  {
+    pattern: /\bevent\s+([A-Za-z_]\w*)/g,
+    getDeclaration: (match) => ({
+      name: match[1],
+      kind: 'event',
+      nameColumn: match.index + match[0].length - match[1].length,
+      hasBody: false,
+    }),
+  },
+  {
+    pattern: /\bfun\s+([A-Za-z_]\w*)/g,
+    getDeclaration: (match) => ({
+      name: match[1],
+      kind: 'function',
+      nameColumn: match.index + match[0].length - match[1].length,
+      hasBody: true,
+    }),
+  },
+  {
+    // Special functions are not preceded by `fun`, but by access modifiers
+    pattern: /^(\s*(?:(?:pub|priv|access\([^)]*\))\s+)?)(init|destroy)\s*\(/g,
+    getDeclaration: (match) => ({
+      name: match[2],
+      kind: 'function',
+      nameColumn: match.index + match[1].length,
+      hasBody: true,
+    }),
+  },
+  {
+    pattern: /\b(?:let|var)\s+([A-Za-z_]\w*)/g,
+    getDeclaration: (match) => ({
+      name: match[1],
+      kind: 'field',
+      nameColumn: match.index + match[0].length - match[1].length,
+      hasBody: false,
+    }),
+  },
+  {
+    pattern: /^(\s*)(transaction)\b/g,
+    getDeclaration: (match) => ({
+      name: match[2],
+      kind: 'transaction',
+      nameColumn: match.index + match[1].length,
+      hasBody: true,
+    }),
+  },
+  {
+    pattern: /^(\s*)(prepare|pre|post|execute)\s*[({]/g,
+    getDeclaration: (match) => ({
+      name: match[2],
+      kind: 'phase',
+      nameColumn: match.index + match[1].length,
+      hasBody: true,
+    }),
+  },
+];
+
+// Replaces strings and comments with spaces, so columns are kept
+export const stripLines = (code: string): string[] => {
+  let inComment = false;
+  return code.split(/\r\n|\n|\r/).map((line) => {
+    let result = '';
+    let i = 0;
+    while (i < line.length) {
+      if (inComment) {
+        const end = line.indexOf('*/', i);
+        const next = end < 0 ? line.length : end + 2;
+        result += ' '.repeat(next - i);
+        inComment = end < 0;
+        i = next;
+      } else if (line.startsWith('//', i)) {
+        result += ' '.repeat(line.length - i);
+        i = line.length;
+      } else if (line.startsWith('/*', i)) {
+        inComment = true;
+      } else if (line[i] === '"') {
+        let end = i + 1;
+        while (end < line.length && line[end] !== '"') {
+          end += line[end] === '\\' ? 2 : 1;
+        }
+        const next = Math.min(end + 1, line.length);
+        result += ' '.repeat(next - i);
+        i = next;
+      } else {
+        result += line[i];
+        i += 1;
+      }
+    }
+    return result;
+  });
+};
+
+const findDeclarations = (line: string): Declaration[] =>
+  DECLARATIONS.reduce((declarations: Declaration[], item) => {
+    item.pattern.lastIndex = 0;
+    let match = item.pattern.exec(line);
+    while (match) {
+      const declaration = item.getDeclaration(match);
+      declarations.push({
+        ...declaration,
+        column:
+          match.index + match[0].length - match[0].replace(/^\s+/, '').length,
+      });
+      match = item.pattern.exec(line);
+    }
+    return declarations;
+  }, []).sort((a, b) => a.column - b.column);
+
+// Members of functions and phases are local, they are not part of the outline
+const canDeclare = (parent: OutlineSymbol | null, kind: OutlineKind) => {
+  if (!parent) {
+    return kind !== 'phase' && kind !== 'field';
+  }
+  if (parent.kind === 'transaction') {
+    return kind === 'phase' || kind === 'field';
+  }
+  return COMPOSITE_KINDS.includes(parent.kind) && kind !== 'phase';
+};
+
+export const parseOutline = (code: string): OutlineSymbol[] => {
+  const root: OutlineSymbol[] = [];
+  const open: OpenSymbol[] = [];
+  // Declared, but its body has not started yet. Functions of interfaces
+  // might have no body, the next declaration ends them
+  let pending: OutlineSymbol | null = null;
+  // Parentheses since the pending declaration, braces inside of them
+  // belong to types, e.g. `fun get(): {String: Int}`
+  let parens = 0;
+  let depth = 0;
+
+  const getParent = () =>
+    open.length > 0 ? open[open.length - 1].symbol : null;
+
+  const lines = stripLines(code);
+  lines.forEach((line, lineIndex) => {
+    const lineNumber = lineIndex + 1;
+    const declarations = findDeclarations(line);
+
+    for (let i = 0; i < line.length; i++) {
+      const declaration = declarations.find((item) => item.column === i);
+      if (declaration) {
+        pending = null;
+        const parent = getParent();
+        const isDirectMember = !parent || open[open.length - 1].depth === depth;
+        if (isDirectMember && canDeclare(parent, declaration.kind)) {
+          const symbol: OutlineSymbol = {
+            name: declaration.name,
+            kind: declaration.kind,
+            range: {
+              startLineNumber: lineNumber,
+              startColumn: i + 1,
+              endLineNumber: lineNumber,
+              endColumn: line.replace(/\s+$/, '').length + 1,
+            },
+            selectionRange: {
+              startLineNumber: lineNumber,
+              startColumn: declaration.nameColumn + 1,
+              endLineNumber: lineNumber,
+              endColumn: declaration.nameColumn + declaration.name.length + 1,
+            },
+            children: [],
+          };
+          (parent ? parent.children : root).push(symbol);
+          if (declaration.hasBody) {
+            pending = symbol;
+            parens = 0;
+          }
+        }
+      }
+
+      const char = line[i];
+      if (char === '(') {
+        parens += 1;
+      } else if (char === ')') {
+        parens = Math.max(0, parens - 1);
+      } else if (char === '{') {
+        depth += 1;
+        if (pending && parens === 0 && !/[&:<,]\s*$/.test(line.slice(0, i))) {
+          open.push({ symbol: pending, depth });
+          pending = null;
+        }
+      } else if (char === '}') {
+        const current = open[open.length - 1];
+        if (current && current.depth === depth) {
+          current.symbol.range.endLineNumber = lineNumber;
+          current.symbol.range.endColumn = i + 2;
+          open.pop();
+        }
+        depth = Math.max(0, depth - 1);
+      }
+    }
+  });
+
+  // Declarations of unfinished code end with the code
+  const lastLine = lines.length;
+  const lastColumn = lines[lines.length - 1].length + 1;
+  open.forEach(({ symbol }) => {
+    symbol.range.endLineNumber = lastLine;
+    symbol.range.endColumn = lastColumn;
+  });
+
+  return root;
+};
+
+const containsPosition = (
+  range: OutlineRange,
+  position: { lineNumber: number; column: number },
+) => {
+  const { lineNumber, column } = position;
+  if (lineNumber < range.startLineNumber || lineNumber > range.endLineNumber) {
+    return false;
+  }
+  if (lineNumber === range.startLineNumber && column < range.startColumn) {
+    return false;
+  }
+  return !(lineNumber === range.endLineNumber && column > range.endColumn);
+};
+
+// Symbols containing the position, from the outermost to the innermost one
+export const findSymbolPath = (
+  symbols: OutlineSymbol[],
+  position: { lineNumber: number; column: number },
+): OutlineSymbol[] => {
+  const symbol = symbols.find((item) => containsPosition(item.range, position));
+  return symbol ? [symbol, ...findSymbolPath(symbol.children, position)] : [];
+};
@@ -0,0 +1,122 @@
+import {
+  OutlineRange,
+  OutlineSymbol,
+  parseOutline,
+  stripLines,
+} from './cadence-outline';
+
+// Transactions are signed by the accounts passed to their `prepare` phase,
+// e.g. `prepare(acct: AuthAccount)` takes one signer
+
+export type SignerParameter = {
+  name: string;
+  type: string;
+};
+
+// Only the `prepare` phase of the transaction takes signers, functions
+// of the same name declared elsewhere in the code don't
+const findPrepare = (symbols: OutlineSymbol[]): OutlineSymbol | undefined => {
+  const transaction = symbols.find((symbol) => symbol.kind === 'transaction');
+  return transaction
+    ? transaction.children.find(
+        (symbol) => symbol.kind === 'phase' && symbol.name === 'prepare',
+      )
+    : undefined;
+};
+
+// Splits at commas which are not nested in brackets of types
+const splitParameters = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if ('[{(<'.includes(char)) {
+      depth += 1;
+    } else if (']})>'.includes(char)) {
+      depth -= 1;
+    } else if (char === ',' && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((part) => part.trim()).filter(Boolean);
+};
+
+// Parameters of the list starting at the opening parenthesis
+const parseParameterList = (text: string, open: number): SignerParameter[] => {
+  let depth = 0;
+  let close = open;
+  for (; close < text.length; close++) {
+    if (text[close] === '(') {
+      depth += 1;
+    } else if (text[close] === ')') {
+      depth -= 1;
+      if (depth === 0) {
+        break;
+      }
+    }
+  }
+
+  return splitParameters(text.slice(open + 1, close)).map((parameter) => {
+    // Parameters might have argument labels, e.g. `signer acct: AuthAccount`
+    const match = parameter.match(
+      /^(?:[A-Za-z_]\w*\s+)?([A-Za-z_]\w*)\s*:([^]*)$/,
+    );
+    return match
+      ? { name: match[1], type: match[2].replace(/\s+/g, ' ').trim() }
+      : { name: parameter, type: '' };
+  });
+};
+
+// Parameters of the list following the name of a declaration,
+// which might span lines and contain comments
+export const parseParameters = (
+  code: string,
+  range: OutlineRange,
+): SignerParameter[] => {
+  const lines = stripLines(code);
+  const text = lines.join('\n');
+  const offset =
+    lines
+      .slice(0, range.startLineNumber - 1)
+      .reduce((sum, line) => sum + line.length + 1, 0) +
+    range.startColumn -
+    1;
+
+  const open = text.indexOf('(', offset);
+  const body = text.indexOf('{', offset);
+  if (open < 0 || (body >= 0 && body < open)) {
+    return [];
+  }
+  return parseParameterList(text, open);
+};
+
+// Parameters in the signature of a symbol reported by the language server,
+// null when the server reports no signature
+const parseDetailParameters = (
+  symbol: OutlineSymbol,
+): SignerParameter[] | null => {
+  const { detail } = symbol;
+  const open = detail ? detail.indexOf('(') : -1;
+  return open < 0 ? null : parseParameterList(detail, open);
+};
+
+// Signers of the transaction in the code. Parameters of the `prepare` phase
+// are taken from the program parsed by the language server, when it has
+// one. Otherwise they are read from the code, at the `prepare` phase
+// of the reported outline or of the outline parsed from the code
+export const findSigners = (
+  code: string,
+  outline: OutlineSymbol[] = [],
+): SignerParameter[] => {
+  const reported = findPrepare(outline);
+  const parameters = reported && parseDetailParameters(reported);
+  if (parameters) {
+    return parameters;
+  }
+
+  const prepare = reported || findPrepare(parseOutline(code));
+  return prepare ? parseParameters(code, prepare.selectionRange) : [];
+};
@@ -0,0 +1,145 @@
+import { escapeRegExp, findMatches, SearchMatch } from './project-search';
+
+// Lightweight lookups of declarations and imports in Cadence code.
+// The language server only knows the document it checks,
+// these are used to follow imports into the code of other accounts.
+
+export type CadenceImport = {
+  names: string[];
+  // Hexadecimal address, without the `0x` prefix
+  address: string;
+};
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const DECLARATION_KEYWORDS = 'contract|resource|struct|event|fun|let|var';
+
+export const isIdentifier = (text: string): boolean => IDENTIFIER.test(text);
+
+export const findImports = (code: string): CadenceImport[] => {
+  const imports: CadenceImport[] = [];
+  const pattern = /^\s*import\s+([A-Za-z0-9_,\s]+?)\s+from\s+0x([0-9a-fA-F]+)/gm;
+  let match = pattern.exec(code);
+  while (match) {
+    imports.push({
+      names: match[1]
+        .split(',')
+        .map((name) => name.trim())
+        .filter(isIdentifier),
+      address: match[2],
+    });
+    match = pattern.exec(code);
+  }
+  return imports;
+};
+
+// Address the name is imported from, if any
+export const getImportAddress = (
+  code: string,
+  name: string,
+): string | undefined => {
+  const found = findImports(code).find((item) => item.names.includes(name));
+  return found && found.address;
+};
+
+// Range of the name in its first declaration, e.g. `pub fun name(`
+export const findDeclaration = (
+  code: string,
+  name: string,
+): SearchMatch | null => {
+  if (!isIdentifier(name)) {
+    return null;
+  }
+  const pattern = new RegExp(
+    `\\b(?:${DECLARATION_KEYWORDS})\\s+(?:interface\\s+)?${name}\\b`,
+    'g',
+  );
+  const [match] = findMatches(code, pattern);
+  if (!match) {
+    return null;
+  }
+  return {
+    ...match,
+    startColumn: match.endColumn - name.length,
+  };
+};
+
+// Ranges of the name where it's used as a whole word.
+// With a qualifier, only members accessed through it are matched,
+// e.g. `Token.mint` for the name `mint` and the qualifier `Token`
+export const findReferences = (
+  code: string,
+  name: string,
+  qualifier?: string,
+): SearchMatch[] => {
+  if (!isIdentifier(name)) {
+    return [];
+  }
+  const source = qualifier
+    ? `\\b${escapeRegExp(qualifier)}\\s*\\.\\s*${name}\\b`
+    : `\\b${name}\\b`;
+  return findMatches(code, new RegExp(source, 'g')).map((match) => ({
+    ...match,
+    startColumn: match.endColumn - name.length,
+  }));
+};
+
+// Names of the structs declared in the code, interfaces have no values
+export const findStructNames = (code: string): string[] => {
+  const names: string[] = [];
+  const pattern = /\bstruct\s+(?!interface\b)([A-Za-z_]\w*)/g;
+  let match = pattern.exec(code);
+  while (match) {
+    names.push(match[1]);
+    match = pattern.exec(code);
+  }
+  return names;
+};
+
+// Fields declared directly in the struct, with their types as written,
+// e.g. `pub let owner: Address`. Nested declarations are skipped
+export const findStructFields = (
+  code: string,
+  name: string,
+): { name: string; type: string }[] | null => {
+  if (!isIdentifier(name)) {
+    return null;
+  }
+  const declaration = new RegExp(`\\bstruct\\s+${name}\\b[^{]*\\{`).exec(code);
+  if (!declaration) {
+    return null;
+  }
+
+  // Blanks out everything nested deeper than the body of the struct.
+  // Braces of dictionary and restricted types, like `{String: Int}`, are kept
+  let body = '';
+  const braces: boolean[] = [true];
+  let previous = '{';
+  for (
+    let i = declaration.index + declaration[0].length;
+    i < code.length && braces.length > 0;
+    i++
+  ) {
+    const char = code[i];
+    const inBody = braces.filter(Boolean).length === 1;
+    if (char === '{') {
+      braces.push(!':[<,{&@'.includes(previous));
+    } else if (char === '}') {
+      braces.pop();
+    }
+    body += inBody || char === '\n' ? char : ' ';
+    if (!/\s/.test(char)) {
+      previous = char;
+    }
+  }
+
+  const fields: { name: string; type: string }[] = [];
+  const members = body.replace(/\/\/.*$/gm, '');
+  const pattern = /\b(?:let|var)\s+([A-Za-z_]\w*)\s*:\s*([^\n=;]+)/g;
+  let match = pattern.exec(members);
+  while (match) {
+    fields.push({ name: match[1], type: match[2].trim() });
+    match = pattern.exec(members);
+  }
+  return fields;
+};
@@ -0,0 +1,722 @@
+import { OutlineSymbol } from './cadence-outline';
+import {
+  findImports,
+  findStructFields,
+  findStructNames,
+  getImportAddress,
+} from './cadence-symbols';
+import { getContractName } from './parse-contract-name';
+
+// Values of transaction and script arguments, as edited in the argument forms,
+// and their encoding as JSON-Cadence. Types are the ones reported
+// by the language server for the parameters, e.g. `{String: [UInt64]}?`
+
+export type CadenceType =
+  | { kind: 'simple'; name: string }
+  | { kind: 'optional'; type: CadenceType }
+  | { kind: 'array'; type: CadenceType; size?: number }
+  | { kind: 'dictionary'; key: CadenceType; value: CadenceType }
+  | { kind: 'composite'; name: string }
+  // Not supported by the forms, edited as Cadence code parsed by the server
+  | { kind: 'raw'; name: string };
+
+export type CompositeField = {
+  name: string;
+  type: string;
+};
+
+// Struct declared by a contract, `id` is its type id used in JSON-Cadence,
+// e.g. `A.0000000000000001.Market.Listing`
+export type CompositeType = {
+  id: string;
+  fields: CompositeField[];
+};
+
+// Structs used by arguments, keyed by type names as found in parameters
+export type CompositeTypes = { [name: string]: CompositeType };
+
+export type DictionaryEntry = {
+  key: ArgumentValue;
+  value: ArgumentValue;
+};
+
+// Arguments as sent to the API, e.g. `{ type: 'UInt8', value: '1' }`.
+// Values which can't be encoded, like structs of unknown contracts, are null
+export type JsonCadenceValue =
+  | { type: 'Bool'; value: boolean }
+  | { type: 'Path'; value: { domain: string; identifier: string } }
+  | { type: 'Optional'; value: JsonCadenceValue }
+  | { type: 'Array'; value: JsonCadenceValue[] }
+  | {
+      type: 'Dictionary';
+      value: { key: JsonCadenceValue; value: JsonCadenceValue }[];
+    }
+  | {
+      type: 'Struct';
+      value: {
+        id: string;
+        fields: { name: string; value: JsonCadenceValue }[];
+      };
+    }
+  | { type: string; value: string }
+  | null;
+
+// Text of simple values, `null` for nil optionals,
+// items of arrays, entries of dictionaries and fields of structs
+export type ArgumentValue =
+  | string
+  | null
+  | ArgumentValue[]
+  | DictionaryEntry[]
+  | { [field: string]: ArgumentValue };
+
+const PATH_TYPES = [
+  'Path',
+  'StoragePath',
+  'PublicPath',
+  'PrivatePath',
+  'CapabilityPath',
+];
+
+// Types named like structs, which can't be entered as fields
+const BUILT_IN_TYPES = [
+  'AnyStruct',
+  'AnyResource',
+  'Capability',
+  'Type',
+  'Void',
+  'Never',
+];
+
+const SIMPLE_TYPE = /^(String|Character|Bool|Address|U?Int(8|16|32|64|128|256)?|Word(8|16|32|64)|U?Fix64)$/;
+
+// Splits at the separator, unless it's nested in brackets of other types
+const splitTopLevel = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if ('[{(<'.includes(char)) {
+      depth += 1;
+    } else if (']})>'.includes(char)) {
+      depth -= 1;
+    } else if (char === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((part) => part.trim());
+};
+
+export const parseCadenceType = (type: string): CadenceType => {
+  const name = type.trim();
+
+  if (name.endsWith('?')) {
+    return { kind: 'optional', type: parseCadenceType(name.slice(0, -1)) };
+  }
+
+  if (name.startsWith('[') && name.endsWith(']')) {
+    const [item, size] = splitTopLevel(name.slice(1, -1), ';');
+    return size === undefined
+      ? { kind: 'array', type: parseCadenceType(item) }
+      : { kind: 'array', type: parseCadenceType(item), size: parseInt(size) };
+  }
+
+  if (name.startsWith('{') && name.endsWith('}')) {
+    const parts = splitTopLevel(name.slice(1, -1), ':');
+    // Restricted types, like `{Receiver}`, have no values
+    return parts.length === 2
+      ? {
+          kind: 'dictionary',
+          key: parseCadenceType(parts[0]),
+          value: parseCadenceType(parts[1]),
+        }
+      : { kind: 'raw', name };
+  }
+
+  if (SIMPLE_TYPE.test(name) || PATH_TYPES.includes(name)) {
+    return { kind: 'simple', name };
+  }
+
+  if (/^[A-Za-z_][\w.]*$/.test(name) && !BUILT_IN_TYPES.includes(name)) {
+    return { kind: 'composite', name };
+  }
+
+  return { kind: 'raw', name };
+};
+
+export const getDefaultValue = (
+  type: CadenceType,
+  composites: CompositeTypes = {},
+): ArgumentValue => {
+  switch (type.kind) {
+    case 'optional':
+      return null;
+    case 'array':
+      return Array.from({ length: type.size || 0 }, () =>
+        getDefaultValue(type.type, composites),
+      );
+    case 'dictionary':
+      return [];
+    case 'composite': {
+      const composite = composites[type.name];
+      return composite
+        ? composite.fields.reduce(
+            (fields, field) => ({
+              ...fields,
+              [field.name]: getDefaultValue(
+                parseCadenceType(field.type),
+                composites,
+              ),
+            }),
+            {},
+          )
+        : '';
+    }
+    default:
+      return '';
+  }
+};
+
+// Values written as Cadence code, which the language server turns into
+// JSON-Cadence. Structs are written as code too while their fields are not known.
+// Optionals and collections of such values are parsed as a whole
+export const isParsedByServer = (
+  type: CadenceType,
+  composites: CompositeTypes,
+): boolean => {
+  switch (type.kind) {
+    case 'raw':
+      return true;
+    case 'composite':
+      return !composites[type.name];
+    case 'optional':
+    case 'array':
+      return isParsedByServer(type.type, composites);
+    case 'dictionary':
+      return (
+        isParsedByServer(type.key, composites) ||
+        isParsedByServer(type.value, composites)
+      );
+    default:
+      return false;
+  }
+};
+
+// Numbers are compared as big integers, bounds of 128 and 256 bit types
+// are way past the safe integers of JavaScript
+const INTEGER = /^-?\d+$/;
+const FIXED_POINT = /^(-?)(\d+)(?:\.(\d+))?$/;
+
+// Fixed point numbers are integers scaled by 10^8
+const FIXED_POINT_DECIMALS = 8;
+const FIXED_POINT_SCALE = BigInt(10 ** FIXED_POINT_DECIMALS);
+
+const powerOfTwo = (bits: number) => BigInt(1) << BigInt(bits);
+
+type Range = { min: bigint | null; max: bigint | null };
+
+// Bounds of integer types of the given size, `Int` and `UInt` have no size
+const getIntegerRange = (signed: boolean, bits: number | null): Range => {
+  if (!bits) {
+    return { min: signed ? null : BigInt(0), max: null };
+  }
+  return signed
+    ? { min: -powerOfTwo(bits - 1), max: powerOfTwo(bits - 1) - BigInt(1) }
+    : { min: BigInt(0), max: powerOfTwo(bits) - BigInt(1) };
+};
+
+const isInRange = (value: bigint, { min, max }: Range) =>
+  (min === null || value >= min) && (max === null || value <= max);
+
+const validateInteger = (value: string, type: string) => {
+  const [, kind, size] = type.match(/^(U?Int|Word)(\d*)$/);
+  const range = getIntegerRange(kind === 'Int', size ? parseInt(size) : null);
+  const { min, max } = range;
+  const message =
+    min === null
+      ? 'Should be an integer'
+      : max === null
+      ? 'Should be an integer of at least 0'
+      : `Should be an integer between ${min} and ${max}`;
+
+  const trimmed = value.trim();
+  return INTEGER.test(trimmed) && isInRange(BigInt(trimmed), range)
+    ? null
+    : message;
+};
+
+const formatFixedPoint = (value: bigint) => {
+  const sign = value < 0 ? '-' : '';
+  const absolute = value < 0 ? -value : value;
+  const decimals = (absolute % FIXED_POINT_SCALE)
+    .toString()
+    .padStart(FIXED_POINT_DECIMALS, '0')
+    .replace(/0+$/, '');
+  return `${sign}${absolute / FIXED_POINT_SCALE}.${decimals || '0'}`;
+};
+
+// Fix64 and UFix64 are scaled 64 bit integers
+const validateFixedPoint = (value: string, type: string) => {
+  const range = getIntegerRange(type === 'Fix64', 64);
+  const message = `Should be a number between ${formatFixedPoint(
+    range.min,
+  )} and ${formatFixedPoint(range.max)}`;
+
+  const match = value.trim().match(FIXED_POINT);
+  if (!match) {
+    return message;
+  }
+  const [, sign, integer, decimals = ''] = match;
+  if (decimals.length > FIXED_POINT_DECIMALS) {
+    return `Should have at most ${FIXED_POINT_DECIMALS} decimal places`;
+  }
+  const scaled =
+    BigInt(integer) * FIXED_POINT_SCALE +
+    BigInt(decimals.padEnd(FIXED_POINT_DECIMALS, '0'));
+  return isInRange(sign ? -scaled : scaled, range) ? null : message;
+};
+
+const startsWith = (value: string, prefix: string) =>
+  value.startsWith(prefix) || value.startsWith('U' + prefix);
+
+export const validateSimpleValue = (value: string, type: string) => {
+  if (value.length === 0) {
+    return type === 'String' ? null : "Value can't be empty";
+  }
+
+  switch (true) {
+    // Strings
+    case type === 'String': {
+      return null; // no need to validate String for now
+    }
+
+    case type === 'Character': {
+      return Array.from(value).length === 1
+        ? null
+        : 'Should be a single character';
+    }
+
+    // Integers and Words
+    case startsWith(type, 'Int') || type.startsWith('Word'): {
+      return validateInteger(value, type);
+    }
+
+    // Fixed Point
+    case startsWith(type, 'Fix'): {
+      return validateFixedPoint(value, type);
+    }
+
+    // Address
+    case type === 'Address': {
+      if (!value.match(/(^0x[\w\d]{16})|(^0x[\w\d]{1,4})/)) {
+        return 'Not a valid Address';
+      }
+      return null;
+    }
+
+    // Booleans
+    case type === 'Bool': {
+      if (value !== 'true' && value !== 'false') {
+        return 'Boolean values can be either true or false';
+      }
+      return null;
+    }
+
+    case PATH_TYPES.includes(type): {
+      return /^\/(storage|public|private)\/[A-Za-z_]\w*$/.test(value)
+        ? null
+        : 'Should be a path like /storage/name';
+    }
+
+    default: {
+      return null;
+    }
+  }
+};
+
+// Values of other types are written as Cadence code,
+// which is checked by the language server when they are sent
+const validateRawValue = (value: string) =>
+  value.trim().length > 0 ? null : "Value can't be empty";
+
+const withPath = (path: string, error: string | null) =>
+  error && path ? `${path}: ${error}` : error;
+
+// First problem of the value, nested ones are prefixed with their location,
+// e.g. `[1].owner: Not a valid Address`. Structs have no Cadence literals,
+// so their fields can't be written as code
+export const validateValue = (
+  type: CadenceType,
+  value: ArgumentValue,
+  composites: CompositeTypes = {},
+  path = '',
+  inStruct = false,
+): string | null => {
+  switch (type.kind) {
+    case 'simple':
+      return withPath(path, validateSimpleValue(value as string, type.name));
+
+    case 'optional':
+      return value === null
+        ? null
+        : validateValue(type.type, value, composites, path, inStruct);
+
+    case 'array': {
+      const items = value as ArgumentValue[];
+      for (let i = 0; i < items.length; i++) {
+        const error = validateValue(
+          type.type,
+          items[i],
+          composites,
+          `${path}[${i}]`,
+          inStruct,
+        );
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    }
+
+    case 'dictionary': {
+      const entries = value as DictionaryEntry[];
+      const keys = entries.map((entry) => JSON.stringify(entry.key));
+      for (let i = 0; i < entries.length; i++) {
+        const error =
+          validateValue(
+            type.key,
+            entries[i].key,
+            composites,
+            `${path}{${i}}`,
+            inStruct,
+          ) ||
+          validateValue(
+            type.value,
+            entries[i].value,
+            composites,
+            `${path}{${i}}`,
+            inStruct,
+          );
+        if (error) {
+          return error;
+        }
+        if (keys.indexOf(keys[i]) !== i) {
+          return withPath(`${path}{${i}}`, 'Keys must be unique');
+        }
+      }
+      return null;
+    }
+
+    case 'composite': {
+      const composite = composites[type.name];
+      if (!composite) {
+        return withPath(
+          path,
+          inStruct
+            ? `Fields of ${type.name} are not known`
+            : validateRawValue(value as string),
+        );
+      }
+      for (const field of composite.fields) {
+        const error = validateValue(
+          parseCadenceType(field.type),
+          (value as { [field: string]: ArgumentValue })[field.name],
+          composites,
+          path ? `${path}.${field.name}` : field.name,
+          true,
+        );
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    }
+
+    default:
+      return withPath(
+        path,
+        inStruct
+          ? `Values of type ${type.name} can't be entered`
+          : validateRawValue(value as string),
+      );
+  }
+};
+
+const encodeSimpleValue = (
+  value: string,
+  type: string,
+): NonNullable<JsonCadenceValue> => {
+  switch (true) {
+    case type === 'Bool':
+      return { type: 'Bool', value: value === 'true' };
+
+    case type === 'Address':
+      return { type, value: value.startsWith('0x') ? value : `0x${value}` };
+
+    // Fixed point numbers need their decimal point
+    case startsWith(type, 'Fix'):
+      return {
+        type,
+        value: value.includes('.') ? value.trim() : `${value.trim()}.0`,
+      };
+
+    case PATH_TYPES.includes(type): {
+      const [, domain, identifier] = value.split('/');
+      return { type: 'Path', value: { domain, identifier } };
+    }
+
+    default:
+      return { type, value: value.trim() };
+  }
+};
+
+// Encodes a value of the forms as JSON-Cadence,
+// values parsed by the server, see `isParsedByServer`, are left out
+export const toJsonCadence = (
+  type: CadenceType,
+  value: ArgumentValue,
+  composites: CompositeTypes = {},
+): JsonCadenceValue => {
+  switch (type.kind) {
+    case 'simple':
+      return encodeSimpleValue(value as string, type.name);
+
+    case 'optional':
+      return {
+        type: 'Optional',
+        value:
+          value === null ? null : toJsonCadence(type.type, value, composites),
+      };
+
+    case 'array':
+      return {
+        type: 'Array',
+        value: (value as ArgumentValue[]).map((item) =>
+          toJsonCadence(type.type, item, composites),
+        ),
+      };
+
+    case 'dictionary':
+      return {
+        type: 'Dictionary',
+        value: (value as DictionaryEntry[]).map((entry) => ({
+          key: toJsonCadence(type.key, entry.key, composites),
+          value: toJsonCadence(type.value, entry.value, composites),
+        })),
+      };
+
+    case 'composite': {
+      if (!composites[type.name]) {
+        return null;
+      }
+      const { id, fields } = composites[type.name];
+      return {
+        type: 'Struct',
+        value: {
+          id,
+          fields: fields.map((field) => ({
+            name: field.name,
+            value: toJsonCadence(
+              parseCadenceType(field.type),
+              (value as { [field: string]: ArgumentValue })[field.name],
+              composites,
+            ),
+          })),
+        },
+      };
+    }
+
+    default:
+      return null;
+  }
+};
+
+// Cadence code of the value, for the language server to parse it
+// together with values of raw types. Structs have no literals
+export const toCadenceLiteral = (
+  type: CadenceType,
+  value: ArgumentValue,
+): string => {
+  switch (type.kind) {
+    case 'simple': {
+      const { value: encoded } = encodeSimpleValue(value as string, type.name);
+      return type.name === 'String' || type.name === 'Character'
+        ? JSON.stringify(value)
+        : PATH_TYPES.includes(type.name)
+        ? (value as string)
+        : String(encoded);
+    }
+
+    case 'optional':
+      return value === null ? 'nil' : toCadenceLiteral(type.type, value);
+
+    case 'array':
+      return `[${(value as ArgumentValue[])
+        .map((item) => toCadenceLiteral(type.type, item))
+        .join(', ')}]`;
+
+    case 'dictionary':
+      return `{${(value as DictionaryEntry[])
+        .map(
+          (entry) =>
+            `${toCadenceLiteral(type.key, entry.key)}: ` +
+            toCadenceLiteral(type.value, entry.value),
+        )
+        .join(', ')}}`;
+
+    default:
+      return typeof value === 'string' ? value : '';
+  }
+};
+
+// Names of the structs used by the type, also in optionals and collections
+export const getCompositeNames = (type: CadenceType): string[] => {
+  switch (type.kind) {
+    case 'composite':
+      return [type.name];
+    case 'optional':
+    case 'array':
+      return getCompositeNames(type.type);
+    case 'dictionary':
+      return [...getCompositeNames(type.key), ...getCompositeNames(type.value)];
+    default:
+      return [];
+  }
+};
+
+// Struct ids use addresses padded to 8 bytes
+const getTypeId = (address: string, contract: string, name: string) =>
+  `A.${('0'.repeat(16) + parseInt(address, 16).toString(16)).slice(-16)}` +
+  `.${contract}.${name}`;
+
+// Types of fields refer to structs of the same contract by their names
+// and to imported ones by their contracts, ids are used instead.
+// Types which are ids already are kept
+const qualifyType = (
+  type: string,
+  code: string,
+  address: string,
+  contract: string,
+): string => {
+  const structs = findStructNames(code);
+  const imported = findImports(code).reduce<string[]>(
+    (names, item) => names.concat(item.names),
+    [],
+  );
+  return type.replace(
+    /\bA\.[0-9a-fA-F]+\.\w+\.\w+|\b([A-Za-z_]\w*)(?:\.([A-Za-z_]\w*))?/g,
+    (match, first?: string, second?: string) => {
+      if (!first) {
+        return match;
+      }
+      if (!second) {
+        return structs.includes(first)
+          ? getTypeId(address, contract, first)
+          : match;
+      }
+      if (first === contract) {
+        return getTypeId(address, contract, second);
+      }
+      return imported.includes(first)
+        ? getTypeId(getImportAddress(code, first), first, second)
+        : match;
+    },
+  );
+};
+
+// Type of the field in its details reported by the language server,
+// e.g. `pub let owner: Address`
+const getReportedType = (field: OutlineSymbol): string | null => {
+  const detail = (field.detail || '').trim();
+  const declared = new RegExp(`\\b${field.name}\\s*:([^]+)$`).exec(detail);
+  if (declared) {
+    return declared[1].trim();
+  }
+  return detail && !/\b(?:let|var)\b/.test(detail) ? detail : null;
+};
+
+// Fields of the struct in the symbols the language server reports
+// for the contract, null when it reports no struct or no field types
+const findReportedFields = (
+  outline: OutlineSymbol[],
+  contract: string,
+  struct: string,
+): CompositeField[] | null => {
+  const contractSymbol = outline.find(
+    (symbol) => symbol.kind === 'contract' && symbol.name === contract,
+  );
+  const structSymbol =
+    contractSymbol &&
+    contractSymbol.children.find(
+      (symbol) => symbol.kind === 'struct' && symbol.name === struct,
+    );
+  if (!structSymbol) {
+    return null;
+  }
+
+  const fields = structSymbol.children
+    .filter((symbol) => symbol.kind === 'field')
+    .map((symbol) => ({ name: symbol.name, type: getReportedType(symbol) }));
+  return fields.every((field) => field.type) ? fields : null;
+};
+
+// Finds the structs used by the types in the contracts declaring them.
+// Types are either qualified by contracts imported in the code,
+// e.g. `Market.Listing`, or ids like `A.0000000000000002.Market.Listing`.
+// Fields are taken from the symbols of the contracts reported by the language
+// server, and read from their code while it has not reported them
+export const resolveCompositeTypes = (
+  code: string,
+  types: string[],
+  getAddressCode: (address: string) => string | undefined,
+  getAddressOutline: (address: string) => OutlineSymbol[] = () => [],
+): CompositeTypes => {
+  const composites: CompositeTypes = {};
+  const pending = types.reduce<string[]>(
+    (names, type) => names.concat(getCompositeNames(parseCadenceType(type))),
+    [],
+  );
+  const visited: string[] = [];
+
+  while (pending.length > 0) {
+    const name = pending.shift();
+    if (visited.includes(name)) {
+      continue;
+    }
+    visited.push(name);
+
+    const parts = name.split('.');
+    const [address, contract, struct] =
+      parts.length === 4 && parts[0] === 'A'
+        ? parts.slice(1)
+        : parts.length === 2
+        ? [getImportAddress(code, parts[0]), parts[0], parts[1]]
+        : [];
+    const contractCode = address && getAddressCode(address);
+    if (!contractCode || getContractName(contractCode) !== contract) {
+      continue;
+    }
+    const fields =
+      findReportedFields(getAddressOutline(address), contract, struct) ||
+      findStructFields(contractCode, struct);
+    if (!fields) {
+      continue;
+    }
+
+    composites[name] = {
+      id: getTypeId(address, contract, struct),
+      fields: fields.map((field) => ({
+        name: field.name,
+        type: qualifyType(field.type, contractCode, address, contract),
+      })),
+    };
+    composites[name].fields.forEach((field) =>
+      pending.push(...getCompositeNames(parseCadenceType(field.type))),
+    );
+  }
+
+  return composites;
+};
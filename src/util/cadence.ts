@@ -1,9 +1,19 @@
 import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
 import {languages} from "monaco-editor/esm/vs/editor/editor.api"
 import IMonarchLanguage = languages.IMonarchLanguage
+import {CadenceFormatOptions, DEFAULT_FORMAT_OPTIONS, formatCadence} from "./cadence-formatter"
 
 export const CADENCE_LANGUAGE_ID = "cadence"
 
+let formatOptions: CadenceFormatOptions = DEFAULT_FORMAT_OPTIONS
+let isFormatterRegistered = false
+
+// Options used when formatting documents in the editor,
+// e.g. through the "Format Document" command
+export function setFormatOptions(options: CadenceFormatOptions) {
+  formatOptions = options
+}
+
 export default function configureCadence() {
 
   monaco.languages.register({
@@ -192,4 +202,18 @@ export default function configureCadence() {
   }
 
   monaco.languages.setMonarchTokensProvider(CADENCE_LANGUAGE_ID, languageDef);
+
+  if (!isFormatterRegistered) {
+    isFormatterRegistered = true
+    monaco.languages.registerDocumentFormattingEditProvider(CADENCE_LANGUAGE_ID, {
+      provideDocumentFormattingEdits(model) {
+        const code = model.getValue()
+        const formatted = formatCadence(code, formatOptions)
+        if (formatted === code) {
+          return []
+        }
+        return [{range: model.getFullModelRange(), text: formatted}]
+      }
+    })
+  }
 }
@@ -0,0 +1,104 @@
+export enum DiffType {
+  Equal = 'equal',
+  Added = 'added',
+  Removed = 'removed',
+}
+
+export type DiffLine = {
+  type: DiffType;
+  value: string;
+  oldLine?: number;
+  newLine?: number;
+};
+
+const splitLines = (code: string): string[] =>
+  code.length === 0 ? [] : code.split(/\r\n|\n|\r/);
+
+// Line based diff using the longest common subsequence of both texts.
+// Files in the playground are small enough for the quadratic table.
+export const diffLines = (oldCode: string, newCode: string): DiffLine[] => {
+  const a = splitLines(oldCode);
+  const b = splitLines(newCode);
+
+  // Strip common prefix and suffix to keep the table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  const table: number[][] = Array.from({ length: n + 1 }, () =>
+    new Array(m + 1).fill(0),
+  );
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] =
+        a[start + i] === b[start + j]
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  const equal = (i: number, j: number) =>
+    result.push({
+      type: DiffType.Equal,
+      value: a[i],
+      oldLine: i + 1,
+      newLine: j + 1,
+    });
+
+  for (let i = 0; i < start; i++) {
+    equal(i, i);
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      equal(start + i, start + j);
+      i++;
+      j++;
+    } else if (j < m && (i === n || table[i][j + 1] >= table[i + 1][j])) {
+      result.push({
+        type: DiffType.Added,
+        value: b[start + j],
+        newLine: start + j + 1,
+      });
+      j++;
+    } else {
+      result.push({
+        type: DiffType.Removed,
+        value: a[start + i],
+        oldLine: start + i + 1,
+      });
+      i++;
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    equal(endA + k, endB + k);
+  }
+
+  return result;
+};
+
+export const countChanges = (
+  lines: DiffLine[],
+): { added: number; removed: number } => {
+  return lines.reduce(
+    (acc, line) => {
+      if (line.type === DiffType.Added) acc.added += 1;
+      if (line.type === DiffType.Removed) acc.removed += 1;
+      return acc;
+    },
+    { added: 0, removed: 0 },
+  );
+};
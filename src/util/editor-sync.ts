@@ -0,0 +1,28 @@
+// What an editor does with code changed outside of it, e.g. in another tab,
+// given the code of its model and the values it sent through `onChange`,
+// which are not reflected in the project yet
+export type EditorSync =
+  // The model has the code already, or it's an echo of a sent value
+  | { action: 'keep'; pending: string[] }
+  | { action: 'apply' }
+  // Code changed elsewhere while edits of the model were not stored yet
+  | { action: 'conflict'; mine: string };
+
+export const getEditorSync = (
+  modelCode: string,
+  pending: string[],
+  code: string,
+): EditorSync => {
+  if (modelCode === code) {
+    return { action: 'keep', pending: [] };
+  }
+
+  const echoIndex = pending.lastIndexOf(code);
+  if (echoIndex >= 0) {
+    return { action: 'keep', pending: pending.slice(echoIndex + 1) };
+  }
+
+  return pending.length > 0
+    ? { action: 'conflict', mine: modelCode }
+    : { action: 'apply' };
+};
@@ -0,0 +1,294 @@
+import { Project } from 'api/apollo/generated/graphql';
+import { AccountNames, getAccountIndex, getNameByAddress } from './accounts';
+import { getContractName } from './parse-contract-name';
+import { getAccountTitle, getAccountTitleByIndex } from './project-files';
+import {
+  buildProject,
+  getFileName,
+  ImportedProject,
+  SourceFile,
+} from './project-import';
+
+// Support for the project configuration of the Flow CLI
+// https://docs.onflow.org/flow-cli/configuration/
+
+export type ContractConfig =
+  | string
+  | { source: string; aliases?: { [network: string]: string } };
+
+export type DeploymentConfig = string | { name: string; args?: any[] };
+
+export type FlowConfig = {
+  emulators?: any;
+  contracts?: { [name: string]: ContractConfig };
+  networks?: { [network: string]: any };
+  accounts?: { [name: string]: { address: string; key?: any } };
+  deployments?: {
+    [network: string]: { [account: string]: DeploymentConfig[] };
+  };
+};
+
+const normalizeAddress = (address: string) =>
+  address.replace(/^0x/, '').toLowerCase();
+
+const getDirectory = (path: string) => path.split('/').slice(0, -1).join('/');
+
+// Resolves a path relative to the given directory, e.g. ./contracts/Hello.cdc
+export const resolvePath = (directory: string, relative: string): string => {
+  const parts = directory ? directory.split('/') : [];
+  relative.split('/').forEach((part) => {
+    if (part === '..') {
+      parts.pop();
+    } else if (part !== '.' && part !== '') {
+      parts.push(part);
+    }
+  });
+  return parts.join('/');
+};
+
+// Path of the file relative to the given directory, e.g. ../contracts/Hello.cdc
+export const getRelativePath = (directory: string, path: string): string => {
+  const from = directory ? directory.split('/') : [];
+  const to = path.split('/');
+  let common = 0;
+  while (
+    common < from.length &&
+    common < to.length - 1 &&
+    from[common] === to[common]
+  ) {
+    common++;
+  }
+  const parents = from.slice(common).map(() => '..');
+  const prefix = parents.length > 0 ? parents : ['.'];
+  return [...prefix, ...to.slice(common)].join('/');
+};
+
+const getSource = (contract: ContractConfig): string | null =>
+  typeof contract === 'string' ? contract : contract.source || null;
+
+const getDeploymentName = (deployment: DeploymentConfig): string =>
+  typeof deployment === 'string' ? deployment : deployment.name;
+
+// Builds a project out of `flow.json` and the sources next to it.
+// Contracts are placed on accounts in the order of the deployments,
+// preferring the emulator network.
+export const buildProjectFromFlowConfig = (
+  configFile: SourceFile,
+  files: SourceFile[],
+  accountsAmount: number,
+): ImportedProject => {
+  const config: FlowConfig = JSON.parse(configFile.code);
+  const directory = getDirectory(configFile.path);
+  const contracts = config.contracts || {};
+  const deployments = config.deployments || {};
+  const network = deployments.emulator
+    ? 'emulator'
+    : Object.keys(deployments)[0];
+  const accountDeployments = network ? deployments[network] : {};
+
+  const sources: { [path: string]: string } = {};
+  files.forEach((file) => {
+    sources[file.path] = file.code;
+  });
+
+  const accounts: string[] = new Array(accountsAmount).fill('');
+  const contractAccounts: { [name: string]: number } = {};
+  const addressAccounts: { [address: string]: number } = {};
+  const contractPaths: string[] = [];
+  const skipped: string[] = [];
+
+  Object.keys(accountDeployments).forEach((accountName, index) => {
+    const deployed = accountDeployments[accountName].map(getDeploymentName);
+    // Playground accounts hold a single contract each
+    const [name, ...rest] = deployed;
+    skipped.push(...rest);
+
+    if (index >= accountsAmount) {
+      skipped.push(...deployed.slice(0, 1));
+      return;
+    }
+
+    const account = config.accounts && config.accounts[accountName];
+    if (account && account.address) {
+      addressAccounts[normalizeAddress(account.address)] = index;
+    }
+
+    const source = contracts[name] && getSource(contracts[name]);
+    const path = source && resolvePath(directory, source);
+    if (!path || sources[path] === undefined) {
+      skipped.push(name);
+      return;
+    }
+
+    contractAccounts[name] = index;
+    contractPaths.push(path);
+    accounts[index] = sources[path];
+  });
+
+  // Imports in the sources point to files or to configured accounts,
+  // the playground needs account addresses instead
+  const rewriteImports = (code: string) =>
+    code
+      .replace(/import\s+(\w+)\s+from\s+"[^"]*"/g, (statement, name) =>
+        contractAccounts[name] === undefined
+          ? statement
+          : `import ${name} from ${getAccountTitleByIndex(
+              contractAccounts[name],
+            )}`,
+      )
+      .replace(
+        /import\s+(\w+)\s+from\s+0x([0-9a-fA-F]+)/g,
+        (statement, name, address) => {
+          const index = addressAccounts[normalizeAddress(address)];
+          return index === undefined
+            ? statement
+            : `import ${name} from ${getAccountTitleByIndex(index)}`;
+        },
+      );
+
+  // Remaining sources become transaction and script templates
+  const templates = buildProject(
+    files.filter((file) => !contractPaths.includes(file.path)),
+    0,
+  );
+
+  const rewriteTemplates = (list: ImportedProject['transactionTemplates']) =>
+    list.map((template) => ({
+      ...template,
+      code: rewriteImports(template.code),
+    }));
+
+  return {
+    accounts: accounts.map(rewriteImports),
+    transactionTemplates: rewriteTemplates(templates.transactionTemplates),
+    scriptTemplates: rewriteTemplates(templates.scriptTemplates),
+    skipped: [...skipped, ...templates.skipped],
+  };
+};
+
+export const isFlowConfig = (file: SourceFile) =>
+  getFileName(file.path) === 'flow.json';
+
+const SERVICE_ACCOUNT = 'emulator-account';
+const SERVICE_ADDRESS = 'f8d6e0586b0a20c7';
+
+// Addresses the emulator assigns to the accounts created after the service one.
+// The emulator doesn't create them by itself, see the README of exported projects
+const EMULATOR_ADDRESSES = [
+  '01cf0e2f2f715450',
+  '179b6b1cb6755e31',
+  'f3fcd2c1a78f5eee',
+  'e03daebed8ca0615',
+  '045a1763c93006ca',
+  '120e725050340cab',
+  'f669cb8d41ce0c74',
+  '192440c99cb17282',
+  'fd43f9148d4b725d',
+  'eb179c27144f783c',
+];
+
+// Keys are resolved by the CLI from the environment, so exported
+// projects never contain private keys
+const EMULATOR_KEY = '$EMULATOR_PRIVATE_KEY';
+
+export type ExportedContract = {
+  name: string;
+  path: string;
+};
+
+// Contracts of the accounts, exported to files named after them
+export const getExportedContracts = (
+  project: Project,
+  contractsFolder: string,
+): (ExportedContract | null)[] =>
+  project.accounts.map((account) => {
+    const name = getContractName(account.draftCode);
+    return name ? { name, path: `${contractsFolder}/${name}.cdc` } : null;
+  });
+
+// Exported sources import contracts from their files, which the CLI resolves
+// to the accounts in `flow.json`. Playground addresses don't exist elsewhere
+export const rewriteImportsToFiles = (
+  code: string,
+  directory: string,
+  contracts: (ExportedContract | null)[],
+): string =>
+  code.replace(
+    /import\s+(\w+)\s+from\s+0x([0-9a-fA-F]+)/g,
+    (statement, name, address) => {
+      const index = getAccountIndex(address);
+      const contract = index === null ? null : contracts[index];
+      return contract && contract.name === name
+        ? `import ${name} from "${getRelativePath(directory, contract.path)}"`
+        : statement;
+    },
+  );
+
+// Number of accounts to create on the emulator before deploying,
+// accounts get their addresses in the order they are created
+export const getEmulatorAccountsAmount = (
+  contracts: (ExportedContract | null)[],
+): number =>
+  contracts.reduce(
+    (amount, contract, index) =>
+      contract && index < EMULATOR_ADDRESSES.length ? index + 1 : amount,
+    0,
+  );
+
+const getEmulatorAccountName = (
+  address: string,
+  index: number,
+  names: AccountNames,
+) => {
+  const title = getAccountTitle(address);
+  const name = names[title] || getNameByAddress(title);
+  return name
+    ? `emulator-${name.toLowerCase()}`
+    : `emulator-account-${index + 1}`;
+};
+
+export const generateFlowConfig = (
+  project: Project,
+  contractsFolder: string,
+  names: AccountNames = {},
+): string => {
+  const config: FlowConfig = {
+    emulators: {
+      default: {
+        port: 3569,
+        serviceAccount: SERVICE_ACCOUNT,
+      },
+    },
+    contracts: {},
+    networks: {
+      emulator: '127.0.0.1:3569',
+      testnet: 'access.devnet.nodes.onflow.org:9000',
+      mainnet: 'access.mainnet.nodes.onflow.org:9000',
+    },
+    accounts: {
+      [SERVICE_ACCOUNT]: {
+        address: SERVICE_ADDRESS,
+        key: EMULATOR_KEY,
+      },
+    },
+    deployments: {
+      emulator: {},
+    },
+  };
+
+  const contracts = getExportedContracts(project, contractsFolder);
+  project.accounts.forEach((account, index) => {
+    const contract = contracts[index];
+    const address = EMULATOR_ADDRESSES[index];
+    if (!contract || !address) {
+      return;
+    }
+
+    const accountName = getEmulatorAccountName(account.address, index, names);
+    config.contracts[contract.name] = `./${contract.path}`;
+    config.accounts[accountName] = { address, key: EMULATOR_KEY };
+    config.deployments.emulator[accountName] = [contract.name];
+  });
+
+  return JSON.stringify(config, null, 2);
+};
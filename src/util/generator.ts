@@ -14,21 +14,31 @@ import babelConfigTemplate from '../templates/js/config/babel.config.hbs';
 import packageTemplate from '../templates/js/config/package.json.hbs';
 import jestConfigTemplate from '../templates/js/config/jest.config.js.hbs';
 
+import {
+  AccountNames,
+  AccountProfiles,
+  getAccountAddresses,
+  getAccountNames,
+  getNameByAddress,
+} from './accounts';
+import {
+  generateFlowConfig,
+  getEmulatorAccountsAmount,
+  getExportedContracts,
+  rewriteImportsToFiles,
+} from './flow-config';
+import { getContractName } from './parse-contract-name';
+import { getAccountTitle } from './project-files';
+import { SETTINGS_FILE } from './project-import';
+import { findSigners } from './cadence-signers';
+
+// Amount of accounts assumed when the project is not known
+const DEFAULT_ACCOUNTS_AMOUNT = 4;
+
 export const prettify = (code: string): string => {
   return prettier.format(code, { parser: 'babel', plugins: [parserBabel] });
 };
 
-export const getNameByAddress = (address: string) => {
-  const addressBook: any = {
-    '0x01': 'Alice',
-    '0x02': 'Bob',
-    '0x03': 'Charlie',
-    '0x04': 'Dave',
-  };
-
-  return addressBook[address];
-};
-
 export const getImports = (
   template: string,
 ): { name: string; address: string }[] => {
@@ -54,8 +64,11 @@ export const getAccountCalls = (template: string) => {
   return [];
 };
 
-export const filterExisting = (accounts: string[]): string[] => {
-  return ['0x01', '0x02', '0x03', '0x04'].filter(
+export const filterExisting = (
+  accounts: string[],
+  accountsAmount: number = DEFAULT_ACCOUNTS_AMOUNT,
+): string[] => {
+  return getAccountAddresses(accountsAmount).filter(
     (item) => !accounts.includes(item),
   );
 };
@@ -63,12 +76,16 @@ export const filterExisting = (accounts: string[]): string[] => {
 export const getFullAccountList = (
   accounts: string[],
   signersAmount?: number,
+  accountsAmount: number = DEFAULT_ACCOUNTS_AMOUNT,
 ): string[] => {
   if (accounts.length >= signersAmount) {
     return accounts;
   }
 
-  const available = filterExisting(accounts);
+  const available = filterExisting(
+    accounts,
+    Math.max(accountsAmount, signersAmount),
+  );
   const fullList = [...accounts];
   let shift = 0;
   while (fullList.length < signersAmount) {
@@ -165,34 +182,32 @@ export const zipArguments = (
   );
 };
 
-export const getSignersAmount = (template: string): number => {
-  const match = /(?:prepare.*\()(.*)(?:\)\s*)/g.exec(template)[1];
-  return match ? match.replace(/\s/g, '').split(',').length : 0;
-};
+export const getSignersAmount = (template: string): number =>
+  findSigners(template).length;
 
-export const getContractName = (template: string) => {
-  const match = template.match(/(?:contract\s*)([\d\w]*)(?:\s*{)/);
-  if (match) {
-    return match[1];
-  }
-  return '';
-};
+// Accounts without an entry in `names` get their default names
+const getName = (names: AccountNames, address: string) =>
+  names[address] || getNameByAddress(address);
 
-export const generateContractTarget = (toAddress: string) => {
+export const generateContractTarget = (
+  toAddress: string,
+  names: AccountNames = {},
+) => {
   return `
-    const to = getAccountAddress("${getNameByAddress(toAddress)}")
+    const to = getAccountAddress("${getName(names, toAddress)}")
   `;
 };
 
 export const generateContractUnitTest = (
   accountAddress: string,
   template: string,
+  names: AccountNames = {},
 ) => {
   const imports = getImports(template);
   const contractName = getContractName(template);
 
   const unitTest = contractUnitTestTemplate({
-    accountAddress,
+    accountName: getName(names, accountAddress),
     contractName,
     imports,
   });
@@ -200,15 +215,24 @@ export const generateContractUnitTest = (
   return prettify(unitTest);
 };
 
-export const generateTransactionUnitTest = (name: string, template: string) => {
+export const generateTransactionUnitTest = (
+  name: string,
+  template: string,
+  accountsAmount?: number,
+  names: AccountNames = {},
+) => {
   const imports = getImports(template);
   const argumentsList = getArgumentsFromTemplate(template);
   const zippedArguments = zipArguments(argumentsList);
 
   const signersAmount = getSignersAmount(template);
   const accountCalls = getAccountCalls(template);
-  const fullAccountList = getFullAccountList(accountCalls, signersAmount);
-  const accounts = fullAccountList.map((item) => getNameByAddress(item));
+  const fullAccountList = getFullAccountList(
+    accountCalls,
+    signersAmount,
+    accountsAmount,
+  );
+  const accounts = fullAccountList.map((item) => getName(names, item));
   const signers = accounts.slice(0, signersAmount);
 
   const code = transactionUnitTestTemplate({
@@ -216,7 +240,10 @@ export const generateTransactionUnitTest = (name: string, template: string) => {
     imports,
     signers,
     accounts,
-    accountCalls,
+    accountCalls: accountCalls.map((address) => ({
+      address,
+      name: getName(names, address),
+    })),
     arguments: zippedArguments,
   });
 
@@ -225,20 +252,24 @@ export const generateTransactionUnitTest = (name: string, template: string) => {
 export const generateScriptUnitTest = (
   name: string,
   template: string,
+  names: AccountNames = {},
 ): string => {
   const imports = getImports(template);
   const argumentsList = getArgumentsFromTemplate(template);
   const zippedArguments = zipArguments(argumentsList);
 
   const accountCalls = getAccountCalls(template);
-  const accounts = accountCalls.map((item) => getNameByAddress(item));
+  const accounts = accountCalls.map((item) => getName(names, item));
 
   const code = scriptUnitTestTemplate({
     name,
     imports,
     arguments: zippedArguments,
     accounts,
-    accountCalls,
+    accountCalls: accountCalls.map((address, index) => ({
+      address,
+      name: accounts[index],
+    })),
   });
 
   return prettify(code);
@@ -256,14 +287,39 @@ export const generatePackageConfig = async (projectName: string) => {
   });
 };
 
-const generateTests = async (cadenceFolder: string, project: Project) => {
+// Contracts are declared in the exported tests by the names they are
+// imported with, accounts can't take them
+export const getExportedAccountNames = (
+  project: Project,
+  profiles: AccountProfiles = {},
+): AccountNames => {
+  const codes = [
+    ...project.accounts.map((account) => account.draftCode),
+    ...project.transactionTemplates.map((template) => template.script),
+    ...project.scriptTemplates.map((template) => template.script),
+  ];
+  const contracts = codes.reduce(
+    (names: string[], code) => [
+      ...names,
+      ...getImports(code).map((item) => item.name),
+    ],
+    [],
+  );
+  return getAccountNames(project.accounts.length, profiles, contracts);
+};
+
+export const generateTests = async (
+  cadenceFolder: string,
+  project: Project,
+  names: AccountNames,
+) => {
   const contractsUnitTests = [];
   for (let i = 0; i < project.accounts.length; i++) {
     const account = project.accounts[i];
-    const address = `0x0${account.address.slice(-1)}`;
+    const address = getAccountTitle(account.address);
     const code = account.draftCode;
     if (code.length > 0) {
-      const unitTest = generateContractUnitTest(address, code);
+      const unitTest = generateContractUnitTest(address, code, names);
       contractsUnitTests.push(unitTest);
     }
   }
@@ -271,19 +327,31 @@ const generateTests = async (cadenceFolder: string, project: Project) => {
   const transactionsUnitTests = [];
   for (let i = 0; i < project.transactionTemplates.length; i++) {
     const tx = project.transactionTemplates[i];
-    const unitTest = generateTransactionUnitTest(tx.title, tx.script);
+    const unitTest = generateTransactionUnitTest(
+      tx.title,
+      tx.script,
+      project.accounts.length,
+      names,
+    );
     transactionsUnitTests.push(unitTest);
   }
 
   const scriptsUnitTests = [];
   for (let i = 0; i < project.scriptTemplates.length; i++) {
     const script = project.scriptTemplates[i];
-    const unitTest = generateScriptUnitTest(script.title, script.script);
+    const unitTest = generateScriptUnitTest(
+      script.title,
+      script.script,
+      names,
+    );
     scriptsUnitTests.push(unitTest);
   }
 
   const code = testSuit({
     cadenceFolder,
+    accounts: getAccountAddresses(project.accounts.length).map(
+      (address) => names[address],
+    ),
     contractsUnitTests,
     transactionsUnitTests,
     scriptsUnitTests,
@@ -296,18 +364,24 @@ export const createZip = async (
   folderName: string,
   projectName: string,
   project: Project,
+  profiles: AccountProfiles = {},
+  // Settings of the playground, see `SETTINGS_FILE`
+  settings: string | null = null,
 ) => {
   const zip = new JSZip();
+  const names = getExportedAccountNames(project, profiles);
 
   const id = project.id.toLowerCase();
+  const contracts = getExportedContracts(project, 'cadence/contracts');
 
   const readMeFile = await readmeTemplate({
     projectLink: `https://play.onflow.org/${id}`,
+    emulatorAccounts: getEmulatorAccountsAmount(contracts),
   });
   const packageConfig = await packageTemplate({ name: projectName });
   const babelConfig = await babelConfigTemplate();
   const jestConfig = await jestConfigTemplate();
-  const testFile = await generateTests(folderName, project);
+  const testFile = await generateTests(folderName, project, names);
 
   zip.file('test/README.md', readMeFile);
   zip.file('test/package.json', packageConfig);
@@ -318,24 +392,44 @@ export const createZip = async (
   const { accounts, transactionTemplates, scriptTemplates } = project;
 
   for (let i = 0; i < accounts.length; i++) {
-    const account = accounts[i];
-    const name = getContractName(account.draftCode);
-    const fileName = `cadence/contracts/${name}.cdc`;
-    zip.file(fileName, account.draftCode);
+    const contract = contracts[i];
+    if (!contract) {
+      continue;
+    }
+    const code = accounts[i].draftCode;
+    zip.file(
+      contract.path,
+      rewriteImportsToFiles(code, 'cadence/contracts', contracts),
+    );
   }
 
+  zip.file(
+    'flow.json',
+    generateFlowConfig(project, 'cadence/contracts', names),
+  );
+
   for (let i = 0; i < transactionTemplates.length; i++) {
     const template = transactionTemplates[i];
     const name = template.title;
     const fileName = `cadence/transactions/${name}.cdc`;
-    zip.file(fileName, template.script);
+    zip.file(
+      fileName,
+      rewriteImportsToFiles(template.script, 'cadence/transactions', contracts),
+    );
   }
 
   for (let i = 0; i < scriptTemplates.length; i++) {
     const template = scriptTemplates[i];
     const name = template.title;
     const fileName = `cadence/scripts/${name}.cdc`;
-    zip.file(fileName, template.script);
+    zip.file(
+      fileName,
+      rewriteImportsToFiles(template.script, 'cadence/scripts', contracts),
+    );
+  }
+
+  if (settings) {
+    zip.file(SETTINGS_FILE, settings);
   }
 
   // Save everything as ZIP
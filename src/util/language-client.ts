@@ -13,7 +13,9 @@ import {
 import {ConnectionErrorHandler} from "monaco-languageclient/src/connection"
 import {ConnectionCloseHandler} from "monaco-languageclient"
 
-export function createCadenceLanguageClient(callbacks: Callbacks) {
+// `onClose` is called when the connection to the server is lost,
+// e.g. because the server crashed
+export function createCadenceLanguageClient(callbacks: Callbacks, onClose?: () => void) {
   const logger: Logger = {
     error(message: string) {
       console.error(message)
@@ -52,8 +54,10 @@ export function createCadenceLanguageClient(callbacks: Callbacks) {
       return Disposable.create(() => {
       })
     },
-    onClose(_: (_: void) => void): Disposable {
+    onClose(listener: (_: void) => void): Disposable {
+      callbacks.onServerClose = () => listener()
       return Disposable.create(() => {
+        callbacks.onServerClose = null
       })
     },
     onPartialMessage(_: (m: PartialMessageInfo) => void): Disposable {
@@ -77,10 +81,17 @@ export function createCadenceLanguageClient(callbacks: Callbacks) {
   return new MonacoLanguageClient({
     name: "Cadence Language Client",
     clientOptions: {
-      documentSelector: [CADENCE_LANGUAGE_ID],
+      // Only documents of the project, not e.g. the deployed code shown in diffs
+      documentSelector: [{language: CADENCE_LANGUAGE_ID, scheme: "inmemory"}],
       errorHandler: {
         error: () => ErrorAction.Continue,
-        closed: () => CloseAction.DoNotRestart
+        closed: () => {
+          // Restarts are handled by the caller, which starts a new server
+          if (onClose) {
+            onClose()
+          }
+          return CloseAction.DoNotRestart
+        }
       }
     },
     // Create a language client connection from the JSON-RPC connection on demand
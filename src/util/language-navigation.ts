@@ -0,0 +1,263 @@
+import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+import { CADENCE_LANGUAGE_ID } from './cadence';
+import { getAccountIndex } from './accounts';
+import { ProjectFile } from './project-files';
+import { SearchMatch } from './project-search';
+import {
+  findDeclaration,
+  findReferences,
+  getImportAddress,
+} from './cadence-symbols';
+import { getContractName } from './parse-contract-name';
+
+export type ProjectDocument = {
+  file: ProjectFile;
+  model: monaco.editor.ITextModel;
+};
+
+// Contract, or a member of it, declared in the code of an account
+type SymbolTarget = {
+  account: ProjectDocument;
+  contract: string;
+  member?: string;
+};
+
+const toLocation = (
+  model: monaco.editor.ITextModel,
+  match: SearchMatch,
+): monaco.languages.Location => ({
+  uri: model.uri,
+  range: new monaco.Range(
+    match.lineNumber,
+    match.startColumn,
+    match.lineNumber,
+    match.endColumn,
+  ),
+});
+
+const isSameAddress = (a: string | undefined, b: string | undefined) =>
+  a !== undefined &&
+  b !== undefined &&
+  getAccountIndex(a) === getAccountIndex(b);
+
+const getAccountAddress = (document: ProjectDocument) =>
+  (document.file.index + 1).toString(16);
+
+const findTarget = (
+  documents: ProjectDocument[],
+  document: ProjectDocument,
+  position: monaco.IPosition,
+): SymbolTarget | null => {
+  const { model, file } = document;
+  const word = model.getWordAtPosition(position);
+  if (!word) {
+    return null;
+  }
+
+  const code = model.getValue();
+  const findAccount = (address: string) =>
+    documents.find(
+      (item) =>
+        item.file.kind === 'account' &&
+        item.file.index === getAccountIndex(address),
+    );
+
+  // Members are accessed through the imported contract, e.g. `Token.mint`
+  const before = model
+    .getLineContent(position.lineNumber)
+    .slice(0, word.startColumn - 1);
+  const qualifier = before.match(/([A-Za-z_]\w*)\s*\.\s*$/);
+  if (qualifier) {
+    const address = getImportAddress(code, qualifier[1]);
+    const account = address && findAccount(address);
+    return account
+      ? { account, contract: qualifier[1], member: word.word }
+      : null;
+  }
+
+  const address = getImportAddress(code, word.word);
+  if (address) {
+    const account = findAccount(address);
+    return account ? { account, contract: word.word } : null;
+  }
+
+  if (file.kind === 'account') {
+    const contract = getContractName(code);
+    if (word.word === contract) {
+      return { account: document, contract };
+    }
+    if (contract && findDeclaration(code, word.word)) {
+      return { account: document, contract, member: word.word };
+    }
+  }
+
+  return null;
+};
+
+export type DocumentMatches = {
+  document: ProjectDocument;
+  matches: SearchMatch[];
+};
+
+// Uses of the contract, or its member, at the position in all documents:
+// in the code of the declaring account, and where it's imported.
+// Empty when the symbol is not declared by an account contract
+export const findSymbolMatches = (
+  documents: ProjectDocument[],
+  document: ProjectDocument,
+  position: monaco.IPosition,
+): DocumentMatches[] => {
+  const target = findTarget(documents, document, position);
+  if (!target) {
+    return [];
+  }
+
+  const { account, contract, member } = target;
+  const address = getAccountAddress(account);
+  return documents
+    .map((item) => {
+      const code = item.model.getValue();
+      let matches: SearchMatch[] = [];
+      if (item === account) {
+        matches = findReferences(code, member || contract);
+      } else if (isSameAddress(getImportAddress(code, contract), address)) {
+        matches = member
+          ? findReferences(code, member, contract)
+          : findReferences(code, contract);
+      }
+      return { document: item, matches };
+    })
+    .filter((item) => item.matches.length > 0);
+};
+
+// Definitions and references in other documents of the project,
+// the language server provides the ones in the checked document
+export const registerNavigationProviders = (
+  getDocuments: () => ProjectDocument[],
+): monaco.IDisposable[] => {
+  const findDocument = (model: monaco.editor.ITextModel) => {
+    const documents = getDocuments();
+    const document = documents.find((item) => item.model === model);
+    return { documents, document };
+  };
+
+  return [
+    monaco.languages.registerDefinitionProvider(CADENCE_LANGUAGE_ID, {
+      provideDefinition: (model, position) => {
+        const { documents, document } = findDocument(model);
+        const target = document && findTarget(documents, document, position);
+        if (!target || target.account === document) {
+          return [];
+        }
+
+        const { model: accountModel } = target.account;
+        const declaration = findDeclaration(
+          accountModel.getValue(),
+          target.member || target.contract,
+        );
+        return declaration ? [toLocation(accountModel, declaration)] : [];
+      },
+    }),
+
+    monaco.languages.registerReferenceProvider(CADENCE_LANGUAGE_ID, {
+      provideReferences: (model, position) => {
+        const { documents, document } = findDocument(model);
+        if (!document) {
+          return [];
+        }
+
+        return findSymbolMatches(documents, document, position)
+          .filter((item) => item.document !== document)
+          .reduce(
+            (locations: monaco.languages.Location[], item) => [
+              ...locations,
+              ...item.matches.map((match) =>
+                toLocation(item.document.model, match),
+              ),
+            ],
+            [],
+          );
+      },
+    }),
+  ];
+};
+
+// Ends are left out when only the position is known
+type OpenSelection = {
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber?: number;
+  endColumn?: number;
+};
+
+type OpenHandler = (resource: monaco.Uri, selection?: OpenSelection) => void;
+
+type OpenInput = {
+  resource: monaco.Uri;
+  options?: { selection?: OpenSelection };
+};
+
+// Part of the code editor service of Monaco used to open documents,
+// it's internal to Monaco and might change when it's upgraded
+type CodeEditorService = {
+  openCodeEditor: (
+    input: OpenInput,
+    source: monaco.editor.ICodeEditor | null,
+    sideBySide?: boolean,
+  ) => Promise<monaco.editor.ICodeEditor | null>;
+};
+
+const isCodeEditorService = (service: unknown): service is CodeEditorService =>
+  typeof service === 'object' &&
+  service !== null &&
+  typeof (service as CodeEditorService).openCodeEditor === 'function';
+
+type EditorInternals = { _codeEditorService?: unknown };
+
+const getCodeEditorService = (
+  editor: monaco.editor.ICodeEditor & EditorInternals,
+): CodeEditorService | null => {
+  const service = editor._codeEditorService;
+  return isCodeEditorService(service) ? service : null;
+};
+
+const openHandlers = new Map<monaco.editor.ICodeEditor, OpenHandler>();
+const wrappedServices = new WeakSet<CodeEditorService>();
+
+// Monaco only opens definitions in the document shown by the editor, and
+// has no public hook for others. The code editor service, shared by all
+// editors, is wrapped once, and passes the documents it couldn't open to
+// the handler of the editor the definition was requested in. Without the
+// service, definitions in other documents are not opened
+export const onOpenDocument = (
+  editor: monaco.editor.ICodeEditor,
+  handler: OpenHandler,
+): monaco.IDisposable => {
+  const service = getCodeEditorService(editor);
+  if (!service) {
+    console.warn("Definitions in other files can't be opened");
+    return { dispose: () => {} };
+  }
+
+  if (!wrappedServices.has(service)) {
+    wrappedServices.add(service);
+    const openCodeEditor = service.openCodeEditor.bind(service);
+    service.openCodeEditor = async (input, source, sideBySide) => {
+      const result = await openCodeEditor(input, source, sideBySide);
+      const sourceHandler = openHandlers.get(source);
+      if (!result && sourceHandler) {
+        sourceHandler(input.resource, input.options && input.options.selection);
+      }
+      return result;
+    };
+  }
+
+  openHandlers.set(editor, handler);
+  return {
+    dispose: () => {
+      if (openHandlers.get(editor) === handler) {
+        openHandlers.delete(editor);
+      }
+    },
+  };
+};
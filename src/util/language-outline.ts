@@ -0,0 +1,99 @@
+import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+import {
+  DocumentSymbol,
+  DocumentSymbolRequest,
+  MonacoLanguageClient,
+  SymbolInformation,
+  SymbolKind,
+} from 'monaco-languageclient';
+import { OutlineKind, OutlineSymbol, parseOutline } from './cadence-outline';
+
+type Range = DocumentSymbol['range'];
+
+const TRANSACTION_PHASES = ['prepare', 'pre', 'execute', 'post'];
+
+// The server reports composites as classes or structs,
+// resources are told apart by the details of the symbol.
+// Transactions and their phases are told apart by their names
+const getKind = (symbol: DocumentSymbol, parent?: OutlineKind): OutlineKind => {
+  if (!parent && symbol.name === 'transaction') {
+    return 'transaction';
+  }
+  if (parent === 'transaction' && TRANSACTION_PHASES.includes(symbol.name)) {
+    return 'phase';
+  }
+  const detail = symbol.detail || '';
+  switch (symbol.kind) {
+    case SymbolKind.Module:
+    case SymbolKind.Namespace:
+      return 'contract';
+    case SymbolKind.Class:
+    case SymbolKind.Struct:
+      if (detail.includes('resource')) {
+        return 'resource';
+      }
+      return detail.includes('struct') ? 'struct' : 'contract';
+    case SymbolKind.Interface:
+      return 'interface';
+    case SymbolKind.Event:
+      return 'event';
+    case SymbolKind.Function:
+    case SymbolKind.Method:
+    case SymbolKind.Constructor:
+      return 'function';
+    default:
+      return 'field';
+  }
+};
+
+const toOutlineRange = ({ start, end }: Range) => ({
+  startLineNumber: start.line + 1,
+  startColumn: start.character + 1,
+  endLineNumber: end.line + 1,
+  endColumn: end.character + 1,
+});
+
+const toOutlineSymbol = (
+  symbol: DocumentSymbol,
+  parent?: OutlineKind,
+): OutlineSymbol => {
+  const kind = getKind(symbol, parent);
+  return {
+    name: symbol.name,
+    kind,
+    range: toOutlineRange(symbol.range),
+    selectionRange: toOutlineRange(symbol.selectionRange),
+    detail: symbol.detail,
+    children: (symbol.children || []).map((child) =>
+      toOutlineSymbol(child, kind),
+    ),
+  };
+};
+
+// Flat symbol information has no ranges of bodies, it can't be nested
+const isHierarchical = (
+  symbols: (DocumentSymbol | SymbolInformation)[],
+): symbols is DocumentSymbol[] =>
+  symbols.every((symbol) => 'selectionRange' in symbol);
+
+// Symbols of the document as known by the language server,
+// they are parsed from the code when the server can't provide them
+export const getDocumentOutline = async (
+  languageClient: MonacoLanguageClient | null,
+  model: monaco.editor.ITextModel,
+): Promise<OutlineSymbol[]> => {
+  if (languageClient) {
+    try {
+      const symbols = await languageClient.sendRequest(
+        DocumentSymbolRequest.type,
+        { textDocument: { uri: model.uri.toString() } },
+      );
+      if (symbols && symbols.length > 0 && isHierarchical(symbols)) {
+        return symbols.map((symbol) => toOutlineSymbol(symbol));
+      }
+    } catch (error) {
+      // Not every version of the language server provides document symbols
+    }
+  }
+  return model.isDisposed() ? [] : parseOutline(model.getValue());
+};
@@ -0,0 +1,158 @@
+import {WorkerRequest, WorkerResponse} from "./language-server"
+
+// Runs the Cadence language server off the main thread,
+// so checking big programs does not block the editor.
+// The page talks to it through `CadenceLanguageServer`.
+
+// The global `Go` is declared by `wasm_exec.js`,
+// which is bundled into the worker before this file
+
+declare var Go: any
+
+const scope: any = self
+
+// Code of imported addresses, keyed by the address number.
+// The language server asks for it synchronously, so it can't be requested
+// from the page on demand and is pushed by the page instead
+const addressCodes = new Map<number, string>()
+
+// Ids given by the page mapped to the ids of servers started by the WASM module
+const serverIds = new Map<number, number>()
+
+let loading: Promise<void> | null = null
+
+const post = (response: WorkerResponse) => scope.postMessage(response)
+
+function load(): Promise<void> {
+  if (!loading) {
+    loading = (async () => {
+      const wasm = await fetch("./cadence-language-server.wasm")
+      const go = new Go()
+      const module = await WebAssembly.instantiateStreaming(wasm, go.importObject)
+
+      // For each file descriptor, buffer the written content until reaching a newline
+
+      const outputBuffers = new Map<number, string>()
+      const decoder = new TextDecoder("utf-8")
+
+      // When the language server writes to a file, e.g. standard output or standard error,
+      // then pass the output to the page, where it's collected into a log
+
+      scope.fs.writeSync = function (fileDescriptor: number, buf: Uint8Array): number {
+        // Get the currently buffered output for the given file descriptor,
+        // or initialize it, if there is no buffered output yet.
+
+        let outputBuffer = outputBuffers.get(fileDescriptor)
+        if (!outputBuffer) {
+          outputBuffer = ""
+        }
+
+        // Decode the written data as UTF-8
+        outputBuffer += decoder.decode(buf)
+
+        // If the buffered output contains a newline,
+        // send the contents up to the newline
+
+        const nl = outputBuffer.lastIndexOf("\n")
+        if (nl != -1) {
+          const text = outputBuffer.substr(0, nl)
+          post({type: "output", fileDescriptor, text})
+          // keep the remainder
+          outputBuffer = outputBuffer.substr(nl + 1)
+        }
+        outputBuffers.set(fileDescriptor, outputBuffer)
+
+        return buf.length
+      }
+
+      // Running the module only finishes when the Go program exits,
+      // e.g. after a panic. All servers are gone then,
+      // the next start loads the module again
+      go.run(module.instance).then(closeAll)
+    })()
+    // Allow to retry on the next start
+    loading.catch(() => {
+      loading = null
+    })
+  }
+  return loading
+}
+
+const functionNamePrefix = "CADENCE_LANGUAGE_SERVER"
+
+function functionName(name: string, serverId?: number): string {
+  return serverId === undefined
+    ? `__${functionNamePrefix}_${name}__`
+    : `__${functionNamePrefix}_${serverId}_${name}__`
+}
+
+function closeAll() {
+  loading = null
+  serverIds.forEach((_, id) => post({type: "serverClose", id}))
+  serverIds.clear()
+}
+
+async function start(id: number) {
+  await load()
+
+  // The language server, written in Go and compiled to WebAssembly, interacts with this JS environment
+  // by calling global functions. There does not seem to be support yet to directly import functions
+  // from the JS environment into the WebAssembly environment
+
+  const serverId: number = scope[functionName("start")]()
+  serverIds.set(id, serverId)
+
+  scope[functionName("toClient", serverId)] = (message: string): void => {
+    post({type: "toClient", id, message})
+  }
+
+  scope[functionName("getAddressCode", serverId)] = (address: string): string | undefined => {
+    return addressCodes.get(parseInt(address, 16))
+  }
+
+  scope[functionName("onServerClose", serverId)] = (): void => {
+    post({type: "serverClose", id})
+  }
+
+  post({type: "started", id})
+}
+
+scope.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data
+  // Messages might still arrive for servers which have been closed
+  if ((request.type === "toServer" || request.type === "clientClose") && !serverIds.has(request.id)) {
+    return
+  }
+
+  switch (request.type) {
+    case "start":
+      start(request.id).catch((error) => {
+        console.error(error)
+        post({type: "serverClose", id: request.id})
+      })
+      break
+    case "toServer":
+      try {
+        scope[functionName("toServer", serverIds.get(request.id))](request.error, request.message)
+      } catch (error) {
+        // Calls fail once the Go program has exited
+        console.error(error)
+        closeAll()
+      }
+      break
+    case "clientClose":
+      scope[functionName("onClientClose", serverIds.get(request.id))]()
+      serverIds.delete(request.id)
+      break
+    case "addressCodes":
+      Object.keys(request.codes).forEach((address) => {
+        const code = request.codes[address]
+        if (code === null) {
+          addressCodes.delete(Number(address))
+        } else {
+          addressCodes.set(Number(address), code)
+        }
+      })
+      break
+  }
+}
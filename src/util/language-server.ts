@@ -1,11 +1,6 @@
 import { DocumentUri } from "monaco-languageclient";
 import {Message} from "vscode-jsonrpc";
-
-// The global `Go` is declared by `wasm_exec.js`.
-// Instead of improving the that file, we use it as-is,
-// because it is maintained by the Go team and
-
-declare var Go: any
+import {MAX_ACCOUNTS} from "./accounts";
 
 // Callbacks defines the functions that the language server calls
 // and that need to be implemented by the client.
@@ -48,118 +43,165 @@ export namespace CadenceCheckCompleted {
   }
 }
 
-export class CadenceLanguageServer {
-
-  static isLoaded = false
-
+// Messages exchanged with the worker running the language server,
+// see `language-server-worker.ts`.
+// Servers are identified by ids given by the page.
 
-  private static async load() {
-    if (this.isLoaded) {
-      return
-    }
-
-    const wasm = await fetch("./cadence-language-server.wasm")
-    const go = new Go()
-    const module = await WebAssembly.instantiateStreaming(wasm, go.importObject)
+export type WorkerRequest =
+  | { type: "start", id: number }
+  | { type: "toServer", id: number, error: any, message: string }
+  | { type: "clientClose", id: number }
+  // Code of the addresses, keyed by the address number,
+  // `null` removes code which is not available anymore
+  | { type: "addressCodes", codes: { [address: string]: string | null } }
 
-    // For each file descriptor, buffer the written content until reaching a newline
+export type WorkerResponse =
+  | { type: "started", id: number }
+  | { type: "toClient", id: number, message: string }
+  | { type: "serverClose", id: number }
+  // Output the WASM module wrote to a file descriptor, e.g. standard error
+  | { type: "output", fileDescriptor: number, text: string }
 
-    const outputBuffers = new Map<number, string>()
-    const decoder = new TextDecoder("utf-8")
+export type OutputListener = (fileDescriptor: number, text: string) => void
 
-    // Implementing `writeSync` is mainly just for debugging purposes:
-    // When the language server writes to a file, e.g. standard output or standard error,
-    // then log the output in the console
-
-    window['fs'].writeSync = function (fileDescriptor: number, buf: Uint8Array): number {
-      // Get the currently buffered output for the given file descriptor,
-      // or initialize it, if there is no buffered output yet.
+export class CadenceLanguageServer {
 
-      let outputBuffer = outputBuffers.get(fileDescriptor)
-      if (!outputBuffer) {
-        outputBuffer = ""
+  private static worker: Worker | null = null
+  private static servers = new Map<number, CadenceLanguageServer>()
+  private static nextId = 1
+  private static outputListeners: OutputListener[] = []
+
+  private static getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker("./language-server-worker.js")
+      this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const response = event.data
+        if (response.type === "output") {
+          this.outputListeners.forEach((listener) =>
+            listener(response.fileDescriptor, response.text)
+          )
+          return
+        }
+        const server = this.servers.get(response.id)
+        if (server) {
+          server.receive(response)
+        }
       }
-
-      // Decode the written data as UTF-8
-      outputBuffer += decoder.decode(buf)
-
-      // If the buffered output contains a newline,
-      // log the contents up to the newline to the console
-
-      const nl = outputBuffer.lastIndexOf("\n")
-      if (nl != -1) {
-        const lines = outputBuffer.substr(0, nl + 1)
-        console.debug(`(FD ${fileDescriptor}):`, lines)
-        // keep the remainder
-        outputBuffer = outputBuffer.substr(nl + 1)
+      // Servers can't be used after an uncaught error in the worker,
+      // the next server gets a new worker
+      this.worker.onerror = (event: ErrorEvent) => {
+        console.error(event.message)
+        this.worker.terminate()
+        this.worker = null
+        this.servers.forEach((server) => server.receive({type: "serverClose", id: server.id}))
       }
-      outputBuffers.set(fileDescriptor, outputBuffer)
-
-      return buf.length
     }
-
-    go.run(module.instance)
-
-    this.isLoaded = true
+    return this.worker
   }
 
-  private static functionNamePrefix = "CADENCE_LANGUAGE_SERVER"
-
-  private static functionName(name: string): string {
-    return `__${CadenceLanguageServer.functionNamePrefix}_${name}__`
+  // Subscribes to the output of the language server,
+  // returns a function to unsubscribe
+  static onOutput(listener: OutputListener): () => void {
+    this.outputListeners.push(listener)
+    return () => {
+      this.outputListeners = this.outputListeners.filter((item) => item !== listener)
+    }
   }
 
-  private functionName(name: string): string {
-    return `__${CadenceLanguageServer.functionNamePrefix}_${this.id}_${name}__`
+  private static post(request: WorkerRequest) {
+    this.getWorker().postMessage(request)
   }
 
   static async create(callbacks: Callbacks): Promise<CadenceLanguageServer> {
+    const server = new CadenceLanguageServer(this.nextId++, callbacks)
+    this.servers.set(server.id, server)
+    server.sendAddressCodes()
 
-    await this.load()
+    await new Promise((resolve, reject) => {
+      server.onStarted = resolve
+      server.onStartFailed = () => reject(new Error("Cadence language server failed to start"))
+      this.post({type: "start", id: server.id})
+    })
 
-    return new CadenceLanguageServer(callbacks)
+    return server
   }
 
   public readonly id: number
+  private readonly callbacks: Callbacks
   private isClientClosed: boolean
+  private isStarted = false
+  private onStarted: () => void
+  private onStartFailed: () => void
+  // Code of the addresses as it was last sent to the worker
+  private sentCodes = new Map<number, string | undefined>()
 
-  private constructor(callbacks: Callbacks) {
-
-    // The language server, written in Go and compiled to WebAssembly, interacts with this JS environment
-    // by calling global functions. There does not seem to be support yet to directly import functions
-    // from the JS environment into the WebAssembly environment
+  private constructor(id: number, callbacks: Callbacks) {
+    this.id = id
+    this.callbacks = callbacks
 
-    this.id = window[CadenceLanguageServer.functionName('start')]()
-
-    window[this.functionName('toClient')] = (message: string): void => {
-      callbacks.toClient(JSON.parse(message))
+    callbacks.toServer = (error: any, message: any) => {
+      // Imported code might have changed since the last message
+      this.sendAddressCodes()
+      CadenceLanguageServer.post({
+        type: "toServer",
+        id: this.id,
+        error,
+        message: JSON.stringify(message),
+      })
     }
 
-    window[this.functionName('getAddressCode')] = (address: string): string | undefined => {
-      if (!callbacks.getAddressCode) {
-        return undefined
+    callbacks.onClientClose = () => {
+      if (this.isClientClosed) {
+        return
       }
-
-      return callbacks.getAddressCode(address)
+      this.isClientClosed = true
+      CadenceLanguageServer.post({type: "clientClose", id: this.id})
+      CadenceLanguageServer.servers.delete(this.id)
     }
+  }
 
-    window[this.functionName('onServerClose')] = (): void => {
-      if (!callbacks.onServerClose) {
-        return
-      }
-      callbacks.onServerClose()
+  private receive(response: WorkerResponse) {
+    switch (response.type) {
+      case "started":
+        this.isStarted = true
+        this.onStarted()
+        break
+      case "toClient":
+        this.callbacks.toClient(JSON.parse(response.message))
+        break
+      case "serverClose":
+        CadenceLanguageServer.servers.delete(this.id)
+        if (!this.isStarted) {
+          this.onStartFailed()
+        } else if (this.callbacks.onServerClose) {
+          this.callbacks.onServerClose()
+        }
+        break
     }
+  }
 
-    callbacks.toServer = (error: any, message: any) => {
-      window[this.functionName('toServer')](error, JSON.stringify(message))
+  // Sends the code of addresses which changed since it was last sent
+  private sendAddressCodes() {
+    if (!this.callbacks.getAddressCode) {
+      return
     }
 
-    callbacks.onClientClose = () => {
-      if (this.isClientClosed) {
-        return
+    const codes: { [address: string]: string | null } = {}
+    let hasChanges = false
+    // Account addresses of the playground are small numbers,
+    // so the code of all of them is sent to the worker ahead of time
+    for (let address = 1; address <= MAX_ACCOUNTS; address++) {
+      const code = this.callbacks.getAddressCode(address.toString(16))
+      if (code === this.sentCodes.get(address)) {
+        continue
       }
-      this.isClientClosed = true
-      window[this.functionName('onClientClose')]()
+      this.sentCodes.set(address, code)
+      codes[address] = code === undefined ? null : code
+      hasChanges = true
+    }
+
+    if (hasChanges) {
+      CadenceLanguageServer.post({type: "addressCodes", codes})
     }
   }
 }
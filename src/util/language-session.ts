@@ -0,0 +1,436 @@
+import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+import { MonacoLanguageClient } from 'monaco-languageclient';
+import configureCadence, { CADENCE_LANGUAGE_ID } from './cadence';
+import {
+  CadenceCheckCompleted,
+  CadenceLanguageServer,
+  Callbacks,
+} from './language-server';
+import { createCadenceLanguageClient } from './language-client';
+import { getAccountIndex } from './accounts';
+import { ProjectFile } from './project-files';
+import { getProblemsList, ProblemsList } from './language-syntax-errors';
+import {
+  ProjectDocument,
+  registerNavigationProviders,
+} from './language-navigation';
+import { getDocumentOutline } from './language-outline';
+import { OutlineSymbol } from './cadence-outline';
+import { CompositeTypes, resolveCompositeTypes } from './cadence-values';
+import { findSigners, SignerParameter } from './cadence-signers';
+
+const { MonacoServices } = require('monaco-languageclient/lib/monaco-services');
+
+let monacoServicesInstalled = false;
+
+type CheckListener = (result: CadenceCheckCompleted.Params) => void;
+
+export enum LanguageServerStatus {
+  Starting = 'starting',
+  Running = 'running',
+  Restarting = 'restarting',
+  Stopped = 'stopped',
+}
+
+export type LogSource = 'stdout' | 'stderr' | 'playground';
+
+export type LogEntry = {
+  timestamp: Date;
+  source: LogSource;
+  text: string;
+};
+
+// Problems of all documents, keyed by the ids of accounts and templates
+export type ProjectProblems = { [id: string]: ProblemsList };
+
+type ProblemsListener = (problems: ProjectProblems) => void;
+type StatusListener = (status: LanguageServerStatus) => void;
+type LogListener = (log: LogEntry[]) => void;
+
+// Older entries are dropped, the server can be chatty
+const MAX_LOG_ENTRIES = 500;
+
+// Delays between restarts double after each crash,
+// until the server survives until its first check
+const RESTART_DELAY = 1000;
+const MAX_RESTART_DELAY = 30000;
+
+const getLogSource = (fileDescriptor: number): LogSource =>
+  fileDescriptor === 1 ? 'stdout' : 'stderr';
+
+// Documents are identified by the ids of accounts and templates
+export const getDocumentUri = (id: string): monaco.Uri =>
+  monaco.Uri.from({ scheme: 'inmemory', path: `/${id}.cdc` });
+
+// One language server and client shared by all editors of a project.
+// Every account contract and template is opened as a document,
+// so checks, hovers and imports work across files.
+// When the server crashes, a new one is started and the documents are opened again.
+export default class CadenceLanguageSession {
+  languageClient: MonacoLanguageClient | null = null;
+  status = LanguageServerStatus.Starting;
+  log: LogEntry[] = [];
+  private callbacks: Callbacks | null = null;
+  private starting: Promise<MonacoLanguageClient | null> | null = null;
+  private restartAttempts = 0;
+  private restartTimeout: number | null = null;
+  private statusListeners: StatusListener[] = [];
+  private logListeners: LogListener[] = [];
+  private problemsListeners: ProblemsListener[] = [];
+  private unsubscribeOutput: () => void;
+  private markersSubscription: monaco.IDisposable;
+  private navigationProviders: monaco.IDisposable[];
+  private isDisposed = false;
+  private models = new Map<string, monaco.editor.ITextModel>();
+  private files: ProjectFile[] = [];
+  // Documents open in editors, keyed by the editors. Their code is synced
+  // by the editors themselves, as the project lags behind while typing
+  private editedIds = new Map<string, string>();
+  private checkListeners: CheckListener[] = [];
+  private checkResults = new Map<string, CadenceCheckCompleted.Params>();
+
+  constructor() {
+    configureCadence();
+    this.unsubscribeOutput = CadenceLanguageServer.onOutput(
+      (fileDescriptor, text) => this.addLog(getLogSource(fileDescriptor), text),
+    );
+    this.markersSubscription = monaco.editor.onDidChangeMarkers((uris) => {
+      const changed = uris.map((uri) => uri.toString());
+      const models = Array.from(this.models.values());
+      if (models.some((model) => changed.includes(model.uri.toString()))) {
+        this.notifyProblems();
+      }
+    });
+    this.navigationProviders = registerNavigationProviders(() =>
+      this.getDocuments(),
+    );
+  }
+
+  // Resolves to `null` when the server failed to start,
+  // another attempt is made after a delay
+  start(): Promise<MonacoLanguageClient | null> {
+    if (!this.starting) {
+      this.starting = this.startClient().catch((error) => {
+        this.addLog('playground', `Failed to start: ${error.message}`);
+        this.handleClose();
+        return null;
+      });
+    }
+    return this.starting;
+  }
+
+  private async startClient(): Promise<MonacoLanguageClient> {
+    this.callbacks = {
+      // The actual callback will be set as soon as the language server is initialized
+      toServer: null,
+
+      // The actual callback will be set as soon as the language server is initialized
+      onClientClose: null,
+
+      // The actual callback will be set as soon as the language client is initialized
+      onServerClose: null,
+
+      // The actual callback will be set as soon as the language client is initialized
+      toClient: null,
+
+      getAddressCode: (address: string) => this.getAddressCode(address),
+    };
+
+    // The Monaco Language Client services have to be installed globally, once.
+    // An editor must be passed, which is only used for commands.
+    // As the Cadence language server is not providing any commands this is OK
+
+    if (!monacoServicesInstalled) {
+      monacoServicesInstalled = true;
+      MonacoServices.install(monaco);
+    }
+
+    await CadenceLanguageServer.create(this.callbacks);
+
+    const languageClient = createCadenceLanguageClient(this.callbacks, () =>
+      this.handleClose(),
+    );
+    languageClient.start();
+    await languageClient.onReady();
+
+    languageClient.onNotification(
+      CadenceCheckCompleted.methodName,
+      (result: CadenceCheckCompleted.Params) => {
+        // The server is working, a later crash restarts it right away
+        this.restartAttempts = 0;
+        this.checkResults.set(result.uri, result);
+        this.checkListeners.forEach((listener) => listener(result));
+      },
+    );
+
+    this.languageClient = languageClient;
+    if (this.isDisposed) {
+      this.dispose();
+    } else {
+      this.setStatus(LanguageServerStatus.Running);
+    }
+    return languageClient;
+  }
+
+  // The client opens all existing models when it starts,
+  // so documents are sent to the new server without further ado
+  private handleClose() {
+    this.languageClient = null;
+    this.checkResults.clear();
+    if (this.isDisposed || this.restartTimeout !== null) {
+      return;
+    }
+
+    const delay = Math.min(
+      RESTART_DELAY * 2 ** this.restartAttempts,
+      MAX_RESTART_DELAY,
+    );
+    this.restartAttempts += 1;
+    this.addLog(
+      'playground',
+      `Language server stopped, restarting in ${delay / 1000}s`,
+    );
+    this.setStatus(LanguageServerStatus.Restarting);
+
+    this.restartTimeout = window.setTimeout(() => {
+      this.restartTimeout = null;
+      this.starting = null;
+      this.setStatus(LanguageServerStatus.Starting);
+      this.start();
+    }, delay);
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.push(listener);
+    return () => {
+      this.statusListeners = this.statusListeners.filter(
+        (item) => item !== listener,
+      );
+    };
+  }
+
+  onLog(listener: LogListener): () => void {
+    this.logListeners.push(listener);
+    return () => {
+      this.logListeners = this.logListeners.filter((item) => item !== listener);
+    };
+  }
+
+  // Markers are set on the models by the language client
+  getProblems(): ProjectProblems {
+    const problems: ProjectProblems = {};
+    this.models.forEach((model, id) => {
+      if (!model.isDisposed()) {
+        problems[id] = getProblemsList(
+          monaco.editor.getModelMarkers({ resource: model.uri }),
+        );
+      }
+    });
+    return problems;
+  }
+
+  onProblemsChange(listener: ProblemsListener): () => void {
+    this.problemsListeners.push(listener);
+    return () => {
+      this.problemsListeners = this.problemsListeners.filter(
+        (item) => item !== listener,
+      );
+    };
+  }
+
+  private notifyProblems() {
+    const problems = this.getProblems();
+    this.problemsListeners.forEach((listener) => listener(problems));
+  }
+
+  private setStatus(status: LanguageServerStatus) {
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+
+  private addLog(source: LogSource, text: string) {
+    this.log = [
+      ...this.log.slice(-(MAX_LOG_ENTRIES - 1)),
+      { timestamp: new Date(), source, text },
+    ];
+    this.logListeners.forEach((listener) => listener(this.log));
+  }
+
+  dispose() {
+    this.isDisposed = true;
+    this.setStatus(LanguageServerStatus.Stopped);
+    this.unsubscribeOutput();
+    this.markersSubscription.dispose();
+    this.navigationProviders.forEach((provider) => provider.dispose());
+    if (this.restartTimeout !== null) {
+      window.clearTimeout(this.restartTimeout);
+      this.restartTimeout = null;
+    }
+    if (this.languageClient) {
+      this.languageClient.stop();
+      this.languageClient = null;
+    }
+    if (this.callbacks && this.callbacks.onClientClose) {
+      this.callbacks.onClientClose();
+    }
+    this.models.forEach((model) => model.dispose());
+    this.models.clear();
+  }
+
+  // Latest check of the document, checks are only sent when code changes
+  getCheckResult(uri: monaco.Uri): CadenceCheckCompleted.Params | undefined {
+    return this.checkResults.get(uri.toString());
+  }
+
+  onCheckCompleted(listener: CheckListener): () => void {
+    this.checkListeners.push(listener);
+    return () => {
+      this.checkListeners = this.checkListeners.filter(
+        (item) => item !== listener,
+      );
+    };
+  }
+
+  openDocument(id: string, code: string): monaco.editor.ITextModel {
+    const existing = this.models.get(id);
+    if (existing && !existing.isDisposed()) {
+      return existing;
+    }
+
+    const model = monaco.editor.createModel(
+      code,
+      CADENCE_LANGUAGE_ID,
+      getDocumentUri(id),
+    );
+    this.models.set(id, model);
+    return model;
+  }
+
+  // Id of the account or template the document belongs to
+  getDocumentId(uri: monaco.Uri): string | undefined {
+    const document = this.getDocuments().find(
+      ({ model }) => model.uri.toString() === uri.toString(),
+    );
+    return document && document.file.id;
+  }
+
+  // Declarations in the document, also while the server is not running
+  async getOutline(id: string): Promise<OutlineSymbol[]> {
+    const model = this.models.get(id);
+    if (!model || model.isDisposed()) {
+      return [];
+    }
+    return getDocumentOutline(this.languageClient, model);
+  }
+
+  // Signers of the transaction in the document, located in its outline
+  async getSigners(id: string): Promise<SignerParameter[]> {
+    const model = this.models.get(id);
+    if (!model || model.isDisposed()) {
+      return [];
+    }
+    const outline = await getDocumentOutline(this.languageClient, model);
+    return model.isDisposed() ? [] : findSigners(model.getValue(), outline);
+  }
+
+  // Structs used by the argument types of the document, with their fields
+  // as found in the symbols of the accounts declaring them
+  async getCompositeTypes(
+    id: string,
+    types: string[],
+  ): Promise<CompositeTypes> {
+    const model = this.models.get(id);
+    if (!model || model.isDisposed()) {
+      return {};
+    }
+    const outlines = await this.getAccountOutlines();
+    if (model.isDisposed()) {
+      return {};
+    }
+    return resolveCompositeTypes(
+      model.getValue(),
+      types,
+      (address) => this.getAddressCode(address),
+      (address) => outlines[getAccountIndex(address)] || [],
+    );
+  }
+
+  getDocuments(): ProjectDocument[] {
+    return this.files
+      .map((file) => ({ file, model: this.models.get(file.id) }))
+      .filter(({ model }) => model && !model.isDisposed());
+  }
+
+  setEditedDocument(editor: string, id: string | null) {
+    if (id) {
+      this.editedIds.set(editor, id);
+    } else {
+      this.editedIds.delete(editor);
+    }
+  }
+
+  // Opens new files of the project, applies code changed outside
+  // of the editor and closes documents of removed files
+  syncDocuments(files: ProjectFile[]) {
+    this.files = files;
+    if (this.isDisposed) {
+      return;
+    }
+
+    const ids = files.map((file) => file.id);
+    const editedIds = Array.from(this.editedIds.values());
+    let hasRemoved = false;
+    this.models.forEach((model, id) => {
+      if (!ids.includes(id)) {
+        model.dispose();
+        this.models.delete(id);
+        hasRemoved = true;
+      }
+    });
+    if (hasRemoved) {
+      this.notifyProblems();
+    }
+
+    files.forEach((file) => {
+      const model = this.openDocument(file.id, file.code);
+      if (!editedIds.includes(file.id) && model.getValue() !== file.code) {
+        model.setValue(file.code);
+      }
+    });
+  }
+
+  // Outlines of the documents of accounts, keyed by their indexes
+  private async getAccountOutlines(): Promise<{
+    [index: number]: OutlineSymbol[];
+  }> {
+    const accounts = this.getDocuments().filter(
+      ({ file }) => file.kind === 'account',
+    );
+    const outlines = await Promise.all(
+      accounts.map(({ model }) =>
+        getDocumentOutline(this.languageClient, model),
+      ),
+    );
+    return accounts.reduce(
+      (result, { file }, index) => ({
+        ...result,
+        [file.index]: outlines[index],
+      }),
+      {},
+    );
+  }
+
+  private getAddressCode(address: string): string | undefined {
+    const index = getAccountIndex(address);
+    const file = this.files.find(
+      (item) => item.kind === 'account' && item.index === index,
+    );
+    if (!file) {
+      return;
+    }
+
+    // Models are ahead of the project while typing
+    const model = this.models.get(file.id);
+    return model && !model.isDisposed() ? model.getValue() : file.code;
+  }
+}
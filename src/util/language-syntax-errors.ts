@@ -67,6 +67,24 @@ export const formatMarker = (marker: monaco.editor.IMarker): CadenceProblem => {
   }
 };
 
+export const getProblemsList = (markers: monaco.editor.IMarker[]): ProblemsList => {
+  return markers.reduce(
+    (acc: ProblemsList, marker) => {
+      const problem = formatMarker(marker)
+      if (acc[problem.type]) {
+        acc[problem.type].push(problem)
+      }
+      return acc
+    },
+    {
+      error: [],
+      warning: [],
+      info: [],
+      hint: [],
+    },
+  )
+}
+
 export const hasErrors = (problemList: any[]):boolean => {
   return problemList.filter(problem => problem.type === ProblemType.Error).length === 0
 }
@@ -0,0 +1,9 @@
+// Name of the first contract or contract interface declared in the code.
+// The name has to be followed by its conformances or body, so contracts
+// mentioned in comments are skipped
+export const getContractName = (code: string): string | undefined => {
+  const match = code.match(
+    /\bcontract\s+(?:interface\s+)?([A-Za-z_]\w*)\s*[:{]/,
+  );
+  return match ? match[1] : undefined;
+};
@@ -0,0 +1,124 @@
+import { Project } from 'api/apollo/generated/graphql';
+import { DiffLine, diffLines } from './diff';
+
+// FileKind matches the `type` parameter used in project urls
+export type FileKind = 'account' | 'tx' | 'script';
+
+export type ProjectFile = {
+  kind: FileKind;
+  index: number;
+  id: string;
+  title: string;
+  code: string;
+};
+
+export const getAccountTitle = (address: string): string =>
+  `0x${address.slice(-2)}`;
+
+export const getAccountTitleByIndex = (index: number): string =>
+  `0x${`0${(index + 1).toString(16)}`.slice(-2)}`;
+
+export const getProjectFiles = (project: Project): ProjectFile[] => {
+  const accounts: ProjectFile[] = project.accounts.map((account, index) => ({
+    kind: 'account',
+    index,
+    id: account.id,
+    title: getAccountTitle(account.address),
+    code: account.draftCode,
+  }));
+
+  const transactions: ProjectFile[] = project.transactionTemplates.map(
+    (template, index) => ({
+      kind: 'tx',
+      index,
+      id: template.id,
+      title: template.title,
+      code: template.script,
+    }),
+  );
+
+  const scripts: ProjectFile[] = project.scriptTemplates.map(
+    (template, index) => ({
+      kind: 'script',
+      index,
+      id: template.id,
+      title: template.title,
+      code: template.script,
+    }),
+  );
+
+  return [...accounts, ...transactions, ...scripts];
+};
+
+export const getFileKey = (file: { kind: FileKind; index: number }): string =>
+  `${file.kind}-${file.index}`;
+
+export const getFilePath = (projectPath: string, file: ProjectFile): string =>
+  `/${projectPath}?type=${file.kind}&id=${file.id}`;
+
+export enum FileStatus {
+  Added = 'added',
+  Removed = 'removed',
+  Modified = 'modified',
+}
+
+export type FileChange = {
+  kind: FileKind;
+  index: number;
+  title: string;
+  status: FileStatus;
+  oldCode: string;
+  newCode: string;
+  lines: DiffLine[];
+};
+
+// Compares two sets of project files, matching them by kind and position
+export const diffProjectFiles = (
+  base: ProjectFile[],
+  current: ProjectFile[],
+): FileChange[] => {
+  const baseFiles = new Map(base.map((file) => [getFileKey(file), file]));
+  const currentKeys = new Set(current.map((file) => getFileKey(file)));
+
+  const changes: FileChange[] = [];
+  current.forEach((file) => {
+    const previous = baseFiles.get(getFileKey(file));
+    if (!previous) {
+      changes.push({
+        kind: file.kind,
+        index: file.index,
+        title: file.title,
+        status: FileStatus.Added,
+        oldCode: '',
+        newCode: file.code,
+        lines: diffLines('', file.code),
+      });
+    } else if (previous.code !== file.code || previous.title !== file.title) {
+      changes.push({
+        kind: file.kind,
+        index: file.index,
+        title: file.title,
+        status: FileStatus.Modified,
+        oldCode: previous.code,
+        newCode: file.code,
+        lines: diffLines(previous.code, file.code),
+      });
+    }
+  });
+
+  base
+    .filter((file) => !currentKeys.has(getFileKey(file)))
+    .forEach((file) => {
+      changes.push({
+        kind: file.kind,
+        index: file.index,
+        title: file.title,
+        status: FileStatus.Removed,
+        oldCode: file.code,
+        newCode: '',
+        lines: diffLines(file.code, ''),
+      });
+    });
+
+  return changes;
+};
@@ -0,0 +1,179 @@
+import JSZip from 'jszip';
+import { getAccountIndex } from './accounts';
+import { findImports } from './cadence-symbols';
+import { getContractName } from './parse-contract-name';
+
+export type SourceFile = {
+  path: string;
+  code: string;
+};
+
+export type ImportedTemplate = {
+  title: string;
+  code: string;
+  // Path of the source in the imported files
+  path?: string;
+};
+
+export type ImportedProject = {
+  accounts: string[];
+  transactionTemplates: ImportedTemplate[];
+  scriptTemplates: ImportedTemplate[];
+  // Files which could not be placed into the project
+  skipped: string[];
+  // Content of the settings file of an exported project
+  settings?: string;
+};
+
+type SourceType = 'contract' | 'transaction' | 'script';
+
+const isCadenceFile = (path: string) => /\.cdc$/i.test(path);
+
+export const getFileName = (path: string): string => path.split('/').pop();
+
+// Settings of the playground exported next to the sources,
+// which have no place in them or in the Flow CLI configuration
+export const SETTINGS_FILE = 'playground.json';
+
+export const isSettingsFile = (file: SourceFile) =>
+  getFileName(file.path) === SETTINGS_FILE;
+
+// Cadence sources, the Flow CLI configuration and the playground settings
+const isProjectFile = (path: string) =>
+  isCadenceFile(path) ||
+  getFileName(path) === 'flow.json' ||
+  getFileName(path) === SETTINGS_FILE;
+
+export const getFileTitle = (path: string): string =>
+  getFileName(path).replace(/\.cdc$/i, '');
+
+// Folders used by `createZip` take precedence, otherwise the type
+// is guessed from the declarations in the file
+export const getSourceType = (
+  path: string,
+  code: string,
+): SourceType | null => {
+  const folders = path.toLowerCase().split('/').slice(0, -1);
+  if (folders.includes('contracts')) return 'contract';
+  if (folders.includes('transactions')) return 'transaction';
+  if (folders.includes('scripts')) return 'script';
+
+  if (/\bcontract\s+(interface\s+)?\w+\s*(:[^{]*)?{/.test(code)) {
+    return 'contract';
+  }
+  if (/\btransaction\s*(\(|{)/.test(code)) return 'transaction';
+  if (/\bfun\s+main\s*\(/.test(code)) return 'script';
+  return null;
+};
+
+export const buildProject = (
+  files: SourceFile[],
+  accountsAmount: number,
+): ImportedProject => {
+  const contracts: SourceFile[] = [];
+  const transactionTemplates: ImportedTemplate[] = [];
+  const scriptTemplates: ImportedTemplate[] = [];
+  const skipped: string[] = [];
+
+  const sorted = files
+    .filter((file) => isCadenceFile(file.path))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  sorted.forEach((file) => {
+    const title = getFileTitle(file.path);
+    switch (getSourceType(file.path, file.code)) {
+      case 'contract':
+        // Accounts without a contract are exported as empty files
+        if (file.code.trim() !== '') {
+          contracts.push(file);
+        }
+        break;
+      case 'transaction':
+        transactionTemplates.push({ title, code: file.code, path: file.path });
+        break;
+      case 'script':
+        scriptTemplates.push({ title, code: file.code, path: file.path });
+        break;
+      default:
+        skipped.push(file.path);
+    }
+  });
+
+  // Imports tell which account each contract was deployed to
+  const contractAccounts: { [name: string]: number } = {};
+  sorted.forEach((file) => {
+    findImports(file.code).forEach(({ names, address }) => {
+      const index = getAccountIndex(address);
+      if (index === null || index >= accountsAmount) {
+        return;
+      }
+      names.forEach((name) => {
+        if (contractAccounts[name] === undefined) {
+          contractAccounts[name] = index;
+        }
+      });
+    });
+  });
+
+  const accounts: string[] = new Array(accountsAmount).fill(null);
+  const unplaced: SourceFile[] = [];
+  contracts.forEach((contract) => {
+    const index = contractAccounts[getContractName(contract.code)];
+    if (index !== undefined && accounts[index] === null) {
+      accounts[index] = contract.code;
+    } else {
+      unplaced.push(contract);
+    }
+  });
+
+  unplaced.forEach((contract) => {
+    const index = accounts.indexOf(null);
+    if (index === -1) {
+      skipped.push(contract.path);
+    } else {
+      accounts[index] = contract.code;
+    }
+  });
+
+  return {
+    accounts: accounts.map((code) => code || ''),
+    transactionTemplates,
+    scriptTemplates,
+    skipped,
+  };
+};
+
+export const readZip = async (file: Blob): Promise<SourceFile[]> => {
+  const zip = await JSZip.loadAsync(file);
+  const entries = Object.values(zip.files).filter(
+    (entry) => !entry.dir && isProjectFile(entry.name),
+  );
+
+  return Promise.all(
+    entries.map(async (entry) => ({
+      path: entry.name,
+      code: await entry.async('string'),
+    })),
+  );
+};
+
+// Files selected with a directory input know their path in the folder
+type DirectoryFile = File & { webkitRelativePath: string };
+
+const isDirectoryFile = (file: File): file is DirectoryFile =>
+  'webkitRelativePath' in file;
+
+// Reads files selected with a directory input, keeping their relative paths
+export const readFiles = async (files: File[]): Promise<SourceFile[]> => {
+  return Promise.all(
+    files
+      .filter((file) => isProjectFile(file.name))
+      .map(async (file) => ({
+        path:
+          isDirectoryFile(file) && file.webkitRelativePath
+            ? file.webkitRelativePath
+            : file.name,
+        code: await file.text(),
+      })),
+  );
+};
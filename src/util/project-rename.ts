@@ -0,0 +1,61 @@
+import { ProjectFile } from './project-files';
+
+// Identifiers don't span lines, so ranges are single line.
+// Positions are 1-based, same as in Monaco
+export type RenameRange = {
+  lineNumber: number;
+  startColumn: number;
+  endColumn: number;
+};
+
+export type FileRename = {
+  file: ProjectFile;
+  ranges: RenameRange[];
+};
+
+export type SymbolRename = {
+  name: string;
+  renames: FileRename[];
+};
+
+const isSameRange = (a: RenameRange, b: RenameRange) =>
+  a.lineNumber === b.lineNumber && a.startColumn === b.startColumn;
+
+export const renameInCode = (
+  code: string,
+  ranges: RenameRange[],
+  newName: string,
+): string => {
+  const parts = code.split(/(\r\n|\n|\r)/);
+  const unique = ranges.filter(
+    (range, index) =>
+      ranges.findIndex((other) => isSameRange(range, other)) === index,
+  );
+
+  // Replacing from the end keeps the columns of earlier ranges valid
+  unique
+    .sort(
+      (a, b) => b.lineNumber - a.lineNumber || b.startColumn - a.startColumn,
+    )
+    .forEach(({ lineNumber, startColumn, endColumn }) => {
+      // Odd parts are line breaks kept by the split
+      const index = (lineNumber - 1) * 2;
+      const line = parts[index];
+      if (line === undefined) {
+        return;
+      }
+      parts[index] =
+        line.slice(0, startColumn - 1) + newName + line.slice(endColumn - 1);
+    });
+
+  return parts.join('');
+};
+
+export const renameInFiles = (
+  renames: FileRename[],
+  newName: string,
+): ProjectFile[] =>
+  renames.map(({ file, ranges }) => ({
+    ...file,
+    code: renameInCode(file.code, ranges, newName),
+  }));
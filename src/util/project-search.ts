@@ -0,0 +1,88 @@
+import { ProjectFile } from './project-files';
+
+export type SearchOptions = {
+  query: string;
+  isRegex: boolean;
+  isCaseSensitive: boolean;
+};
+
+// Positions are 1-based, same as in Monaco
+export type SearchMatch = {
+  lineNumber: number;
+  startColumn: number;
+  endColumn: number;
+  lineText: string;
+};
+
+export type FileMatches = {
+  file: ProjectFile;
+  matches: SearchMatch[];
+};
+
+export const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Throws a SyntaxError when the query is not a valid regular expression
+export const createSearchPattern = (options: SearchOptions): RegExp | null => {
+  if (!options.query) {
+    return null;
+  }
+  const source = options.isRegex ? options.query : escapeRegExp(options.query);
+  const flags = options.isCaseSensitive ? 'g' : 'gi';
+  return new RegExp(source, flags);
+};
+
+export const findMatches = (code: string, pattern: RegExp): SearchMatch[] => {
+  const matches: SearchMatch[] = [];
+  const lines = code.split(/\r\n|\n|\r/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineText = lines[i];
+    pattern.lastIndex = 0;
+    let match = pattern.exec(lineText);
+    while (match) {
+      // Empty matches would never advance the search
+      if (match[0].length === 0) {
+        pattern.lastIndex += 1;
+      } else {
+        matches.push({
+          lineNumber: i + 1,
+          startColumn: match.index + 1,
+          endColumn: match.index + match[0].length + 1,
+          lineText,
+        });
+      }
+      match = pattern.exec(lineText);
+    }
+  }
+
+  return matches;
+};
+
+export const searchProjectFiles = (
+  files: ProjectFile[],
+  pattern: RegExp,
+): FileMatches[] =>
+  files
+    .map((file) => ({ file, matches: findMatches(file.code, pattern) }))
+    .filter((result) => result.matches.length > 0);
+
+// Replaces matches line by line, so that results are the same as found
+// by `findMatches`. Replacement supports `$1` style references for regexes.
+export const replaceMatches = (
+  code: string,
+  pattern: RegExp,
+  replacement: string,
+  isRegex: boolean,
+): string =>
+  code
+    .split(/(\r\n|\n|\r)/)
+    .map((part, index) =>
+      // Odd parts are line breaks kept by the split
+      index % 2 === 1
+        ? part
+        : isRegex
+        ? part.replace(pattern, replacement)
+        : part.replace(pattern, () => replacement),
+    )
+    .join('');
@@ -0,0 +1,44 @@
+const fieldsOf = (...names) => ({ fields: names.map((name) => ({ name })) });
+
+// The schema is read once per module, so every test gets a fresh one
+const loadFeatures = () => {
+  let features;
+  jest.isolateModules(() => {
+    features = require('../../../src/api/apollo/features');
+  });
+  return features;
+};
+
+describe('API Features', () => {
+  test('checks the fields of the schema once', async () => {
+    const { isApiFeatureSupported } = loadFeatures();
+    const client = {
+      query: jest.fn().mockResolvedValue({
+        data: {
+          query: fieldsOf('project', 'projectSnapshots'),
+          mutation: fieldsOf(
+            'createProject',
+            'createProjectSnapshot',
+            'deleteProjectSnapshot',
+          ),
+        },
+      }),
+    };
+
+    expect(await isApiFeatureSupported(client, 'snapshots')).toBe(true);
+    expect(await isApiFeatureSupported(client, 'accounts')).toBe(false);
+    expect(client.query).toHaveBeenCalledTimes(1);
+  });
+
+  test('treats features as unsupported when the schema is unknown', async () => {
+    const { isApiFeatureSupported } = loadFeatures();
+    const client = {
+      query: jest.fn().mockRejectedValue(new Error('Introspection disabled')),
+    };
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await isApiFeatureSupported(client, 'snapshots')).toBe(false);
+    expect(await isApiFeatureSupported(client, 'accounts')).toBe(false);
+    expect(client.query).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  moveArgumentPresets,
+  readArgumentPresets,
+  savePreset,
+  writeArgumentPresets,
+} from '../../../src/providers/Project/argumentPresets';
+
+describe('Argument Presets', () => {
+  const happyPath = {
+    name: 'happy path',
+    values: { 'a: Int': '1' },
+    signers: [0],
+  };
+  const edgeCase = {
+    name: 'edge case',
+    values: { 'a: Int': '-1' },
+    signers: [],
+  };
+
+  beforeEach(() => window.localStorage.clear());
+
+  test('replaces presets with the same name', () => {
+    const presets = savePreset(savePreset([], happyPath), edgeCase);
+    expect(presets.map((preset) => preset.name)).toEqual([
+      'happy path',
+      'edge case',
+    ]);
+
+    const updated = { ...happyPath, signers: [1] };
+    expect(savePreset(presets, updated)).toEqual([updated, edgeCase]);
+  });
+
+  test('moves presets to the ids of saved templates', () => {
+    writeArgumentPresets('draft:1', {
+      'LOCAL-tx-temp-0': [happyPath],
+      'LOCAL-script-temp-0': [edgeCase],
+      'LOCAL-tx-temp-1': [edgeCase],
+    });
+
+    moveArgumentPresets('draft:1', 'project', {
+      'LOCAL-tx-temp-0': 'tx-id',
+      'LOCAL-script-temp-0': 'script-id',
+    });
+
+    expect(readArgumentPresets('project')).toEqual({
+      'tx-id': [happyPath],
+      'script-id': [edgeCase],
+    });
+    expect(readArgumentPresets('draft:1')).toEqual({});
+  });
+});
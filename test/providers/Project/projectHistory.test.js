@@ -0,0 +1,100 @@
+import ProjectHistory from '../../../src/providers/Project/projectHistory';
+
+describe('Project History', () => {
+  const createCounterOperation = (state) => ({
+    label: 'Increment',
+    undo: async () => {
+      state.value -= 1;
+    },
+    redo: async () => {
+      state.value += 1;
+    },
+  });
+
+  test('undo and redo recorded operation', async () => {
+    const history = new ProjectHistory();
+    const state = { value: 1 };
+    history.record(createCounterOperation(state));
+
+    expect(history.canUndo).toBe(true);
+    expect(history.canRedo).toBe(false);
+    expect(history.undoLabel).toBe('Increment');
+
+    await history.undo();
+    expect(state.value).toBe(0);
+    expect(history.canUndo).toBe(false);
+    expect(history.canRedo).toBe(true);
+
+    await history.redo();
+    expect(state.value).toBe(1);
+    expect(history.canUndo).toBe(true);
+  });
+
+  test('new operation clears redo stack', async () => {
+    const history = new ProjectHistory();
+    const state = { value: 1 };
+    history.record(createCounterOperation(state));
+    await history.undo();
+
+    history.record(createCounterOperation(state));
+    expect(history.canRedo).toBe(false);
+  });
+
+  test('operations recorded while replaying are ignored', async () => {
+    const history = new ProjectHistory();
+    const state = { value: 1 };
+    history.record({
+      label: 'Nested',
+      undo: async () => {
+        history.record(createCounterOperation(state));
+      },
+      redo: async () => {},
+    });
+
+    await history.undo();
+    expect(history.canUndo).toBe(false);
+    expect(history.canRedo).toBe(true);
+  });
+
+  test('failed undo keeps operation in history', async () => {
+    const history = new ProjectHistory();
+    history.record({
+      label: 'Broken',
+      undo: async () => {
+        throw new Error('Failed');
+      },
+      redo: async () => {},
+    });
+
+    await expect(history.undo()).rejects.toThrow('Failed');
+    expect(history.canUndo).toBe(true);
+    expect(history.canRedo).toBe(false);
+  });
+
+  test('follows ids of templates created again', () => {
+    const history = new ProjectHistory();
+    history.replaceId('a', 'b');
+    history.replaceId('b', 'c');
+
+    expect(history.getCurrentId('a')).toBe('c');
+    expect(history.getCurrentId('d')).toBe('d');
+
+    history.clear();
+    expect(history.getCurrentId('a')).toBe('a');
+  });
+
+  test('drops operations of other projects', () => {
+    const history = new ProjectHistory();
+    history.setProject('local');
+    history.record(createCounterOperation({ value: 0 }));
+
+    // Saving the local project keeps its operations
+    history.moveProject('saved', { 'local-template': 'saved-template' });
+    history.setProject('saved');
+    expect(history.canUndo).toBe(true);
+    expect(history.getCurrentId('local-template')).toBe('saved-template');
+
+    history.setProject('other');
+    expect(history.canUndo).toBe(false);
+  });
+});
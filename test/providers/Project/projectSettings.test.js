@@ -0,0 +1,114 @@
+import {
+  exportSettings,
+  getImportedPresets,
+  getImportedProfiles,
+} from '../../../src/providers/Project/projectSettings';
+
+describe('Project Settings', () => {
+  const happyPath = {
+    name: 'happy path',
+    values: { 'a: Int': '1' },
+    signers: [0],
+  };
+  const edgeCase = {
+    name: 'edge case',
+    values: { 'b: String': 'hello' },
+    signers: [],
+  };
+  const profiles = {
+    '0x01': { alias: 'Alice', color: '#E5484D' },
+    '0x02': { alias: 'Bob' },
+  };
+
+  const project = {
+    transactionTemplates: [
+      { id: 'tx-1', title: 'Transfer' },
+      { id: 'tx-2', title: 'Mint' },
+    ],
+    scriptTemplates: [{ id: 'script-1', title: 'Balance' }],
+  };
+  const imported = (settings, prefix = '') => ({
+    accounts: [],
+    transactionTemplates: [
+      { title: 'Mint', code: '', path: `${prefix}transactions/Mint.cdc` },
+      {
+        title: 'Transfer',
+        code: '',
+        path: `${prefix}transactions/Transfer.cdc`,
+      },
+    ],
+    scriptTemplates: [
+      { title: 'Balance', code: '', path: `${prefix}scripts/Balance.cdc` },
+    ],
+    skipped: [],
+    settings,
+  });
+  const importedProject = {
+    transactionTemplates: [
+      { id: 'new-tx-1', title: 'Mint' },
+      { id: 'new-tx-2', title: 'Transfer' },
+    ],
+    scriptTemplates: [{ id: 'new-script-1', title: 'Balance' }],
+  };
+
+  test('keys exported presets by the paths of the templates', () => {
+    const settings = exportSettings(
+      project,
+      {
+        'tx-1': [happyPath],
+        'tx-2': [],
+        'script-1': [edgeCase],
+      },
+      {},
+    );
+
+    expect(JSON.parse(settings)).toEqual({
+      argumentPresets: {
+        'transactions/Transfer.cdc': [happyPath],
+        'scripts/Balance.cdc': [edgeCase],
+      },
+      accountProfiles: {},
+    });
+  });
+
+  test('assigns imported presets to the new ids of the templates', () => {
+    const settings = exportSettings(
+      project,
+      {
+        'tx-1': [happyPath],
+        'script-1': [edgeCase],
+      },
+      {},
+    );
+
+    const expected = {
+      'new-tx-2': [happyPath],
+      'new-script-1': [edgeCase],
+    };
+    expect(getImportedPresets(imported(settings), importedProject)).toEqual(
+      expected,
+    );
+    expect(
+      getImportedPresets(imported(settings, 'my-project/'), importedProject),
+    ).toEqual(expected);
+  });
+
+  test('imports profiles of the exported accounts', () => {
+    const settings = exportSettings(project, {}, profiles);
+
+    expect(getImportedProfiles(imported(settings))).toEqual(profiles);
+  });
+
+  test('imports no presets or profiles without valid settings', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(getImportedPresets(imported(undefined), importedProject)).toEqual(
+      {},
+    );
+    expect(getImportedPresets(imported('{ broken'), importedProject)).toEqual(
+      {},
+    );
+    expect(getImportedProfiles(imported('{ broken'))).toEqual({});
+    expect(console.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,32 @@
+// Compiles Handlebars templates for tests the way handlebars-loader does
+// for webpack, with the partials and helpers of the exported tests
+const path = require('path');
+
+const TEMPLATES_DIR = path.join(__dirname, '../../src/templates/js');
+
+module.exports = {
+  process(src) {
+    return `
+const fs = require('fs');
+const path = require('path');
+const Handlebars = require('handlebars');
+
+const templates = ${JSON.stringify(TEMPLATES_DIR)};
+const handlebars = Handlebars.create();
+fs.readdirSync(path.join(templates, 'partials')).forEach((file) => {
+  handlebars.registerPartial(
+    path.basename(file, '.hbs'),
+    fs.readFileSync(path.join(templates, 'partials', file), 'utf8'),
+  );
+});
+fs.readdirSync(path.join(templates, 'helpers')).forEach((file) => {
+  handlebars.registerHelper(
+    path.basename(file, '.js'),
+    require(path.join(templates, 'helpers', file)),
+  );
+});
+
+module.exports = handlebars.compile(${JSON.stringify(src)});
+`;
+  },
+};
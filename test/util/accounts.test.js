@@ -0,0 +1,100 @@
+import {
+  findAccountIndex,
+  getAccountAddresses,
+  getAccountLabel,
+  getAccountName,
+  getAccountNames,
+  getDeployedContracts,
+  getNameByAddress,
+  hasUndeployedChanges,
+  labelAddresses,
+} from '../../src/util/accounts';
+
+describe('Account Names', () => {
+  test('names first accounts after the address book', () => {
+    expect(getNameByAddress('0x01')).toBe('Alice');
+    expect(getNameByAddress('0x04')).toBe('Dave');
+    expect(getNameByAddress('0x05')).toBe('Eve');
+  });
+
+  test('generates names for accounts past the address book', () => {
+    expect(getAccountName(30)).toBe('Account31');
+  });
+
+  test('ignores addresses outside of the project', () => {
+    expect(getNameByAddress('0x0ae53cb6e3f42a79')).toBeUndefined();
+  });
+
+  test('lists short addresses', () => {
+    expect(getAccountAddresses(11).slice(-2)).toEqual(['0x0a', '0x0b']);
+  });
+
+  test('compares drafts to deployed code', () => {
+    const deployed = 'pub contract A {}';
+    expect(
+      hasUndeployedChanges({ draftCode: deployed, deployedCode: deployed }),
+    ).toBe(false);
+    expect(
+      hasUndeployedChanges({
+        draftCode: 'pub contract B {}',
+        deployedCode: deployed,
+      }),
+    ).toBe(true);
+    expect(
+      hasUndeployedChanges({ draftCode: deployed, deployedCode: '' }),
+    ).toBe(false);
+  });
+});
+
+describe('Account Aliases', () => {
+  const profiles = {
+    '0x01': { alias: 'Treasury', color: '#000000' },
+    '0x02': { alias: 'Big Buyer!' },
+    '0x03': { alias: 'Alice' },
+  };
+
+  test('labels accounts with aliases', () => {
+    expect(getAccountLabel(profiles, '0x0000000000000001')).toMatchObject({
+      address: '0x01',
+      title: 'Treasury',
+      color: '#000000',
+    });
+    expect(getAccountLabel(profiles, '0x04').title).toBe('0x04');
+  });
+
+  test('uses aliases as names in exported tests', () => {
+    expect(getAccountNames(5, profiles)).toEqual({
+      '0x01': 'Treasury',
+      '0x02': 'BigBuyer',
+      '0x03': 'Alice',
+      '0x04': 'Dave',
+      '0x05': 'Eve',
+    });
+  });
+
+  test('keeps names unique', () => {
+    expect(getAccountNames(2, { '0x02': { alias: 'Alice' } })).toEqual({
+      '0x01': 'Alice',
+      '0x02': 'Alice2',
+    });
+  });
+
+  test('adds aliases to addresses in logs', () => {
+    expect(labelAddresses('Deployed Contract To: 0x01', profiles)).toBe(
+      'Deployed Contract To: Treasury (0x01)',
+    );
+    expect(labelAddresses('Sent to 0x04', profiles)).toBe('Sent to 0x04');
+  });
+
+  test('finds project accounts by address', () => {
+    expect(findAccountIndex('0x02', 3)).toBe(1);
+    expect(findAccountIndex('0x0000000000000003', 3)).toBe(2);
+    expect(findAccountIndex('0x04', 3)).toBeNull();
+    expect(findAccountIndex('Alice', 3)).toBeNull();
+    expect(
+      getDeployedContracts({
+        deployedContracts: ['A.01.Token', 'A.01.Market'],
+      }),
+    ).toBe('Token, Market');
+  });
+});
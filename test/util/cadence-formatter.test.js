@@ -0,0 +1,135 @@
+import {
+  DEFAULT_FORMAT_OPTIONS,
+  formatCadence,
+} from '../../src/util/cadence-formatter';
+
+const options = (overrides) => ({ ...DEFAULT_FORMAT_OPTIONS, ...overrides });
+
+describe('Cadence Formatter', () => {
+  test('indents blocks and normalizes spaces', () => {
+    const code = [
+      'pub contract Hello{',
+      'pub let greeting:String',
+      '',
+      '',
+      '   init( ) {',
+      'self.greeting="Hello,  World!"',
+      '     let values=[1,2 ,3]',
+      '}',
+      '}',
+    ].join('\n');
+
+    expect(formatCadence(code, options({ indentSize: 2 }))).toBe(
+      [
+        'pub contract Hello {',
+        '  pub let greeting:String',
+        '',
+        '  init() {',
+        '    self.greeting = "Hello,  World!"',
+        '    let values = [1, 2, 3]',
+        '  }',
+        '}',
+      ].join('\n'),
+    );
+  });
+
+  test('keeps comments, restricted types and move operators', () => {
+    const code = [
+      'transaction {',
+      '// a   comment, with = signs',
+      'prepare(acct: AuthAccount) {',
+      'let r<-create R()',
+      'let c = acct.getCapability<&{Receiver}>(/public/r)',
+      'let nfts: @{UInt64: NFT} <- {}',
+      '/* block',
+      '* comment */',
+      '}',
+      '}',
+      '',
+    ].join('\n');
+
+    expect(formatCadence(code)).toBe(
+      [
+        'transaction {',
+        '    // a   comment, with = signs',
+        '    prepare(acct: AuthAccount) {',
+        '        let r <- create R()',
+        '        let c = acct.getCapability<&{Receiver}>(/public/r)',
+        '        let nfts: @{UInt64: NFT} <- {}',
+        '        /* block',
+        '         * comment */',
+        '    }',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('keeps braces of named restricted types attached', () => {
+    const code = [
+      'pub fun borrow(): &Vault{Receiver}{',
+      'let v = acct.borrow<&FungibleToken.Vault{FungibleToken.Receiver}>(from: /storage/v)',
+      'let c: Capability<&NFT.Collection{NFT.CollectionPublic}>? = nil',
+      'let r: @AnyResource{Receiver} <- create R()',
+      'if v.balance > 0.0{',
+      '}',
+      '}',
+    ].join('\n');
+
+    expect(formatCadence(code, options({ indentSize: 2 }))).toBe(
+      [
+        'pub fun borrow(): &Vault{Receiver} {',
+        '  let v = acct.borrow<&FungibleToken.Vault{FungibleToken.Receiver}>(from: /storage/v)',
+        '  let c: Capability<&NFT.Collection{NFT.CollectionPublic}>? = nil',
+        '  let r: @AnyResource{Receiver} <- create R()',
+        '  if v.balance > 0.0 {',
+        '  }',
+        '}',
+      ].join('\n'),
+    );
+  });
+
+  test('indents continuation lines', () => {
+    const code = [
+      'pub fun check(a: Int, b: Int): Bool {',
+      'let sum = a +',
+      'b // the second',
+      'let text = "a" ??',
+      '"b"',
+      'return sum > 0',
+      '&& b > 0',
+      '}',
+    ].join('\n');
+
+    expect(formatCadence(code, options({ indentSize: 2 }))).toBe(
+      [
+        'pub fun check(a: Int, b: Int): Bool {',
+        '  let sum = a +',
+        '    b // the second',
+        '  let text = "a" ??',
+        '    "b"',
+        '  return sum > 0',
+        '    && b > 0',
+        '}',
+      ].join('\n'),
+    );
+  });
+
+  test('places braces according to the brace style', () => {
+    const code =
+      'pub fun test()\n{\nif a == b {\nlog(a)\n} else {\nlog(b)\n}\n}';
+
+    expect(formatCadence(code, options({ insertSpaces: false }))).toBe(
+      'pub fun test() {\n\tif a == b {\n\t\tlog(a)\n\t} else {\n\t\tlog(b)\n\t}\n}',
+    );
+    expect(formatCadence(code, options({ braceStyle: 'nextLine' }))).toBe(
+      'pub fun test()\n{\n    if a == b\n    {\n        log(a)\n    } else {\n        log(b)\n    }\n}',
+    );
+  });
+
+  test('keeps operator spacing when disabled', () => {
+    expect(
+      formatCadence('let a=b', options({ spaceAroundOperators: false })),
+    ).toBe('let a=b');
+  });
+});
@@ -0,0 +1,117 @@
+import { findSymbolPath, parseOutline } from '../../src/util/cadence-outline';
+
+const summarize = (symbols) =>
+  symbols.map(({ name, kind, children }) =>
+    children.length > 0
+      ? { name, kind, children: summarize(children) }
+      : { name, kind },
+  );
+
+describe('Cadence Outline', () => {
+  const contract = [
+    'pub contract Market {',
+    '    // pub fun commented()',
+    '    pub event Sold(id: UInt64, price: UFix64)',
+    '    pub let prices: {UInt64: UFix64}',
+    '',
+    '    pub resource interface SalePublic {',
+    '        pub fun purchase(id: UInt64): @NFT',
+    '        pub fun getIDs(): [UInt64]',
+    '    }',
+    '',
+    '    pub resource SaleCollection: SalePublic {',
+    '        pub fun purchase(id: UInt64): @NFT {',
+    '            let token <- self.remove(id)',
+    '            return <- token',
+    '        }',
+    '',
+    '        pub fun getIDs(): [UInt64] { return [] }',
+    '',
+    '        init() {',
+    '            let message = "pub fun fake() {"',
+    '        }',
+    '    }',
+    '}',
+  ].join('\n');
+
+  test('parses declarations of contracts', () => {
+    expect(summarize(parseOutline(contract))).toEqual([
+      {
+        name: 'Market',
+        kind: 'contract',
+        children: [
+          { name: 'Sold', kind: 'event' },
+          { name: 'prices', kind: 'field' },
+          {
+            name: 'SalePublic',
+            kind: 'interface',
+            children: [
+              { name: 'purchase', kind: 'function' },
+              { name: 'getIDs', kind: 'function' },
+            ],
+          },
+          {
+            name: 'SaleCollection',
+            kind: 'resource',
+            children: [
+              { name: 'purchase', kind: 'function' },
+              { name: 'getIDs', kind: 'function' },
+              { name: 'init', kind: 'function' },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test('parses phases of transactions', () => {
+    const code = [
+      'import Market from 0x01',
+      '',
+      'transaction(id: UInt64) {',
+      '    let collection: &Market.SaleCollection{Market.SalePublic}',
+      '    prepare(acct: AuthAccount) {',
+      '        let x = 1',
+      '    }',
+      '    execute {}',
+      '}',
+    ].join('\n');
+
+    expect(summarize(parseOutline(code))).toEqual([
+      {
+        name: 'transaction',
+        kind: 'transaction',
+        children: [
+          { name: 'collection', kind: 'field' },
+          { name: 'prepare', kind: 'phase' },
+          { name: 'execute', kind: 'phase' },
+        ],
+      },
+    ]);
+  });
+
+  test('finds the symbols containing a position', () => {
+    const symbols = parseOutline(contract);
+    const [market] = symbols;
+    const collection = market.children[3];
+
+    expect(collection.range).toEqual({
+      startLineNumber: 11,
+      startColumn: 9,
+      endLineNumber: 22,
+      endColumn: 6,
+    });
+    expect(collection.selectionRange).toEqual({
+      startLineNumber: 11,
+      startColumn: 18,
+      endLineNumber: 11,
+      endColumn: 32,
+    });
+    expect(
+      findSymbolPath(symbols, { lineNumber: 13, column: 5 }).map(
+        (symbol) => symbol.name,
+      ),
+    ).toEqual(['Market', 'SaleCollection', 'purchase']);
+    expect(findSymbolPath(symbols, { lineNumber: 24, column: 1 })).toEqual([]);
+  });
+});
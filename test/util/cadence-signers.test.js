@@ -0,0 +1,106 @@
+import { findSigners } from '../../src/util/cadence-signers';
+
+describe('Cadence Signers', () => {
+  test('finds parameters of prepare spanning lines', () => {
+    const transaction = [
+      'import Token from 0x01',
+      '',
+      '// prepare(commented: AuthAccount)',
+      'transaction(amount: UFix64) {',
+      '  prepare(',
+      '    sender: AuthAccount, // pays the fees',
+      '    /* receives */ receiver: AuthAccount',
+      '  ) {',
+      '    log("prepare(a, b, c)")',
+      '  }',
+      '}',
+    ].join('\n');
+
+    expect(findSigners(transaction)).toEqual([
+      { name: 'sender', type: 'AuthAccount' },
+      { name: 'receiver', type: 'AuthAccount' },
+    ]);
+  });
+
+  test('finds no signers without parameters', () => {
+    expect(findSigners('transaction {\n  prepare() {}\n}')).toEqual([]);
+    expect(findSigners('pub fun main(): Int {\n  return 1\n}')).toEqual([]);
+  });
+
+  test('uses the outline reported by the server', () => {
+    const transaction = 'transaction { prepare(acct: AuthAccount) {} }';
+    const range = {
+      startLineNumber: 1,
+      startColumn: 15,
+      endLineNumber: 1,
+      endColumn: 22,
+    };
+    const outline = [
+      {
+        name: 'transaction',
+        kind: 'transaction',
+        range,
+        selectionRange: range,
+        children: [
+          {
+            name: 'prepare',
+            kind: 'phase',
+            range,
+            selectionRange: range,
+            children: [],
+          },
+        ],
+      },
+    ];
+    expect(findSigners(transaction, outline)).toEqual([
+      { name: 'acct', type: 'AuthAccount' },
+    ]);
+  });
+
+  test('takes parameters from the signature reported by the server', () => {
+    // The code changed since the server parsed it
+    const transaction = 'transaction { prepare(acct: AuthAccount) {} }';
+    const range = {
+      startLineNumber: 1,
+      startColumn: 15,
+      endLineNumber: 1,
+      endColumn: 22,
+    };
+    const outline = [
+      {
+        name: 'transaction',
+        kind: 'transaction',
+        range,
+        selectionRange: range,
+        children: [
+          {
+            name: 'prepare',
+            kind: 'phase',
+            range,
+            selectionRange: range,
+            detail: 'prepare(sender: AuthAccount, receiver: AuthAccount)',
+            children: [],
+          },
+        ],
+      },
+    ];
+    expect(findSigners(transaction, outline)).toEqual([
+      { name: 'sender', type: 'AuthAccount' },
+      { name: 'receiver', type: 'AuthAccount' },
+    ]);
+  });
+
+  test('ignores functions named prepare outside of the transaction', () => {
+    const transaction = [
+      'pub fun prepare(x: Int) {}',
+      '',
+      'transaction {',
+      '  prepare(acct: AuthAccount) {}',
+      '}',
+    ].join('\n');
+    expect(findSigners(transaction)).toEqual([
+      { name: 'acct', type: 'AuthAccount' },
+    ]);
+    expect(findSigners('pub fun prepare(x: Int) {}')).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  findDeclaration,
+  findImports,
+  findReferences,
+  getImportAddress,
+} from '../../src/util/cadence-symbols';
+import { getContractName } from '../../src/util/parse-contract-name';
+
+const contract = `pub contract Token {
+  pub var totalSupply: UFix64
+
+  pub fun mint(amount: UFix64) {
+    self.totalSupply = self.totalSupply + amount
+  }
+}`;
+
+const transaction = `import Token, Other from 0x01
+import Market from 0x02
+
+transaction {
+  execute {
+    Token.mint(amount: 10.0)
+    Token . mint(amount: 5.0)
+  }
+}`;
+
+describe('Cadence Symbols', () => {
+  test('finds imports with their addresses', () => {
+    expect(findImports(transaction)).toEqual([
+      { names: ['Token', 'Other'], address: '01' },
+      { names: ['Market'], address: '02' },
+    ]);
+    expect(getImportAddress(transaction, 'Market')).toBe('02');
+    expect(getImportAddress(transaction, 'Missing')).toBeUndefined();
+  });
+
+  test('finds the contract name', () => {
+    expect(getContractName(contract)).toBe('Token');
+    expect(getContractName('pub contract interface Fungible {}')).toBe(
+      'Fungible',
+    );
+    expect(getContractName(transaction)).toBeUndefined();
+    expect(
+      getContractName('// The Token contract is\npub contract Token: A {}'),
+    ).toBe('Token');
+  });
+
+  test('finds the range of declarations', () => {
+    expect(findDeclaration(contract, 'mint')).toMatchObject({
+      lineNumber: 4,
+      startColumn: 11,
+      endColumn: 15,
+    });
+    expect(findDeclaration(contract, 'totalSupply')).toMatchObject({
+      lineNumber: 2,
+      startColumn: 11,
+    });
+    expect(findDeclaration(contract, 'amount')).toBeNull();
+  });
+
+  test('finds qualified references', () => {
+    const references = findReferences(transaction, 'mint', 'Token');
+    expect(references.map((match) => match.lineNumber)).toEqual([6, 7]);
+    expect(references[1]).toMatchObject({ startColumn: 13, endColumn: 17 });
+    expect(findReferences(transaction, 'Token')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,254 @@
+import {
+  getDefaultValue,
+  isParsedByServer,
+  parseCadenceType,
+  resolveCompositeTypes,
+  toCadenceLiteral,
+  toJsonCadence,
+  validateValue,
+} from '../../src/util/cadence-values';
+
+const market = `import Token from 0x01
+
+pub contract Market {
+  pub struct Listing {
+    pub let seller: Address
+    // pub let commented: String
+    pub var prices: {String: UFix64}
+    pub let item: Item?
+
+    init(seller: Address) {
+      self.seller = seller
+      let unused = 1
+    }
+  }
+
+  pub struct Item {
+    pub let id: UInt64
+    pub let kind: Token.Kind
+  }
+}`;
+
+const token = `pub contract Token {
+  pub struct Kind {
+    pub let name: String
+  }
+}`;
+
+const transaction = `import Market from 0x02
+
+transaction(listing: Market.Listing) {}`;
+
+const getAddressCode = (address) =>
+  ({ 1: token, 2: market }[parseInt(address, 16).toString()]);
+
+describe('Cadence Values', () => {
+  test('parses nested types', () => {
+    expect(parseCadenceType('{String: [UInt8; 2]}?')).toEqual({
+      kind: 'optional',
+      type: {
+        kind: 'dictionary',
+        key: { kind: 'simple', name: 'String' },
+        value: {
+          kind: 'array',
+          type: { kind: 'simple', name: 'UInt8' },
+          size: 2,
+        },
+      },
+    });
+    expect(parseCadenceType('Market.Listing').kind).toBe('composite');
+    expect(parseCadenceType('AnyStruct').kind).toBe('raw');
+    expect(parseCadenceType('&{Token.Receiver}').kind).toBe('raw');
+  });
+
+  test('encodes values as JSON-Cadence', () => {
+    const type = parseCadenceType('{String: [UFix64]}');
+    const value = [{ key: 'a', value: ['1', '2.5'] }];
+    expect(toJsonCadence(type, value)).toEqual({
+      type: 'Dictionary',
+      value: [
+        {
+          key: { type: 'String', value: 'a' },
+          value: {
+            type: 'Array',
+            value: [
+              { type: 'UFix64', value: '1.0' },
+              { type: 'UFix64', value: '2.5' },
+            ],
+          },
+        },
+      ],
+    });
+    expect(toJsonCadence(parseCadenceType('Bool?'), null)).toEqual({
+      type: 'Optional',
+      value: null,
+    });
+    expect(
+      toJsonCadence(parseCadenceType('StoragePath'), '/storage/vault'),
+    ).toEqual({
+      type: 'Path',
+      value: { domain: 'storage', identifier: 'vault' },
+    });
+  });
+
+  test('writes values as Cadence code', () => {
+    const type = parseCadenceType('{String: Address?}');
+    const value = [
+      { key: 'a', value: '0x01' },
+      { key: 'b', value: null },
+    ];
+    expect(toCadenceLiteral(type, value)).toBe('{"a": 0x01, "b": nil}');
+  });
+
+  test('reports the location of invalid values', () => {
+    const type = parseCadenceType('[{String: Int}]');
+    expect(validateValue(type, [[], [{ key: 'a', value: 'x' }]])).toBe(
+      '[1]{0}: Should be an integer',
+    );
+    expect(
+      validateValue(type, [
+        [
+          { key: 'a', value: '1' },
+          { key: 'a', value: '2' },
+        ],
+      ]),
+    ).toBe('[0]{1}: Keys must be unique');
+    expect(validateValue(parseCadenceType('String?'), null)).toBeNull();
+  });
+
+  test('checks the range and precision of numbers', () => {
+    const validate = (type, value) =>
+      validateValue(parseCadenceType(type), value);
+    expect(validate('UInt8', '255')).toBeNull();
+    expect(validate('UInt8', '300')).toBe(
+      'Should be an integer between 0 and 255',
+    );
+    expect(validate('Int8', '-129')).toBe(
+      'Should be an integer between -128 and 127',
+    );
+    expect(validate('UInt', '-1')).toBe('Should be an integer of at least 0');
+    expect(validate('Int', '-123456789012345678901234567890')).toBeNull();
+    expect(validate('Word16', '1.5')).toBe(
+      'Should be an integer between 0 and 65535',
+    );
+    expect(
+      validate(
+        'UInt256',
+        '115792089237316195423570985008687907853269984665640564039457584007913129639935',
+      ),
+    ).toBeNull();
+    expect(
+      validate('Int128', '170141183460469231731687303715884105728'),
+    ).toMatch(/^Should be an integer between -1701/);
+
+    expect(validate('UFix64', '184467440737.09551615')).toBeNull();
+    expect(validate('UFix64', '184467440737.09551616')).toBe(
+      'Should be a number between 0.0 and 184467440737.09551615',
+    );
+    expect(validate('UFix64', '1.123456789')).toBe(
+      'Should have at most 8 decimal places',
+    );
+    expect(validate('Fix64', '-92233720368.54775808')).toBeNull();
+    expect(validate('Fix64', 'abc')).toBe(
+      'Should be a number between -92233720368.54775808 and 92233720368.54775807',
+    );
+  });
+
+  test('parses nested code values on the server', () => {
+    const isParsed = (type) => isParsedByServer(parseCadenceType(type), {});
+    expect(isParsed('Market.Listing?')).toBe(true);
+    expect(isParsed('AnyStruct?')).toBe(true);
+    expect(isParsed('{String: [AnyStruct]}')).toBe(true);
+    expect(isParsed('{String: [UInt8]}?')).toBe(false);
+
+    const type = parseCadenceType('[AnyStruct?]');
+    expect(validateValue(type, ['1', ' '])).toBe("[1]: Value can't be empty");
+    expect(toCadenceLiteral(type, ['"a"', null])).toBe('["a", nil]');
+  });
+
+  test('resolves structs from the code of accounts', () => {
+    const composites = resolveCompositeTypes(
+      transaction,
+      ['Market.Listing'],
+      getAddressCode,
+    );
+    const item = 'A.0000000000000002.Market.Item';
+    expect(composites['Market.Listing']).toEqual({
+      id: 'A.0000000000000002.Market.Listing',
+      fields: [
+        { name: 'seller', type: 'Address' },
+        { name: 'prices', type: '{String: UFix64}' },
+        { name: 'item', type: `${item}?` },
+      ],
+    });
+    expect(composites[item].fields[1].type).toBe(
+      'A.0000000000000001.Token.Kind',
+    );
+    expect(Object.keys(composites)).toHaveLength(3);
+
+    const type = parseCadenceType('Market.Listing');
+    const value = getDefaultValue(type, composites);
+    expect(value).toEqual({ seller: '', prices: [], item: null });
+    expect(validateValue(type, value, composites)).toBe(
+      "seller: Value can't be empty",
+    );
+    expect(
+      toJsonCadence(type, { ...value, seller: '0x01' }, composites).value,
+    ).toEqual({
+      id: 'A.0000000000000002.Market.Listing',
+      fields: [
+        { name: 'seller', value: { type: 'Address', value: '0x01' } },
+        { name: 'prices', value: { type: 'Dictionary', value: [] } },
+        { name: 'item', value: { type: 'Optional', value: null } },
+      ],
+    });
+  });
+
+  test('takes fields of structs from the symbols reported by the server', () => {
+    const range = {
+      startLineNumber: 1,
+      startColumn: 1,
+      endLineNumber: 1,
+      endColumn: 1,
+    };
+    const symbol = (name, kind, detail, children = []) => ({
+      name,
+      kind,
+      range,
+      selectionRange: range,
+      detail,
+      children,
+    });
+    // The server knows of fields which are not in the code yet
+    const marketOutline = [
+      symbol('Market', 'contract', 'contract Market', [
+        symbol('Listing', 'struct', 'struct Listing', [
+          symbol('seller', 'field', 'pub let seller: Address'),
+          symbol('price', 'field', 'pub var price: UFix64'),
+          symbol('item', 'field', 'A.0000000000000002.Market.Item'),
+        ]),
+        // Fields without types are read from the code
+        symbol('Item', 'struct', 'struct Item', [symbol('id', 'field')]),
+      ]),
+    ];
+    const getAddressOutline = (address) =>
+      parseInt(address, 16) === 2 ? marketOutline : [];
+
+    const composites = resolveCompositeTypes(
+      transaction,
+      ['Market.Listing'],
+      getAddressCode,
+      getAddressOutline,
+    );
+    const item = 'A.0000000000000002.Market.Item';
+    expect(composites['Market.Listing'].fields).toEqual([
+      { name: 'seller', type: 'Address' },
+      { name: 'price', type: 'UFix64' },
+      { name: 'item', type: item },
+    ]);
+    expect(composites[item].fields).toEqual([
+      { name: 'id', type: 'UInt64' },
+      { name: 'kind', type: 'A.0000000000000001.Token.Kind' },
+    ]);
+  });
+});
@@ -0,0 +1,20 @@
+import { countChanges, diffLines, DiffType } from '../../src/util/diff';
+
+describe('Line Diff', () => {
+  test('keeps unchanged lines', () => {
+    const lines = diffLines('a\nb', 'a\nb');
+    expect(lines.every((line) => line.type === DiffType.Equal)).toBe(true);
+    expect(countChanges(lines)).toEqual({ added: 0, removed: 0 });
+  });
+
+  test('detects added and removed lines', () => {
+    const lines = diffLines('a\nb\nc', 'a\nc\nd');
+    expect(lines.map((line) => [line.type, line.value])).toEqual([
+      [DiffType.Equal, 'a'],
+      [DiffType.Removed, 'b'],
+      [DiffType.Equal, 'c'],
+      [DiffType.Added, 'd'],
+    ]);
+    expect(countChanges(lines)).toEqual({ added: 1, removed: 1 });
+  });
+});
@@ -0,0 +1,25 @@
+import { getEditorSync } from '../../src/util/editor-sync';
+
+describe('Editor Sync', () => {
+  test('applies code changed elsewhere without pending edits', () => {
+    expect(getEditorSync('a', [], 'b')).toEqual({ action: 'apply' });
+    expect(getEditorSync('a', [], 'a')).toEqual({
+      action: 'keep',
+      pending: [],
+    });
+  });
+
+  test('keeps edits sent after an echo', () => {
+    expect(getEditorSync('abc', ['a', 'ab', 'abc'], 'ab')).toEqual({
+      action: 'keep',
+      pending: ['abc'],
+    });
+  });
+
+  test('raises a conflict for code changed during pending edits', () => {
+    expect(getEditorSync('abc', ['ab', 'abc'], 'theirs')).toEqual({
+      action: 'conflict',
+      mine: 'abc',
+    });
+  });
+});
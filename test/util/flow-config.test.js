@@ -0,0 +1,66 @@
+import {
+  generateFlowConfig,
+  getEmulatorAccountsAmount,
+  getExportedContracts,
+  getRelativePath,
+  rewriteImportsToFiles,
+} from '../../src/util/flow-config';
+
+const project = {
+  accounts: [
+    { address: '0000000000000000000000000000000000000001', draftCode: '' },
+    {
+      address: '0000000000000000000000000000000000000002',
+      draftCode: 'pub contract Token {}',
+    },
+    {
+      address: '0000000000000000000000000000000000000003',
+      draftCode: `import Token from 0x02
+
+pub contract Market {}`,
+    },
+  ],
+};
+
+describe('Flow Config', () => {
+  test('finds paths relative to a directory', () => {
+    expect(
+      getRelativePath('cadence/transactions', 'cadence/contracts/A.cdc'),
+    ).toBe('../contracts/A.cdc');
+    expect(
+      getRelativePath('cadence/contracts', 'cadence/contracts/A.cdc'),
+    ).toBe('./A.cdc');
+  });
+
+  test('imports exported contracts from their files', () => {
+    const contracts = getExportedContracts(project, 'cadence/contracts');
+    const code = `import Token from 0x02
+import Market from 0x03
+import Other from 0x01
+import Crypto`;
+    expect(rewriteImportsToFiles(code, 'cadence/transactions', contracts)).toBe(
+      `import Token from "../contracts/Token.cdc"
+import Market from "../contracts/Market.cdc"
+import Other from 0x01
+import Crypto`,
+    );
+    // Accounts before the last contract are created too, to get its address
+    expect(getEmulatorAccountsAmount(contracts)).toBe(3);
+  });
+
+  test('deploys contracts to emulator accounts', () => {
+    const config = JSON.parse(generateFlowConfig(project, 'cadence/contracts'));
+    expect(config.contracts).toEqual({
+      Token: './cadence/contracts/Token.cdc',
+      Market: './cadence/contracts/Market.cdc',
+    });
+    expect(config.deployments.emulator).toEqual({
+      'emulator-bob': ['Token'],
+      'emulator-charlie': ['Market'],
+    });
+    expect(config.accounts['emulator-charlie']).toEqual({
+      address: 'f3fcd2c1a78f5eee',
+      key: '$EMULATOR_PRIVATE_KEY',
+    });
+  });
+});
@@ -9,10 +9,10 @@ import {
   getFullAccountList,
   filterExisting,
   generateContractUnitTest,
+  generateTests,
+  getExportedAccountNames,
 } from '../../src/util/generator';
 
-// TODO: Fix tests that utilize Handlebars to work properly
-
 describe('Generator Related Unit Tests', () => {
   test('properly zip arguments', () => {
     const args = [
@@ -175,7 +175,9 @@ describe('Generator Related Unit Tests', () => {
 
   test('find 2 signers', () => {
     const signers = getSignersAmount(`
+      transaction {
         prepare(acct: AuthAccount, second: AuthAccount) {}
+      }
     `);
 
     expect(signers).toBe(2);
@@ -183,7 +185,9 @@ describe('Generator Related Unit Tests', () => {
 
   test('find no signers', () => {
     const signers = getSignersAmount(`
+      transaction {
         prepare() {}
+      }
     `);
 
     expect(signers).toBe(0);
@@ -392,3 +396,48 @@ describe('Generator - Transactions', () => {
     console.log(generatedCode);
   });
 });
+
+describe('Generator - Test Suite', () => {
+  test('names accounts with valid and unique identifiers', async () => {
+    const address = (index) =>
+      `000000000000000000000000000000000000000${index}`;
+    const project = {
+      accounts: [1, 2, 3, 4, 5].map((index) => ({
+        address: address(index),
+        draftCode: '',
+      })),
+      transactionTemplates: [
+        {
+          title: 'Transfer',
+          script: `import Token from 0x01
+
+transaction {
+  prepare(acct: AuthAccount) {}
+}`,
+        },
+      ],
+      scriptTemplates: [],
+    };
+    const profiles = {
+      '0x01': { alias: 'new' },
+      '0x02': { alias: 'Token' },
+      '0x03': { alias: 'Alice!' },
+      '0x04': { alias: 'Alice?' },
+      '0x05': { alias: 'code' },
+    };
+
+    const names = getExportedAccountNames(project, profiles);
+    expect(names).toEqual({
+      '0x01': 'new2',
+      '0x02': 'Token2',
+      '0x03': 'Alice',
+      '0x04': 'Alice2',
+      '0x05': 'code2',
+    });
+
+    // Generated code is formatted by prettier, which fails on invalid code
+    const code = await generateTests('cadence', project, names);
+    expect(code).toContain('const new2 = await getAccountAddress("new2");');
+    expect(code).toContain('const Token = await getContractAddress("Token");');
+  });
+});
@@ -0,0 +1,142 @@
+import JSZip from 'jszip';
+import {
+  buildProjectFromFlowConfig,
+  isFlowConfig,
+} from '../../src/util/flow-config';
+import {
+  buildProject,
+  readFiles,
+  readZip,
+} from '../../src/util/project-import';
+
+const token = 'pub contract Token {}';
+const market = `import Token from 0x02
+
+pub contract Market {}`;
+const transfer = `import Token from 0x02
+
+transaction {}`;
+const balance = 'pub fun main(): Int {\n  return 1\n}';
+
+const createZip = async (files) => {
+  const zip = new JSZip();
+  Object.keys(files).forEach((path) => zip.file(path, files[path]));
+  return zip.generateAsync({ type: 'uint8array' });
+};
+
+// Same as the files of a directory input
+const createFile = (path, code) => ({
+  name: path.split('/').pop(),
+  webkitRelativePath: path,
+  text: async () => code,
+});
+
+describe('Project Import', () => {
+  test('reads Cadence files and the configuration from zips', async () => {
+    const zip = await createZip({
+      'project/cadence/contracts/Token.cdc': token,
+      'project/cadence/transactions/Transfer.cdc': transfer,
+      'project/flow.json': '{}',
+      'project/playground.json': '{}',
+      'project/README.md': '# Project',
+    });
+
+    const files = await readZip(zip);
+    expect(files.map((file) => file.path).sort()).toEqual([
+      'project/cadence/contracts/Token.cdc',
+      'project/cadence/transactions/Transfer.cdc',
+      'project/flow.json',
+      'project/playground.json',
+    ]);
+  });
+
+  test('rejects archives which are not zips', async () => {
+    await expect(readZip(new Uint8Array([1, 2, 3]))).rejects.toThrow();
+  });
+
+  test('reads files of folders with their relative paths', async () => {
+    const files = await readFiles([
+      createFile('project/contracts/Token.cdc', token),
+      createFile('project/notes.txt', 'notes'),
+      { name: 'Balance.cdc', text: async () => balance },
+    ]);
+    expect(files).toEqual([
+      { path: 'project/contracts/Token.cdc', code: token },
+      { path: 'Balance.cdc', code: balance },
+    ]);
+  });
+
+  test('places sources without flow.json by their declarations', async () => {
+    const files = await readZip(
+      await createZip({
+        'Market.cdc': market,
+        'Token.cdc': token,
+        'Transfer.cdc': transfer,
+        'Balance.cdc': balance,
+        'Notes.cdc': '// nothing to import',
+      }),
+    );
+    expect(files.some(isFlowConfig)).toBe(false);
+
+    expect(buildProject(files, 3)).toEqual({
+      // Token is imported from the second account, Market takes the first free one
+      accounts: [market, token, ''],
+      transactionTemplates: [
+        { title: 'Transfer', code: transfer, path: 'Transfer.cdc' },
+      ],
+      scriptTemplates: [
+        { title: 'Balance', code: balance, path: 'Balance.cdc' },
+      ],
+      skipped: ['Notes.cdc'],
+    });
+  });
+
+  test('places contracts with imports of other accounts', () => {
+    const files = [
+      { path: 'contracts/Token.cdc', code: token },
+      { path: 'contracts/Market.cdc', code: market.replace('0x02', '0x09') },
+    ];
+    const project = buildProject(files, 1);
+    // Imports pointing outside the project don't place contracts,
+    // contracts which don't fit are skipped
+    expect(project.accounts).toEqual([market.replace('0x02', '0x09')]);
+    expect(project.skipped).toEqual(['contracts/Token.cdc']);
+  });
+
+  test('skips contracts of flow.json without sources', async () => {
+    const config = {
+      contracts: { Token: './contracts/Token.cdc', Missing: './Missing.cdc' },
+      deployments: {
+        emulator: { 'emulator-account': ['Token'], second: ['Missing'] },
+      },
+    };
+    const files = await readFiles([
+      createFile('project/flow.json', JSON.stringify(config)),
+      createFile('project/contracts/Token.cdc', token),
+      createFile('project/transactions/Transfer.cdc', transfer),
+    ]);
+    const configFile = files.find(isFlowConfig);
+
+    const project = buildProjectFromFlowConfig(
+      configFile,
+      files.filter((file) => file !== configFile),
+      2,
+    );
+    expect(project.accounts).toEqual([token, '']);
+    expect(project.transactionTemplates).toEqual([
+      {
+        title: 'Transfer',
+        code: transfer,
+        path: 'project/transactions/Transfer.cdc',
+      },
+    ]);
+    expect(project.skipped).toEqual(['Missing']);
+  });
+
+  test('rejects invalid flow.json', () => {
+    const configFile = { path: 'flow.json', code: '{ "contracts": ' };
+    expect(() => buildProjectFromFlowConfig(configFile, [], 1)).toThrow(
+      SyntaxError,
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import { renameInCode, renameInFiles } from '../../src/util/project-rename';
+
+describe('Project Rename', () => {
+  test('replaces ranges, keeping line breaks', () => {
+    const code = 'let a = mint()\r\nlet b = mint() + mint()';
+    const ranges = [
+      { lineNumber: 1, startColumn: 9, endColumn: 13 },
+      { lineNumber: 2, startColumn: 9, endColumn: 13 },
+      { lineNumber: 2, startColumn: 18, endColumn: 22 },
+    ];
+    expect(renameInCode(code, ranges, 'create')).toBe(
+      'let a = create()\r\nlet b = create() + create()',
+    );
+  });
+
+  test('ignores duplicate ranges', () => {
+    const range = { lineNumber: 1, startColumn: 1, endColumn: 6 };
+    expect(renameInCode('Token.mint()', [range, { ...range }], 'Coin')).toBe(
+      'Coin.mint()',
+    );
+  });
+
+  test('renames in every file', () => {
+    const files = renameInFiles(
+      [
+        {
+          file: {
+            kind: 'account',
+            index: 0,
+            id: 'a',
+            title: '0x01',
+            code: 'pub contract Token {}',
+          },
+          ranges: [{ lineNumber: 1, startColumn: 14, endColumn: 19 }],
+        },
+        {
+          file: {
+            kind: 'tx',
+            index: 0,
+            id: 't',
+            title: 'Mint',
+            code: 'import Token from 0x01',
+          },
+          ranges: [{ lineNumber: 1, startColumn: 8, endColumn: 13 }],
+        },
+      ],
+      'Coin',
+    );
+    expect(files.map((file) => file.code)).toEqual([
+      'pub contract Coin {}',
+      'import Coin from 0x01',
+    ]);
+    expect(files[1]).toMatchObject({ kind: 'tx', id: 't', title: 'Mint' });
+  });
+});
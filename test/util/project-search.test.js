@@ -0,0 +1,87 @@
+import {
+  createSearchPattern,
+  findMatches,
+  replaceMatches,
+  searchProjectFiles,
+} from '../../src/util/project-search';
+
+const search = (query, options = {}) =>
+  createSearchPattern({
+    query,
+    isRegex: false,
+    isCaseSensitive: false,
+    ...options,
+  });
+
+describe('Project Search', () => {
+  test('finds matches with their positions', () => {
+    const code = 'pub contract Hello {\n  pub let greeting: String\n}';
+    expect(findMatches(code, search('pub'))).toEqual([
+      {
+        lineNumber: 1,
+        startColumn: 1,
+        endColumn: 4,
+        lineText: 'pub contract Hello {',
+      },
+      {
+        lineNumber: 2,
+        startColumn: 3,
+        endColumn: 6,
+        lineText: '  pub let greeting: String',
+      },
+    ]);
+  });
+
+  test('respects case sensitivity', () => {
+    const code = 'Hello hello';
+    expect(findMatches(code, search('hello'))).toHaveLength(2);
+    expect(
+      findMatches(code, search('hello', { isCaseSensitive: true })),
+    ).toHaveLength(1);
+  });
+
+  test('escapes queries unless searching with a regex', () => {
+    const code = 'let a = b.c\nlet bxc = 1';
+    expect(findMatches(code, search('b.c'))).toHaveLength(1);
+    expect(findMatches(code, search('b.c', { isRegex: true }))).toHaveLength(
+      2,
+    );
+  });
+
+  test('rejects invalid regular expressions', () => {
+    expect(() => search('(', { isRegex: true })).toThrow(SyntaxError);
+  });
+
+  test('skips files without matches', () => {
+    const files = [
+      { kind: 'tx', index: 0, id: 'a', title: 'A', code: 'import Hello' },
+      { kind: 'tx', index: 1, id: 'b', title: 'B', code: 'transaction {}' },
+    ];
+    const results = searchProjectFiles(files, search('Hello'));
+    expect(results.map((result) => result.file.id)).toEqual(['a']);
+  });
+
+  test('replaces matches', () => {
+    const code = 'Hello.hello()\r\nHello';
+    expect(replaceMatches(code, search('hello'), 'Hi', false)).toBe(
+      'Hi.Hi()\r\nHi',
+    );
+    expect(replaceMatches(code, search('$'), '$1', false)).toBe(code);
+    expect(
+      replaceMatches(
+        'let x: Int',
+        search('(\\w+): Int', { isRegex: true }),
+        '$1: UInt',
+        true,
+      ),
+    ).toBe('let x: UInt');
+  });
+
+  test('finds every match that gets replaced', () => {
+    const code = 'a'.repeat(1500);
+    expect(findMatches(code, search('a'))).toHaveLength(1500);
+    expect(replaceMatches(code, search('a'), 'b', false)).toBe(
+      'b'.repeat(1500),
+    );
+  });
+});
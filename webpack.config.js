@@ -7,14 +7,20 @@ const webpack = require("webpack")
 const { CleanWebpackPlugin } = require('clean-webpack-plugin');
 
 module.exports = {
-  entry: [
-    "./src/index.tsx",
-    "./src/wasm_exec.js"
-  ],
+  entry: {
+    main: "./src/index.tsx",
+    // The language server runs in a Web Worker, see src/util/language-server.ts
+    "language-server-worker": [
+      "./src/wasm_exec.js",
+      "./src/util/language-server-worker.ts"
+    ]
+  },
   output: {
-    filename: 'main.js',
+    filename: '[name].js',
     path: path.resolve(__dirname, 'dist'),
-    publicPath: "/"
+    publicPath: "/",
+    // Bundles have to run in workers as well as in the page
+    globalObject: "self"
   },
   resolve: {
     extensions: [ '.tsx', '.ts', '.js' ],
@@ -69,6 +75,7 @@ module.exports = {
     new Dotenv(),
     new HtmlWebpackPlugin({
       template: "./src/index.html",
+      chunks: ["main"],
     }),
     new CopyPlugin({
       patterns: [